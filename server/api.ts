@@ -0,0 +1,233 @@
+// Local API in front of the market data providers. The dashboard calls
+// /api/* here (proxied by the Vite dev server) instead of talking to CoinGecko
+// and Yahoo Finance from the browser, where Yahoo is blocked by CORS.
+// Responses are cached, upstream calls are rate limited per provider and API
+// keys never reach the client. Every endpoint answers with the dashboard's
+// own types (Quote, PricePoint, SearchResult), whichever provider is behind it.
+//
+//   GET /api/quotes?type=crypto&ids=bitcoin,ethereum
+//   GET /api/top?type=stock&limit=5
+//   GET /api/history?type=crypto&id=bitcoin&range=30d
+//   GET /api/search?type=stock&q=apple
+//   GET /api/metadata?type=crypto&id=bitcoin
+//   GET /api/global
+//
+//   npm run api [-- --port 8787]
+//
+// Environment: API_PORT, COINGECKO_API_KEY (demo plan) or
+// COINGECKO_PRO_API_KEY, COINGECKO_RATE_LIMIT and YAHOO_RATE_LIMIT
+// (requests per minute).
+
+import { createServer, type ServerResponse } from "node:http";
+import { createCoinGeckoProvider } from "../src/lib/market/coingecko";
+import { createYahooProvider } from "../src/lib/market/yahoo";
+import { ProviderResponseError } from "../src/lib/market/validation";
+import type { AssetType, HistoryRange, MarketDataProvider, Quote } from "../src/lib/market/types";
+import { createCache } from "./cache";
+import { createRateLimiter, RateLimitError, type RateLimiter } from "./rate-limit";
+
+const args = process.argv.slice(2);
+const option = (name: string, fallback: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const port = Number(option("port", process.env.API_PORT || "8787"));
+
+class BadRequestError extends Error {}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+
+// How long each kind of response is served from cache
+const ttl = {
+  quote: 15 * SECOND,
+  top: 30 * SECOND,
+  history: 5 * MINUTE,
+  search: 10 * MINUTE,
+  metadata: 24 * 60 * MINUTE,
+  global: MINUTE,
+};
+
+const HISTORY_RANGES: HistoryRange[] = ['1d', '7d', '30d', '180d', '1y', 'max', 'all'];
+const MAX_IDS = 250;
+
+const coinGeckoPro = process.env.COINGECKO_PRO_API_KEY;
+const coinGeckoDemo = process.env.COINGECKO_API_KEY;
+
+// Yahoo turns away requests that do not look like they come from a browser
+const BROWSER_USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0 Safari/537.36';
+
+const limiters: Record<AssetType, RateLimiter> = {
+  crypto: createRateLimiter({
+    provider: 'CoinGecko',
+    perMinute: Number(process.env.COINGECKO_RATE_LIMIT) || (coinGeckoPro ? 500 : coinGeckoDemo ? 30 : 10),
+  }),
+  stock: createRateLimiter({ provider: 'Yahoo Finance', perMinute: Number(process.env.YAHOO_RATE_LIMIT) || 60 }),
+};
+
+// Every HTTP request a provider makes takes a slot, so a call that fans out
+// (Yahoo's per-symbol chart fallback) is limited request by request
+const upstream: Record<AssetType, MarketDataProvider> = {
+  crypto: coinGeckoPro
+    ? createCoinGeckoProvider(
+      'https://pro-api.coingecko.com/api/v3',
+      { 'x-cg-pro-api-key': coinGeckoPro },
+      limiters.crypto.schedule
+    )
+    : createCoinGeckoProvider(
+      undefined,
+      coinGeckoDemo ? { 'x-cg-demo-api-key': coinGeckoDemo } : {},
+      limiters.crypto.schedule
+    ),
+  stock: createYahooProvider(undefined, { 'User-Agent': BROWSER_USER_AGENT }, limiters.stock.schedule),
+};
+
+const cache = createCache();
+
+const required = (params: URLSearchParams, name: string) => {
+  const value = params.get(name)?.trim();
+  if (!value) throw new BadRequestError(`Missing "${name}" parameter`);
+  return value;
+};
+
+const assetType = (params: URLSearchParams): AssetType => {
+  const type = required(params, 'type');
+  if (type !== 'crypto' && type !== 'stock') {
+    throw new BadRequestError('"type" must be "crypto" or "stock"');
+  }
+  return type;
+};
+
+// Cached, rate-limited call to the provider for `type`. When the provider
+// refuses or fails, the last good answer is served instead if there is one.
+const fromProvider = async <T>(
+  type: AssetType,
+  key: string,
+  maxAge: number,
+  call: (provider: MarketDataProvider) => Promise<T>
+): Promise<T> => {
+  try {
+    return await cache.load(`${type}:${key}`, maxAge, () => call(upstream[type]));
+  } catch (error) {
+    const stale = cache.getStale<T>(`${type}:${key}`);
+    if (stale !== undefined && !(error instanceof ProviderResponseError)) {
+      console.warn(`Serving stale ${type}:${key}:`, (error as Error).message);
+      return stale;
+    }
+    throw error;
+  }
+};
+
+// Keep the newest quote per asset; a cached top list must not roll one back
+const rememberQuote = (type: AssetType, quote: Quote) => {
+  const cached = cache.getStale<Quote>(`${type}:quote:${quote.id}`);
+  if (!cached || cached.updatedAt < quote.updatedAt) {
+    cache.set(`${type}:quote:${quote.id}`, quote, ttl.quote - (Date.now() - quote.updatedAt));
+  }
+};
+
+// Quotes are cached per asset so overlapping id lists share entries; only
+// the ids without a fresh quote go upstream, in one batched call.
+const getQuotes = async (type: AssetType, ids: string[]): Promise<Quote[]> => {
+  const missing = ids.filter((id) => cache.getFresh(`${type}:quote:${id}`) === undefined);
+  if (missing.length > 0) {
+    try {
+      const quotes = await upstream[type].getQuotes(missing);
+      quotes.forEach((quote) => rememberQuote(type, quote));
+    } catch (error) {
+      // Fall back to stale quotes, but only if every requested id has one
+      if (error instanceof ProviderResponseError || missing.some((id) => !cache.getStale(`${type}:quote:${id}`))) {
+        throw error;
+      }
+      console.warn(`Serving stale ${type} quotes:`, (error as Error).message);
+    }
+  }
+  return ids.flatMap((id) => cache.getStale<Quote>(`${type}:quote:${id}`) ?? []);
+};
+
+const routes: Record<string, (params: URLSearchParams) => Promise<unknown>> = {
+  '/api/quotes': async (params) => {
+    const ids = [...new Set(required(params, 'ids').split(',').map((id) => id.trim()).filter(Boolean))];
+    if (ids.length > MAX_IDS) throw new BadRequestError(`At most ${MAX_IDS} ids per request`);
+    return getQuotes(assetType(params), ids);
+  },
+
+  '/api/top': async (params) => {
+    const type = assetType(params);
+    const limit = Number(params.get('limit') ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_IDS) {
+      throw new BadRequestError(`"limit" must be a whole number from 1 to ${MAX_IDS}`);
+    }
+    const quotes = await fromProvider(type, `top:${limit}`, ttl.top, (provider) => provider.getTopAssets(limit));
+    quotes.forEach((quote) => rememberQuote(type, quote));
+    return quotes;
+  },
+
+  '/api/history': async (params) => {
+    const type = assetType(params);
+    const id = required(params, 'id');
+    const range = required(params, 'range') as HistoryRange;
+    if (!HISTORY_RANGES.includes(range)) {
+      throw new BadRequestError(`"range" must be one of ${HISTORY_RANGES.join(', ')}`);
+    }
+    return fromProvider(type, `history:${id}:${range}`, ttl.history, (provider) => provider.getHistory(id, range));
+  },
+
+  '/api/search': async (params) => {
+    const type = assetType(params);
+    const query = required(params, 'q');
+    if (query.length < 2) throw new BadRequestError('"q" must be at least 2 characters');
+    return fromProvider(type, `search:${query.toLowerCase()}`, ttl.search, (provider) => provider.search(query));
+  },
+
+  '/api/metadata': async (params) => {
+    const type = assetType(params);
+    const id = required(params, 'id');
+    return fromProvider(type, `metadata:${id}`, ttl.metadata, (provider) => provider.getMetadata(id));
+  },
+
+  '/api/global': async () =>
+    fromProvider('crypto', 'global', ttl.global, async (provider) => {
+      if (!provider.getGlobalStats) throw new Error(`${provider.name} does not provide global market stats`);
+      return provider.getGlobalStats();
+    }),
+};
+
+const send = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  response.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  response.end(JSON.stringify(body));
+};
+
+const server = createServer(async (request, response) => {
+  const url = new URL(request.url ?? '/', 'http://localhost');
+  const route = routes[url.pathname];
+
+  if (request.method !== 'GET') {
+    return send(response, 405, { error: 'Only GET is supported' }, { Allow: 'GET' });
+  }
+  if (!route) {
+    return send(response, 404, { error: `Unknown endpoint ${url.pathname}` });
+  }
+
+  try {
+    send(response, 200, await route(url.searchParams));
+  } catch (error) {
+    if (error instanceof BadRequestError) {
+      send(response, 400, { error: error.message });
+    } else if (error instanceof RateLimitError) {
+      send(response, 429, { error: error.message, retryAfter: error.retryAfter }, { 'Retry-After': String(error.retryAfter) });
+    } else if (error instanceof ProviderResponseError) {
+      const { message, provider, endpoint, field, detail } = error;
+      send(response, 502, { error: message, provider, endpoint, field, detail });
+    } else {
+      console.error(`${url.pathname} failed:`, error);
+      send(response, 502, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+});
+
+server.listen(port, () => {
+  console.log(`Market data API on http://localhost:${port}/api`);
+});
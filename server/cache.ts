@@ -0,0 +1,54 @@
+interface Entry<T> {
+  value: T;
+  expiresAt: number;
+}
+
+const MAX_ENTRIES = 1000;
+
+/**
+ * In-memory response cache. Concurrent loads of the same key share one
+ * upstream request, and an expired value is kept around so it can be served
+ * when the upstream is rate limited or down.
+ */
+export const createCache = () => {
+  const entries = new Map<string, Entry<unknown>>();
+  const pending = new Map<string, Promise<unknown>>();
+
+  const set = <T>(key: string, value: T, ttl: number) => {
+    entries.delete(key);
+    entries.set(key, { value, expiresAt: Date.now() + ttl });
+    // Maps iterate in insertion order, so the first key is the oldest write
+    if (entries.size > MAX_ENTRIES) {
+      entries.delete(entries.keys().next().value);
+    }
+  };
+
+  const getFresh = <T>(key: string): T | undefined => {
+    const entry = entries.get(key);
+    return entry && entry.expiresAt > Date.now() ? (entry.value as T) : undefined;
+  };
+
+  const getStale = <T>(key: string): T | undefined => entries.get(key)?.value as T | undefined;
+
+  const load = async <T>(key: string, ttl: number, loader: () => Promise<T>): Promise<T> => {
+    const fresh = getFresh<T>(key);
+    if (fresh !== undefined) return fresh;
+
+    if (!pending.has(key)) {
+      pending.set(
+        key,
+        loader()
+          .then((value) => {
+            set(key, value, ttl);
+            return value;
+          })
+          .finally(() => pending.delete(key))
+      );
+    }
+    return pending.get(key) as Promise<T>;
+  };
+
+  return { set, getFresh, getStale, load };
+};
+
+export type Cache = ReturnType<typeof createCache>;
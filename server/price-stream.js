@@ -0,0 +1,78 @@
+// Local stand-in for an exchange ticker stream. Replays the recorded tick
+// tape in ./fixtures/ticks.json in a loop, speaking the Binance combined
+// stream protocol: clients SUBSCRIBE to "<symbol>@ticker" streams and receive
+// 24hrTicker events wrapped as { stream, data }.
+//
+//   node server/price-stream.js [--port 8090] [--tape path/to/ticks.json]
+
+import { readFileSync } from "node:fs";
+import { WebSocketServer } from "ws";
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : fallback;
+};
+
+const port = Number(option("port", process.env.PRICE_STREAM_PORT || 8090));
+const tapePath = option("tape", new URL("./fixtures/ticks.json", import.meta.url));
+const tape = JSON.parse(readFileSync(tapePath, "utf8"));
+
+const streamFor = (symbol) => `${symbol.toLowerCase()}@ticker`;
+
+const tickerEvent = (symbol, price) => {
+  const open = tape.open[symbol] ?? price;
+  const change = price - open;
+  return {
+    e: "24hrTicker",
+    E: Date.now(),
+    s: symbol,
+    c: String(price),
+    o: String(open),
+    p: String(change),
+    P: String(open > 0 ? (change / open) * 100 : 0),
+  };
+};
+
+const server = new WebSocketServer({ port });
+const subscriptions = new Map();
+
+server.on("connection", (socket) => {
+  subscriptions.set(socket, new Set());
+
+  socket.on("message", (raw) => {
+    let message;
+    try {
+      message = JSON.parse(raw.toString());
+    } catch {
+      return;
+    }
+
+    const streams = subscriptions.get(socket);
+    const params = Array.isArray(message.params) ? message.params : [];
+    if (message.method === "SUBSCRIBE") {
+      params.forEach((stream) => streams.add(stream));
+    } else if (message.method === "UNSUBSCRIBE") {
+      params.forEach((stream) => streams.delete(stream));
+    }
+    socket.send(JSON.stringify({ result: null, id: message.id ?? null }));
+  });
+
+  socket.on("close", () => subscriptions.delete(socket));
+});
+
+let frame = 0;
+setInterval(() => {
+  const prices = tape.frames[frame];
+  frame = (frame + 1) % tape.frames.length;
+
+  tape.symbols.forEach((symbol, index) => {
+    const stream = streamFor(symbol);
+    const payload = JSON.stringify({ stream, data: tickerEvent(symbol, prices[index]) });
+    subscriptions.forEach((streams, socket) => {
+      if (streams.has(stream)) socket.send(payload);
+    });
+  });
+}, tape.interval);
+
+console.log(`Replaying ${tape.frames.length} recorded ticks on ws://localhost:${port}`);
@@ -0,0 +1,48 @@
+export class RateLimitError extends Error {
+  /** Seconds until the provider will accept another request. */
+  readonly retryAfter: number;
+
+  constructor(provider: string, retryAfter: number) {
+    super(`${provider} rate limit reached; retry in ${retryAfter}s`);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+interface RateLimitOptions {
+  provider: string;
+  perMinute: number;
+  /** Requests allowed back to back before spacing kicks in. */
+  burst?: number;
+  /** Longest a request may queue for a slot before it is refused. */
+  maxWait?: number;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Spaces upstream calls to stay under a provider's per-minute allowance
+ * (generic cell rate algorithm). Calls wait briefly for a slot and are
+ * refused with a RateLimitError when the queue would take too long.
+ */
+export const createRateLimiter = ({ provider, perMinute, burst = Math.ceil(perMinute / 6), maxWait = 5000 }: RateLimitOptions) => {
+  const interval = 60000 / perMinute;
+  let nextSlot = 0;
+
+  const schedule = async <T>(task: () => Promise<T>): Promise<T> => {
+    const now = Date.now();
+    const slot = Math.max(nextSlot, now);
+    const wait = slot - now - (burst - 1) * interval;
+    if (wait > maxWait) {
+      throw new RateLimitError(provider, Math.ceil(wait / 1000));
+    }
+
+    nextSlot = slot + interval;
+    if (wait > 0) await sleep(wait);
+    return task();
+  };
+
+  return { schedule };
+};
+
+export type RateLimiter = ReturnType<typeof createRateLimiter>;
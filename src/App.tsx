@@ -3,9 +3,18 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { ProviderResponseError } from "@/lib/market";
 import Index from "./pages/Index";
+import TaxReport from "./pages/TaxReport";
 
-const queryClient = new QueryClient();
+// A malformed response will be just as malformed on retry
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      retry: (failureCount, error) => !(error instanceof ProviderResponseError) && failureCount < 3,
+    },
+  },
+});
 
 const App = () => (
   <QueryClientProvider client={queryClient}>
@@ -15,6 +24,7 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/tax-report" element={<TaxReport />} />
         </Routes>
       </BrowserRouter>
     </TooltipProvider>
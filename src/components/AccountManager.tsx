@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts, useCashMovements, useTransactions } from "@/hooks/use-portfolio";
+import {
+  accountKindLabels,
+  addAccount,
+  removeAccount,
+  updateAccount,
+  type AccountKind,
+} from "@/lib/portfolio";
+import CostBasisSelect from "./CostBasisSelect";
+
+const accountKinds = Object.keys(accountKindLabels) as AccountKind[];
+
+const KindSelect = ({ value, onChange }: { value: AccountKind; onChange: (kind: AccountKind) => void }) => (
+  <Select value={value} onValueChange={(kind) => onChange(kind as AccountKind)}>
+    <SelectTrigger className="w-[130px]" aria-label="Account type">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {accountKinds.map((kind) => (
+        <SelectItem key={kind} value={kind}>{accountKindLabels[kind]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+// Rename, retype and add accounts; only empty accounts can be deleted
+const AccountManager = () => {
+  const accounts = useAccounts();
+  const transactions = useTransactions();
+  const cashMovements = useCashMovements();
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<AccountKind>('brokerage');
+
+  const inUse = new Set([
+    ...transactions.flatMap((transaction) => [transaction.accountId, transaction.toAccountId]),
+    ...cashMovements.map((movement) => movement.accountId),
+  ]);
+
+  const handleAdd = () => {
+    if (!name.trim()) return;
+    addAccount(name.trim(), kind);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        {accounts.map((account) => (
+          <div key={account.id} className="flex flex-wrap items-center gap-2">
+            <Input
+              value={account.name}
+              onChange={(e) => updateAccount(account.id, { name: e.target.value })}
+              onBlur={(e) => !e.target.value.trim() && updateAccount(account.id, { name: 'Untitled' })}
+              className="flex-1 min-w-[140px]"
+              aria-label="Account name"
+            />
+            <KindSelect value={account.kind} onChange={(next) => updateAccount(account.id, { kind: next })} />
+            <CostBasisSelect account={account} />
+            <label className="flex items-center gap-1 text-sm" title="Buys spend and sales add to cash held in the account">
+              <Checkbox
+                checked={Boolean(account.tracksCash)}
+                onCheckedChange={(checked) => updateAccount(account.id, { tracksCash: checked === true })}
+              />
+              Cash
+            </label>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => removeAccount(account.id)}
+              disabled={accounts.length === 1 || inUse.has(account.id)}
+              title={inUse.has(account.id) ? 'Move or delete its transactions first' : undefined}
+              className="text-warning hover:text-warning"
+              aria-label={`Delete ${account.name}`}
+            >
+              <TrashIcon className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+      <div>
+        <label className="text-sm font-medium">New account</label>
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+            placeholder="e.g. Cold wallet"
+          />
+          <KindSelect value={kind} onChange={setKind} />
+          <Button onClick={handleAdd} disabled={!name.trim()}>
+            <PlusIcon className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AccountManager;
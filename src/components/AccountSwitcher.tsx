@@ -0,0 +1,44 @@
+import { useState } from "react";
+import { Settings2Icon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAccounts, useSelectedAccount } from "@/hooks/use-portfolio";
+import { ALL_ACCOUNTS } from "@/lib/portfolio";
+import AccountManager from "./AccountManager";
+
+const AccountSwitcher = () => {
+  const accounts = useAccounts();
+  const [selected, setSelected] = useSelectedAccount();
+  const [isManaging, setIsManaging] = useState(false);
+
+  return (
+    <div className="flex items-center gap-1">
+      <Select value={selected} onValueChange={setSelected}>
+        <SelectTrigger className="w-[180px]" aria-label="Account">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+          {accounts.map((account) => (
+            <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button variant="ghost" size="sm" onClick={() => setIsManaging(true)} aria-label="Manage accounts">
+        <Settings2Icon className="w-4 h-4" />
+      </Button>
+
+      <Dialog open={isManaging} onOpenChange={setIsManaging}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Accounts</DialogTitle>
+          </DialogHeader>
+          <AccountManager />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AccountSwitcher;
@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { PieChart, Pie, Cell, Treemap, ResponsiveContainer, Tooltip } from "recharts";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts, useAllocationSettings } from "@/hooks/use-portfolio";
+import {
+  ALL_ACCOUNTS,
+  CASH_KEY,
+  allocationBy,
+  allocationGroupingLabels,
+  assetClassLabels,
+  assetClassOf,
+  isStablecoin,
+  rebalance,
+  sectorOf,
+  type AllocationGrouping,
+  type CashBalance,
+  type Holding,
+  type Position,
+} from "@/lib/portfolio";
+
+interface AllocationPanelProps {
+  /** Positions of the account being viewed, or of every account, kept apart by account. */
+  positions: Position[];
+  cashBalances: CashBalance[];
+  /** Price per unit in the base currency, when there is a reliable one. */
+  priceOf: (position: Position) => number | undefined;
+  accountId?: string;
+}
+
+type ChartKind = 'pie' | 'treemap';
+
+const sliceColors = ['#8989DE', '#7EBF8E', '#D2886F', '#E6E4DD', '#C9A4D9', '#61AAF2', '#E8C468', '#605F5B'];
+
+// Drift, in percentage points, beyond which a holding is flagged
+const DRIFT_ALERT = 5;
+
+const tooltipStyle = {
+  background: '#3A3935',
+  border: '1px solid #605F5B',
+  borderRadius: '8px'
+};
+
+interface TreemapCellProps {
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  index?: number;
+  name?: string;
+}
+
+const TreemapCell = ({ x, y, width, height, index, name }: TreemapCellProps) => (
+  <g>
+    <rect x={x} y={y} width={width} height={height} fill={sliceColors[index % sliceColors.length]} stroke="#141413" />
+    {width > 48 && height > 20 && (
+      <text x={x + 6} y={y + 16} fill="#141413" fontSize={12}>{name}</text>
+    )}
+  </g>
+);
+
+const AllocationPanel = ({ positions, cashBalances, priceOf, accountId }: AllocationPanelProps) => {
+  const { format, convertAt } = useCurrency();
+  const accounts = useAccounts();
+  const [settings, updateSettings] = useAllocationSettings();
+  const [grouping, setGrouping] = useState<AllocationGrouping>('asset');
+  const [chart, setChart] = useState<ChartKind>('pie');
+  const [allowSells, setAllowSells] = useState(true);
+
+  const scope = accountId ?? ALL_ACCOUNTS;
+  // Targets of assets that have left the portfolio altogether are stale
+  const targets = Object.fromEntries(Object.entries(settings.targets[scope] ?? {}).filter(([key]) =>
+    positions.some((position) => position.key === key && !isStablecoin(position))
+  ));
+
+  // Held positions with a reliable price, plus cash; stablecoins go in with the cash
+  const holdings: Holding[] = [
+    ...positions.flatMap((position) => {
+      const price = priceOf(position);
+      if (position.quantity <= 0 || price === undefined) return [];
+      return [{
+        key: isStablecoin(position) ? CASH_KEY : position.key,
+        symbol: position.symbol,
+        assetClass: assetClassOf(position),
+        sector: sectorOf(position, settings.sectors),
+        accountId: position.accountId,
+        value: price * position.quantity,
+      }];
+    }),
+    ...cashBalances.map((balance) => ({
+      key: CASH_KEY,
+      symbol: balance.currency,
+      assetClass: 'cash' as const,
+      sector: 'Cash',
+      accountId: balance.accountId,
+      value: convertAt(balance.amount, balance.currency, undefined),
+    })),
+  ];
+
+  // Assets sold out but still targeted, at no value, so the calculator can buy them back
+  const unheld: Holding[] = Object.keys(targets)
+    .filter((key) => !positions.some((position) => position.key === key && position.quantity > 0))
+    .map((key) => {
+      const position = positions.find((candidate) => candidate.key === key);
+      return {
+        key,
+        symbol: position.symbol,
+        assetClass: assetClassOf(position),
+        sector: sectorOf(position, settings.sectors),
+        accountId: position.accountId,
+        value: 0,
+      };
+    });
+
+  // Targeted holdings with no price to value or trade them at, so the plan can say so
+  const unpriced: Holding[] = positions
+    .filter((position) => position.quantity > 0 && targets[position.key] !== undefined && priceOf(position) === undefined)
+    .map((position) => ({
+      key: position.key,
+      symbol: position.symbol,
+      assetClass: assetClassOf(position),
+      sector: sectorOf(position, settings.sectors),
+      accountId: position.accountId,
+      value: 0,
+    }));
+
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name ?? 'Unknown account';
+  const slices = allocationBy(holdings, grouping, accountName);
+  const assets = [
+    ...allocationBy(holdings, 'asset', accountName),
+    ...unheld.map(({ key, symbol }) => ({ key, label: symbol, value: 0, weight: 0 })),
+  ];
+  const total = holdings.reduce((sum, holding) => sum + holding.value, 0);
+
+  const targetSum = Object.values(targets).reduce((sum, target) => sum + target, 0);
+  const hasTargets = Object.keys(targets).length > 0;
+  // Holdings without a target stay as they are, so cash gets what they and the targets leave
+  const untargeted = assets.filter((asset) => asset.key !== CASH_KEY && targets[asset.key] === undefined);
+  const untargetedWeight = untargeted.reduce((sum, asset) => sum + asset.weight * 100, 0);
+
+  const prices = new Map(positions.flatMap((position) => {
+    const price = priceOf(position);
+    return price === undefined ? [] : [[position.key, price] as const];
+  }));
+  const plan = hasTargets && targetSum <= 100
+    ? rebalance({
+      holdings: [...holdings, ...unheld, ...unpriced],
+      prices,
+      targets: Object.fromEntries(Object.entries(targets).map(([key, target]) => [key, target / 100])),
+      minTrade: settings.minTrade,
+      allowSells,
+    })
+    : undefined;
+
+  const setTarget = (key: string, value: string) => {
+    const next = { ...targets };
+    if (value === '') delete next[key];
+    else next[key] = Math.max(Number(value) || 0, 0);
+    updateSettings({ targets: { ...settings.targets, [scope]: next } });
+  };
+
+  const setSector = (key: string, sector: string) => {
+    const next = { ...settings.sectors };
+    if (sector.trim()) next[key] = sector.trim();
+    else delete next[key];
+    updateSettings({ sectors: next });
+  };
+
+  if (total <= 0) return null;
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Allocation</h3>
+        <div className="flex flex-wrap items-center gap-2">
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={chart}
+            onValueChange={(value) => value && setChart(value as ChartKind)}
+            aria-label="Chart"
+          >
+            <ToggleGroupItem value="pie" className="text-xs">Pie</ToggleGroupItem>
+            <ToggleGroupItem value="treemap" className="text-xs">Treemap</ToggleGroupItem>
+          </ToggleGroup>
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as AllocationGrouping)}>
+            <SelectTrigger className="w-[160px]" aria-label="Group allocation">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(allocationGroupingLabels) as AllocationGrouping[]).map((option) => (
+                <SelectItem key={option} value={option}>{allocationGroupingLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              {chart === 'pie' ? (
+                <PieChart>
+                  <Pie data={slices} dataKey="value" nameKey="label" innerRadius="55%" outerRadius="90%" stroke="#141413">
+                    {slices.map((slice, index) => (
+                      <Cell key={slice.key} fill={sliceColors[index % sliceColors.length]} />
+                    ))}
+                  </Pie>
+                  <Tooltip formatter={(value: number) => format(value)} contentStyle={tooltipStyle} itemStyle={{ color: '#E6E4DD' }} />
+                </PieChart>
+              ) : (
+                <Treemap
+                  data={slices.map((slice) => ({ name: slice.label, size: slice.value }))}
+                  dataKey="size"
+                  isAnimationActive={false}
+                  content={<TreemapCell />}
+                >
+                  <Tooltip formatter={(value: number) => format(value)} contentStyle={tooltipStyle} itemStyle={{ color: '#E6E4DD' }} />
+                </Treemap>
+              )}
+            </ResponsiveContainer>
+          </div>
+          <ul className="mt-4 space-y-1 text-sm">
+            {slices.map((slice, index) => (
+              <li key={slice.key} className="flex items-center gap-2">
+                <span className="w-3 h-3 rounded-sm shrink-0" style={{ background: sliceColors[index % sliceColors.length] }} />
+                <span className="flex-1">{slice.label}</span>
+                <span className="text-muted-foreground">{format(slice.value)}</span>
+                <span className="w-16 text-right">{(slice.weight * 100).toFixed(1)}%</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">Asset</th>
+                <th className="pb-2">Sector</th>
+                <th className="pb-2">Current</th>
+                <th className="pb-2">Target %</th>
+                <th className="pb-2">Drift</th>
+              </tr>
+            </thead>
+            <tbody>
+              {assets.map((asset) => {
+                const isCash = asset.key === CASH_KEY;
+                const position = positions.find((candidate) => candidate.key === asset.key);
+                const target = isCash ? Math.max(100 - targetSum - untargetedWeight, 0) : targets[asset.key];
+                const drift = target === undefined ? undefined : asset.weight * 100 - target;
+                return (
+                  <tr key={asset.key} className="border-b border-border/50">
+                    <td className="py-2 font-medium">{asset.label}</td>
+                    <td className="py-2">
+                      {position?.type === 'stock' ? (
+                        <Input
+                          className="h-8 w-36"
+                          defaultValue={settings.sectors[asset.key] ?? ''}
+                          placeholder={sectorOf(position, {})}
+                          onBlur={(event) => setSector(asset.key, event.target.value)}
+                          aria-label={`Sector of ${asset.label}`}
+                        />
+                      ) : (
+                        <span className="text-muted-foreground">{isCash ? 'Cash' : 'Crypto'}</span>
+                      )}
+                    </td>
+                    <td className="py-2">{(asset.weight * 100).toFixed(1)}%</td>
+                    <td className="py-2">
+                      {isCash ? (
+                        <span className="text-muted-foreground" title="Cash takes what the other holdings leave">
+                          {target.toFixed(1)}
+                        </span>
+                      ) : (
+                        <Input
+                          type="number"
+                          min={0}
+                          max={100}
+                          className="h-8 w-20"
+                          value={targets[asset.key] ?? ''}
+                          onChange={(event) => setTarget(asset.key, event.target.value)}
+                          aria-label={`Target for ${asset.label}`}
+                        />
+                      )}
+                    </td>
+                    <td className={`py-2 ${hasTargets && Math.abs(drift) >= DRIFT_ALERT ? 'text-warning' : 'text-muted-foreground'}`}>
+                      {hasTargets && drift !== undefined ? `${drift > 0 ? '+' : ''}${drift.toFixed(1)} pp` : '—'}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {targetSum > 100 && (
+            <p className="text-xs text-warning mt-2">Targets add up to {targetSum.toFixed(1)}%; bring them to 100% or less.</p>
+          )}
+          <p className="text-xs text-muted-foreground mt-2">
+            Holdings without a target are left as they are; set 0 to sell one off. {assetClassLabels.cash} take
+            whatever the rest leave. Drift beyond {DRIFT_ALERT} points is flagged.
+          </p>
+        </div>
+      </div>
+
+      {plan && (
+        <div className="mt-6">
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <h4 className="font-semibold flex-1">Rebalance</h4>
+            <div className="space-y-1">
+              <label className="text-sm font-medium" htmlFor="min-trade">Minimum trade</label>
+              <Input
+                id="min-trade"
+                type="number"
+                min={0}
+                className="w-28"
+                value={settings.minTrade}
+                onChange={(event) => updateSettings({ minTrade: Math.max(Number(event.target.value) || 0, 0) })}
+              />
+            </div>
+            <label className="flex items-center gap-1 text-sm pb-2">
+              <Checkbox checked={allowSells} onCheckedChange={(checked) => setAllowSells(checked === true)} />
+              Sell what is over target
+            </label>
+          </div>
+
+          {plan.trades.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to trade: every holding is within a minimum trade of its target.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-muted-foreground border-b border-border">
+                    <th className="pb-2">Trade</th>
+                    <th className="pb-2">Asset</th>
+                    <th className="pb-2">Amount</th>
+                    <th className="pb-2">Quantity</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.trades.map((trade) => (
+                    <tr key={`${trade.side}/${trade.key}`} className="border-b border-border/50">
+                      <td className={`py-2 ${trade.side === 'buy' ? 'text-success' : 'text-warning'}`}>
+                        {trade.side === 'buy' ? 'Buy' : 'Sell'}
+                      </td>
+                      <td className="py-2 font-medium">{trade.symbol}</td>
+                      <td className="py-2">{format(trade.amount)}</td>
+                      <td className="py-2">{trade.quantity.toLocaleString(undefined, { maximumFractionDigits: 6 })}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <p className="text-xs text-muted-foreground mt-2">
+            Leaves {format(plan.cashAfter)} in {assetClassLabels.cash.toLowerCase()}.
+            {plan.shortfall > 0 && ` Buys fall ${format(plan.shortfall)} short of the targets for want of cash.`}
+            {plan.unpriced.length > 0 && ` No price to trade ${plan.unpriced.join(', ')} at.`}
+            {untargeted.length > 0 && ` Left alone for want of a target: ${untargeted.map((asset) => asset.label).join(', ')}.`}
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AllocationPanel;
@@ -0,0 +1,139 @@
+import { useMemo } from "react";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCurrency } from "@/hooks/use-currency";
+import { useBenchmarkSettings } from "@/hooks/use-benchmarks";
+import type { PortfolioHistory } from "@/hooks/use-portfolio-history";
+import { formatPercent } from "@/lib/format";
+import { BLEND_ID, measurePerformance, presetBenchmarks, type BenchmarkSeries } from "@/lib/portfolio";
+import DataError from "./DataError";
+
+interface BenchmarkPanelProps {
+  history: PortfolioHistory;
+  benchmarks: BenchmarkSeries[];
+  error?: unknown;
+  /** What went wrong working out the benchmarks' values from their prices. */
+  buildError?: unknown;
+}
+
+const tone = (value: number | undefined) =>
+  value === undefined ? 'text-muted-foreground' : value >= 0 ? 'text-success' : 'text-warning';
+
+// Difference of two returns, when both are known
+const excess = (portfolio: number | undefined, benchmark: number | undefined) =>
+  portfolio !== undefined && benchmark !== undefined ? portfolio - benchmark : undefined;
+
+const BenchmarkPanel = ({ history, benchmarks, error, buildError }: BenchmarkPanelProps) => {
+  const { format } = useCurrency();
+  const [settings, updateSettings] = useBenchmarkSettings();
+  const { snapshots, today } = history;
+
+  const portfolio = useMemo(() => measurePerformance(snapshots, today), [snapshots, today]);
+  const rows = useMemo(
+    () => benchmarks.map(({ benchmark, snapshots: series }) => ({
+      benchmark,
+      performance: measurePerformance(series, today),
+      value: series[series.length - 1]?.value ?? 0,
+    })),
+    [benchmarks, today]
+  );
+  const portfolioValue = snapshots[snapshots.length - 1]?.value ?? 0;
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Against Benchmarks</h3>
+        <ToggleGroup
+          type="multiple"
+          size="sm"
+          value={settings.selected}
+          onValueChange={(selected) => updateSettings({ selected })}
+          aria-label="Benchmarks"
+        >
+          {presetBenchmarks.map((preset) => (
+            <ToggleGroupItem key={preset.id} value={preset.id} className="text-xs">
+              {preset.components[0].symbol}
+            </ToggleGroupItem>
+          ))}
+          <ToggleGroupItem value={BLEND_ID} className="text-xs">Blend</ToggleGroupItem>
+        </ToggleGroup>
+      </div>
+
+      {settings.selected.includes(BLEND_ID) && (
+        <div className="flex flex-wrap items-end gap-4 mb-4">
+          {presetBenchmarks.map((preset) => (
+            <div key={preset.id} className="space-y-1">
+              <label className="text-sm font-medium" htmlFor={`blend-${preset.id}`}>
+                {preset.components[0].symbol} %
+              </label>
+              <Input
+                id={`blend-${preset.id}`}
+                type="number"
+                min={0}
+                max={100}
+                className="w-24"
+                value={settings.blend[preset.id] ?? 0}
+                onChange={(event) =>
+                  updateSettings({ blend: { ...settings.blend, [preset.id]: Math.max(Number(event.target.value) || 0, 0) } })}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground pb-2">Weights are scaled to add up to 100% and rebalanced daily.</p>
+        </div>
+      )}
+
+      {error && <DataError what="benchmark prices" error={error} className="mb-4" />}
+      {buildError && <DataError what="benchmark returns" error={buildError} className="mb-4" />}
+
+      {rows.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2"></th>
+                <th className="pb-2">Time-Weighted</th>
+                <th className="pb-2">Excess</th>
+                <th className="pb-2">Money-Weighted</th>
+                <th className="pb-2">Excess</th>
+                <th className="pb-2">Worth Today</th>
+                <th className="pb-2">Portfolio Ahead By</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-border/50 font-medium">
+                <td className="py-2">Portfolio</td>
+                <td className={`py-2 ${tone(portfolio.twr)}`}>{formatPercent(portfolio.twr)}</td>
+                <td className="py-2">—</td>
+                <td className={`py-2 ${tone(portfolio.mwr)}`}>{formatPercent(portfolio.mwr)}</td>
+                <td className="py-2">—</td>
+                <td className="py-2">{format(portfolioValue)}</td>
+                <td className="py-2">—</td>
+              </tr>
+              {rows.map(({ benchmark, performance, value }) => {
+                const excessTwr = excess(portfolio.twr, performance.twr);
+                const excessMwr = excess(portfolio.mwr, performance.mwr);
+                return (
+                  <tr key={benchmark.id} className="border-b border-border/50">
+                    <td className="py-2">{benchmark.name}</td>
+                    <td className={`py-2 ${tone(performance.twr)}`}>{formatPercent(performance.twr)}</td>
+                    <td className={`py-2 ${tone(excessTwr)}`}>{formatPercent(excessTwr)}</td>
+                    <td className={`py-2 ${tone(performance.mwr)}`}>{formatPercent(performance.mwr)}</td>
+                    <td className={`py-2 ${tone(excessMwr)}`}>{formatPercent(excessMwr)}</td>
+                    <td className="py-2">{format(value)}</td>
+                    <td className={`py-2 ${tone(portfolioValue - value)}`}>{format(portfolioValue - value)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+      <p className="text-xs text-muted-foreground mt-2">
+        Each benchmark gets the same deposits and withdrawals on the same days as the portfolio. Excess return is the
+        portfolio's return less the benchmark's.
+      </p>
+    </div>
+  );
+};
+
+export default BenchmarkPanel;
@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { PlusIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts, useCashMovements } from "@/hooks/use-portfolio";
+import { formatCurrency } from "@/lib/format";
+import {
+  addCashMovement,
+  cashMovementKindLabels,
+  removeCashMovement,
+  restoreCashMovement,
+  type CashBalance,
+  type CashMovement,
+  type CashMovementDraft,
+} from "@/lib/portfolio";
+import CashMovementForm from "./CashMovementForm";
+
+interface CashBalancesProps {
+  /** Balances of the account being viewed, or of every account. */
+  balances: CashBalance[];
+  /** Undefined for all accounts combined. */
+  accountId?: string;
+}
+
+// Balances per currency, and the deposits and withdrawals that fund them
+const CashBalances = ({ balances, accountId }: CashBalancesProps) => {
+  const accounts = useAccounts();
+  const cashMovements = useCashMovements();
+  const { format, convertAt } = useCurrency();
+  const { toast } = useToast();
+  const [isRecording, setIsRecording] = useState(false);
+
+  const tracking = accounts.filter((account) => account.tracksCash && (!accountId || account.id === accountId));
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name ?? 'Deleted account';
+  const showAccount = !accountId && tracking.length > 1;
+  const movements = cashMovements
+    .filter((movement) => tracking.some((account) => account.id === movement.accountId))
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt - a.createdAt);
+
+  const record = (draft: CashMovementDraft) => {
+    addCashMovement(draft);
+    setIsRecording(false);
+    toast({
+      title: "Cash Recorded",
+      description: `${cashMovementKindLabels[draft.kind]} of ${formatCurrency(draft.amount, draft.currency)} recorded.`,
+    });
+  };
+
+  const remove = (movement: CashMovement) => {
+    removeCashMovement(movement.id);
+    toast({
+      title: "Cash Movement Deleted",
+      description: `${cashMovementKindLabels[movement.kind]} of ${formatCurrency(movement.amount, movement.currency)} removed.`,
+      action: (
+        <ToastAction altText="Undo" onClick={() => restoreCashMovement(movement)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Cash</h3>
+        <Button variant="outline" onClick={() => setIsRecording(true)}>
+          <PlusIcon className="w-4 h-4 mr-2" />
+          Deposit or Withdraw
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {balances.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4 text-center">No cash yet; record a deposit to fund trades</p>
+        ) : (
+          <table className="w-full text-sm self-start">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                {showAccount && <th className="pb-2">Account</th>}
+                <th className="pb-2">Currency</th>
+                <th className="pb-2">Balance</th>
+                <th className="pb-2">Value</th>
+              </tr>
+            </thead>
+            <tbody>
+              {balances.map((balance) => (
+                <tr key={`${balance.accountId}/${balance.currency}`} className="border-b border-border/50">
+                  {showAccount && <td className="py-2">{accountName(balance.accountId)}</td>}
+                  <td className="py-2 font-medium">{balance.currency}</td>
+                  <td className={`py-2 ${balance.amount < 0 ? 'text-warning' : ''}`}>
+                    {formatCurrency(balance.amount, balance.currency)}
+                  </td>
+                  <td className="py-2">{format(convertAt(balance.amount, balance.currency, undefined))}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {movements.length > 0 && (
+          <table className="w-full text-sm self-start">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">Date</th>
+                {showAccount && <th className="pb-2">Account</th>}
+                <th className="pb-2">Type</th>
+                <th className="pb-2">Amount</th>
+                <th className="pb-2">Note</th>
+                <th className="pb-2" />
+              </tr>
+            </thead>
+            <tbody>
+              {movements.map((movement) => (
+                <tr key={movement.id} className="border-b border-border/50">
+                  <td className="py-2">{movement.date}</td>
+                  {showAccount && <td className="py-2">{accountName(movement.accountId)}</td>}
+                  <td className="py-2">{cashMovementKindLabels[movement.kind]}</td>
+                  <td className={`py-2 ${movement.kind === 'deposit' ? 'text-success' : 'text-warning'}`}>
+                    {movement.kind === 'deposit' ? '+' : '−'}{formatCurrency(movement.amount, movement.currency)}
+                  </td>
+                  <td className="py-2 text-muted-foreground">{movement.note}</td>
+                  <td className="py-2 text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => remove(movement)}
+                      className="text-warning hover:text-warning"
+                      aria-label="Delete cash movement"
+                    >
+                      <TrashIcon className="w-3 h-3" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <Dialog open={isRecording} onOpenChange={setIsRecording}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Deposit or Withdraw Cash</DialogTitle>
+          </DialogHeader>
+          {isRecording && (
+            <CashMovementForm
+              accounts={tracking}
+              accountId={accountId}
+              onSubmit={record}
+              onCancel={() => setIsRecording(false)}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CashBalances;
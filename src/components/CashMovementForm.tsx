@@ -0,0 +1,115 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { isCurrency } from "@/lib/currency";
+import { CURRENCIES, toDateKey, type Currency } from "@/lib/market";
+import { cashMovementKindLabels, type Account, type CashMovement, type CashMovementDraft } from "@/lib/portfolio";
+
+interface CashMovementFormProps {
+  /** Accounts that track cash; the first is picked unless `accountId` says otherwise. */
+  accounts: Account[];
+  accountId?: string;
+  onSubmit: (draft: CashMovementDraft) => void;
+  onCancel: () => void;
+}
+
+const CashMovementForm = ({ accounts, accountId: initialAccountId, onSubmit, onCancel }: CashMovementFormProps) => {
+  const { currency: baseCurrency } = useCurrency();
+  const [accountId, setAccountId] = useState(initialAccountId ?? accounts[0].id);
+  const [kind, setKind] = useState<CashMovement['kind']>('deposit');
+  const [amount, setAmount] = useState('');
+  const [currency, setCurrency] = useState<Currency>(baseCurrency);
+  const [date, setDate] = useState(toDateKey(Date.now()));
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+
+  const handleSubmit = () => {
+    const value = parseFloat(amount);
+    if (!(value > 0)) {
+      return setError('Enter an amount above zero.');
+    }
+    if (!date || date > toDateKey(Date.now())) {
+      return setError('Enter a date that is not in the future.');
+    }
+    onSubmit({ accountId, kind, amount: value, currency, date, note: note.trim() || undefined });
+  };
+
+  return (
+    <div className="space-y-4">
+      {accounts.length > 1 && (
+        <div>
+          <label className="text-sm font-medium">Account</label>
+          <Select value={accountId} onValueChange={setAccountId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium">Type</label>
+          <Select value={kind} onValueChange={(value) => setKind(value as CashMovement['kind'])}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(cashMovementKindLabels) as CashMovement['kind'][]).map((option) => (
+                <SelectItem key={option} value={option}>{cashMovementKindLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Date</label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} max={toDateKey(Date.now())} />
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Amount</label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            placeholder="Enter amount"
+            min="0"
+            step="any"
+          />
+          <Select value={currency} onValueChange={(value) => isCurrency(value) && setCurrency(value)}>
+            <SelectTrigger className="w-[100px]" aria-label="Currency">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">Note</label>
+        <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" />
+      </div>
+      {error && <p className="text-sm text-warning">{error}</p>}
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} className="flex-1">
+          Record
+        </Button>
+        <Button variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CashMovementForm;
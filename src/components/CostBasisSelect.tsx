@@ -0,0 +1,24 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { costBasisMethodLabels, updateAccount, type Account, type CostBasisMethod } from "@/lib/portfolio";
+
+interface CostBasisSelectProps {
+  account: Account;
+}
+
+const CostBasisSelect = ({ account }: CostBasisSelectProps) => (
+  <Select
+    value={account.costBasisMethod}
+    onValueChange={(value) => updateAccount(account.id, { costBasisMethod: value as CostBasisMethod })}
+  >
+    <SelectTrigger className="w-[220px]" aria-label={`Cost basis method for ${account.name}`}>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {(Object.keys(costBasisMethodLabels) as CostBasisMethod[]).map((method) => (
+        <SelectItem key={method} value={method}>{costBasisMethodLabels[method]}</SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+export default CostBasisSelect;
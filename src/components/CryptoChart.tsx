@@ -1,29 +1,95 @@
 import TradingViewWidget from 'react-tradingview-widget';
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
+import { useMarketDataMode, usePriceHistory } from "@/hooks/use-market-data";
+import { useCurrency, useHistoryInBaseCurrency } from "@/hooks/use-currency";
+import type { Currency } from "@/lib/market";
+import DataError from "./DataError";
+
+// BTC pairs quoted in each base currency
+const tradingViewSymbols: Record<Currency, string> = {
+  USD: 'BINANCE:BTCUSDT',
+  EUR: 'BITSTAMP:BTCEUR',
+  GBP: 'COINBASE:BTCGBP',
+  JPY: 'BITFLYER:BTCJPY',
+};
+
+// The TradingView widget needs its own network access, so offline mode draws
+// the fixture history instead.
+const OfflineChart = () => {
+  const { data: usdHistory, error, refetch } = usePriceHistory('crypto', 'bitcoin', '180d');
+  const history = useHistoryInBaseCurrency(usdHistory);
+  const { formatCompact, formatPrice } = useCurrency();
+
+  const priceData = history?.map(({ timestamp, price }) => ({
+    date: new Date(timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+    price: Math.round(price)
+  }));
+
+  if (error && !usdHistory) {
+    return <DataError what="Bitcoin price history" error={error} onRetry={() => refetch()} />;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height="100%">
+      <LineChart data={priceData}>
+        <XAxis dataKey="date" stroke="#E6E4DD" fontSize={12} minTickGap={32} />
+        <YAxis
+          stroke="#E6E4DD"
+          fontSize={12}
+          domain={['auto', 'auto']}
+          tickFormatter={(value) => formatCompact(value)}
+        />
+        <Tooltip
+          formatter={(value: number) => formatPrice(value)}
+          contentStyle={{
+            background: '#3A3935',
+            border: '1px solid #605F5B',
+            borderRadius: '8px'
+          }}
+          labelStyle={{ color: '#E6E4DD' }}
+          itemStyle={{ color: '#8989DE' }}
+        />
+        <Line type="monotone" dataKey="price" stroke="#8989DE" strokeWidth={2} dot={false} />
+      </LineChart>
+    </ResponsiveContainer>
+  );
+};
 
 const CryptoChart = () => {
+  const [mode] = useMarketDataMode();
+  const { currency } = useCurrency();
+
   return (
     <div className="glass-card p-6 rounded-lg mb-8 animate-fade-in">
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-xl font-semibold">Market Chart</h2>
+        {mode === 'fixture' && (
+          <span className="text-xs px-2 py-1 rounded bg-warning/20 text-warning">BTC/{currency} · fixture</span>
+        )}
       </div>
       <div className="h-[400px] w-full">
-        <TradingViewWidget
-          symbol="BINANCE:BTCUSDT"
-          theme="dark"
-          locale="en"
-          autosize
-          hide_side_toolbar={false}
-          allow_symbol_change={true}
-          interval="D"
-          toolbar_bg="#141413"
-          enable_publishing={false}
-          hide_top_toolbar={false}
-          save_image={false}
-          container_id="tradingview_chart"
-        />
+        {mode === 'fixture' ? (
+          <OfflineChart />
+        ) : (
+          <TradingViewWidget
+            key={currency}
+            symbol={tradingViewSymbols[currency]}
+            theme="dark"
+            locale="en"
+            autosize
+            hide_side_toolbar={false}
+            allow_symbol_change={true}
+            interval="D"
+            toolbar_bg="#141413"
+            enable_publishing={false}
+            hide_top_toolbar={false}
+            save_image={false}
+            container_id="tradingview_chart"
+          />
+        )}
       </div>
     </div>
   );
 };
 
-export default CryptoChart;
\ No newline at end of file
+export default CryptoChart;
@@ -1,28 +1,52 @@
 import { ArrowUpIcon, ArrowDownIcon } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
-
-const fetchCryptoData = async () => {
-  const response = await fetch('https://api.coingecko.com/api/v3/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=5&page=1&sparkline=false');
-  if (!response.ok) {
-    throw new Error('Network response was not ok');
-  }
-  return response.json();
-};
+import { quoteKey, useQuotes, useStreamingQuotes, useTopAssets } from "@/hooks/use-market-data";
+import { useNow } from "@/hooks/use-now";
+import { useCurrency } from "@/hooks/use-currency";
+import { getPriceStatus, sourceLabels } from "@/lib/market";
+import FlashingPrice from "./FlashingPrice";
+import StreamStatusBadge from "./StreamStatusBadge";
+import LastUpdated from "./LastUpdated";
+import PriceStatusBadge from "./PriceStatusBadge";
+import DataError from "./DataError";
 
 const CryptoList = () => {
-  const { data: cryptos, isLoading } = useQuery({
-    queryKey: ['cryptos'],
-    queryFn: fetchCryptoData,
-    refetchInterval: 30000, // Refetch every 30 seconds
-  });
+  const { data: topCryptos = [], isLoading, error, refetch } = useTopAssets('crypto', 5);
+
+  // The ranking comes from the top list; prices come from the per-asset
+  // quotes it seeds, which the ticker stream keeps current.
+  const assets = topCryptos.map(({ type, id, symbol }) => ({ type, id, symbol }));
+  const { quotes } = useQuotes(assets);
+  const streamStatus = useStreamingQuotes(assets);
+  const cryptos = topCryptos.map((crypto) => quotes.get(quoteKey(crypto)) ?? crypto);
+  const now = useNow(5000);
+  const { fromUsd, formatCompact } = useCurrency();
+  const latest = cryptos.reduce<(typeof cryptos)[number] | undefined>(
+    (newest, crypto) => (newest && newest.updatedAt > crypto.updatedAt ? newest : crypto),
+    undefined
+  );
 
   if (isLoading) {
     return <div className="glass-card rounded-lg p-6 animate-pulse">Loading...</div>;
   }
 
+  if (error && topCryptos.length === 0) {
+    return (
+      <div className="glass-card rounded-lg p-6">
+        <h2 className="text-xl font-semibold mb-4">Top Cryptocurrencies</h2>
+        <DataError what="top cryptocurrencies" error={error} onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
   return (
     <div className="glass-card rounded-lg p-6 animate-fade-in">
-      <h2 className="text-xl font-semibold mb-6">Top Cryptocurrencies</h2>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Top Cryptocurrencies</h2>
+          <LastUpdated timestamp={latest?.updatedAt} source={latest && sourceLabels[latest.source]} />
+        </div>
+        <StreamStatusBadge status={streamStatus} />
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
@@ -34,33 +58,42 @@ const CryptoList = () => {
             </tr>
           </thead>
           <tbody>
-            {cryptos?.map((crypto) => (
-              <tr key={crypto.symbol} className="border-t border-secondary">
+            {cryptos.map((crypto) => (
+              <tr key={crypto.id} className="border-t border-secondary">
                 <td className="py-4">
                   <div className="flex items-center gap-2">
-                    <img src={crypto.image} alt={crypto.name} className="w-8 h-8 rounded-full" />
+                    {crypto.image ? (
+                      <img src={crypto.image} alt={crypto.name} className="w-8 h-8 rounded-full" />
+                    ) : (
+                      <div className="w-8 h-8 rounded-full bg-secondary flex items-center justify-center text-xs font-medium">
+                        {crypto.symbol.slice(0, 3)}
+                      </div>
+                    )}
                     <div>
                       <p className="font-medium">{crypto.name}</p>
-                      <p className="text-sm text-muted-foreground">{crypto.symbol.toUpperCase()}</p>
+                      <p className="text-sm text-muted-foreground">{crypto.symbol}</p>
                     </div>
                   </div>
                 </td>
-                <td className="py-4">${crypto.current_price.toLocaleString()}</td>
+                <td className="py-4">
+                  <FlashingPrice price={fromUsd(crypto.price)} />
+                  <PriceStatusBadge status={getPriceStatus(crypto, now)} />
+                </td>
                 <td className="py-4">
                   <span
                     className={`flex items-center gap-1 ${
-                      crypto.price_change_percentage_24h >= 0 ? "text-success" : "text-warning"
+                      crypto.changePercent >= 0 ? "text-success" : "text-warning"
                     }`}
                   >
-                    {crypto.price_change_percentage_24h >= 0 ? (
+                    {crypto.changePercent >= 0 ? (
                       <ArrowUpIcon className="w-3 h-3" />
                     ) : (
                       <ArrowDownIcon className="w-3 h-3" />
                     )}
-                    {Math.abs(crypto.price_change_percentage_24h).toFixed(2)}%
+                    {Math.abs(crypto.changePercent).toFixed(2)}%
                   </span>
                 </td>
-                <td className="py-4">${(crypto.total_volume / 1e9).toFixed(1)}B</td>
+                <td className="py-4">{formatCompact(fromUsd(crypto.volume))}</td>
               </tr>
             ))}
           </tbody>
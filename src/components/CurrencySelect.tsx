@@ -0,0 +1,26 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useBaseCurrency } from "@/hooks/use-currency";
+import { isCurrency } from "@/lib/currency";
+import { currencySymbol } from "@/lib/format";
+import { CURRENCIES } from "@/lib/market";
+
+const CurrencySelect = () => {
+  const [currency, setCurrency] = useBaseCurrency();
+
+  return (
+    <Select value={currency} onValueChange={(value) => isCurrency(value) && setCurrency(value)}>
+      <SelectTrigger className="w-[110px]" aria-label="Base currency">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {CURRENCIES.map((code) => (
+          <SelectItem key={code} value={code}>
+            {currencySymbol(code)} {code}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CurrencySelect;
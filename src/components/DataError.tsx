@@ -0,0 +1,37 @@
+import { AlertTriangleIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ProviderResponseError } from "@/lib/market";
+import { cn } from "@/lib/utils";
+
+interface DataErrorProps {
+  /** What failed to load, e.g. "top cryptocurrencies". */
+  what: string;
+  error: unknown;
+  onRetry?: () => void;
+  className?: string;
+}
+
+// Explains why a widget has no data; schema mismatches name the offending field
+const DataError = ({ what, error, onRetry, className }: DataErrorProps) => (
+  <div className={cn("flex items-start gap-3 rounded-md bg-warning/10 p-4 text-sm", className)} role="alert">
+    <AlertTriangleIcon className="w-4 h-4 mt-0.5 shrink-0 text-warning" />
+    <div className="flex-1 space-y-1">
+      <p className="font-medium text-warning">Couldn't load {what}</p>
+      {error instanceof ProviderResponseError ? (
+        <p className="text-muted-foreground">
+          {error.provider} changed the shape of <code>{error.endpoint}</code>: field{' '}
+          <code className="text-foreground">{error.field}</code> {error.detail}
+        </p>
+      ) : (
+        <p className="text-muted-foreground">{error instanceof Error ? error.message : String(error)}</p>
+      )}
+    </div>
+    {onRetry && (
+      <Button variant="ghost" size="sm" className="h-7 px-2" onClick={onRetry}>
+        Retry
+      </Button>
+    )}
+  </div>
+);
+
+export default DataError;
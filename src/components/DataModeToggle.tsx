@@ -0,0 +1,18 @@
+import { Switch } from "@/components/ui/switch";
+import { useMarketDataMode } from "@/hooks/use-market-data";
+
+const DataModeToggle = () => {
+  const [mode, setMode] = useMarketDataMode();
+
+  return (
+    <label className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Switch
+        checked={mode === 'fixture'}
+        onCheckedChange={(checked) => setMode(checked ? 'fixture' : 'live')}
+      />
+      Offline data
+    </label>
+  );
+};
+
+export default DataModeToggle;
@@ -0,0 +1,110 @@
+import { useState } from "react";
+import { DownloadIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts } from "@/hooks/use-portfolio";
+import { downloadFile } from "@/lib/download";
+import { toDateKey } from "@/lib/market";
+import {
+  createBackup,
+  holdingRecords,
+  performanceRecords,
+  serializeRecords,
+  transactionRecords,
+  type ExportFormat,
+  type MethodForAccount,
+  type Position,
+  type ToBaseCurrency,
+  type Transaction,
+} from "@/lib/portfolio";
+import RestoreBackupDialog from "./RestoreBackupDialog";
+
+type Dataset = 'holdings' | 'transactions' | 'performance';
+
+const datasetLabels: Record<Dataset, string> = {
+  holdings: 'Holdings',
+  transactions: 'Transactions',
+  performance: 'Performance history',
+};
+
+const mimeTypes: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+interface ExportMenuProps {
+  /** Positions of the account being viewed, or of all accounts. */
+  positions: Position[];
+  /** The whole ledger; narrowed to `accountId` when there is one. */
+  transactions: Transaction[];
+  accountId?: string;
+  /** Current price per unit in the base currency, when there is a reliable one. */
+  priceOf: (position: Position) => number | undefined;
+  toBase: ToBaseCurrency;
+  methodFor: MethodForAccount;
+}
+
+const slug = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// Downloads for the account being viewed, plus the full backup and its restore
+const ExportMenu = ({ positions, transactions, accountId, priceOf, toBase, methodFor }: ExportMenuProps) => {
+  const { currency } = useCurrency();
+  const accounts = useAccounts();
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const account = accounts.find((candidate) => candidate.id === accountId);
+  const scope = account ? slug(account.name) || 'account' : 'portfolio';
+  const today = toDateKey(Date.now());
+
+  const exportDataset = (dataset: Dataset, format: ExportFormat) => {
+    const inView = accountId
+      ? transactions.filter((transaction) => transaction.accountId === accountId || transaction.toAccountId === accountId)
+      : transactions;
+    const records = {
+      holdings: () => holdingRecords(positions, accounts, currency, priceOf),
+      transactions: () => transactionRecords(inView, accounts),
+      performance: () => performanceRecords(inView, toBase, methodFor, currency, accountId),
+    }[dataset]();
+    downloadFile(`${scope}-${dataset}-${today}.${format}`, serializeRecords(records, format), mimeTypes[format]);
+  };
+
+  const exportBackup = () => {
+    downloadFile(`portfolio-backup-${today}.json`, JSON.stringify(createBackup(), null, 2), mimeTypes.json);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline">
+            <DownloadIcon className="w-4 h-4 mr-2" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {(Object.keys(datasetLabels) as Dataset[]).map((dataset) => (
+            <div key={dataset}>
+              <DropdownMenuLabel>{datasetLabels[dataset]}</DropdownMenuLabel>
+              <DropdownMenuItem onSelect={() => exportDataset(dataset, 'csv')}>CSV (Excel, Sheets)</DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => exportDataset(dataset, 'json')}>JSON</DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </div>
+          ))}
+          <DropdownMenuItem onSelect={exportBackup}>Full backup (JSON)</DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => setIsRestoring(true)}>Restore from backup…</DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <RestoreBackupDialog open={isRestoring} onOpenChange={setIsRestoring} />
+    </>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,31 @@
+import { usePriceFlash } from "@/hooks/use-price-flash";
+import { useCurrency } from "@/hooks/use-currency";
+import { cn } from "@/lib/utils";
+
+interface FlashingPriceProps {
+  /** Price already converted to the base currency. */
+  price: number;
+  className?: string;
+}
+
+const FlashingPrice = ({ price, className }: FlashingPriceProps) => {
+  const flash = usePriceFlash(price);
+  const { formatPrice } = useCurrency();
+
+  return (
+    <span
+      // Remount on every change so back-to-back ticks restart the animation
+      key={price}
+      className={cn(
+        "rounded px-1 -mx-1",
+        flash === 'up' && "animate-flash-up",
+        flash === 'down' && "animate-flash-down",
+        className
+      )}
+    >
+      {formatPrice(price)}
+    </span>
+  );
+};
+
+export default FlashingPrice;
@@ -0,0 +1,390 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts, useSelectedAccount, useTransactions } from "@/hooks/use-portfolio";
+import { isCurrency } from "@/lib/currency";
+import { formatCurrency } from "@/lib/format";
+import { CURRENCIES, type Currency, type SearchResult } from "@/lib/market";
+import {
+  ALL_ACCOUNTS,
+  addTransactions,
+  defaultMapping,
+  findDuplicates,
+  importAssetKey,
+  importFieldLabels,
+  importFormats,
+  mapImportRows,
+  readImportFile,
+  requiredImportFields,
+  resolveImportAssets,
+  toTransactionDraft,
+  transactionKindLabels,
+  type ColumnMapping,
+  type ImportField,
+  type ImportFormatId,
+  type ImportRow,
+  type ImportTable,
+  type Transaction,
+} from "@/lib/portfolio";
+
+type Step = 'upload' | 'map' | 'review';
+
+// Select items can't have an empty value
+const NOT_MAPPED = '-';
+const PREVIEW_ROWS = 5;
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RowValues = ({ row }: { row: ImportRow }) =>
+  row.error ? (
+    <td className="py-1 text-warning" colSpan={5}>{row.error}</td>
+  ) : (
+    <>
+      <td className="py-1">{row.date}</td>
+      <td className="py-1">{transactionKindLabels[row.kind]}</td>
+      <td className="py-1">{row.symbol}</td>
+      <td className="py-1">{row.quantity.toLocaleString()}</td>
+      <td className="py-1">
+        {row.price !== undefined ? formatCurrency(row.price, row.currency, { maximumFractionDigits: 6 }) : '—'}
+      </td>
+    </>
+  );
+
+// Rows that made it through mapping, with the asset each resolved to
+const toCandidates = (
+  rows: ImportRow[],
+  assets: Map<string, SearchResult | undefined>,
+  accountId: string,
+  existing: Transaction[]
+) => {
+  const ready = rows.flatMap((row, index) => {
+    if (row.error) return [];
+    const asset = assets.get(importAssetKey(row));
+    // A ticker search didn't find can still be added if its asset type is known
+    return asset || row.assetType ? [{ index, row, asset, draft: toTransactionDraft(row, asset, accountId) }] : [];
+  });
+  const duplicates = findDuplicates(ready.map(({ draft }) => draft), existing);
+  return ready.map((candidate, i) => ({ ...candidate, duplicate: duplicates[i] }));
+};
+
+/**
+ * Import trades from an exchange or broker CSV: pick the file, check how its
+ * columns map to transaction fields, then review each row before it is added.
+ */
+const ImportDialog = ({ open, onOpenChange }: ImportDialogProps) => {
+  const { toast } = useToast();
+  const { currency: baseCurrency } = useCurrency();
+  const accounts = useAccounts();
+  const transactions = useTransactions();
+  const [selectedAccountId] = useSelectedAccount();
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [table, setTable] = useState<ImportTable | null>(null);
+  const [format, setFormat] = useState<ImportFormatId>('generic');
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [currency, setCurrency] = useState<Currency>(baseCurrency);
+  const [accountId, setAccountId] = useState(selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : accounts[0].id);
+  const [assets, setAssets] = useState<Map<string, SearchResult | undefined>>(new Map());
+  const [progress, setProgress] = useState<string | null>(null);
+  const [included, setIncluded] = useState<Set<number>>(new Set());
+  const [error, setError] = useState('');
+
+  const rows = useMemo(
+    () => (table ? mapImportRows(table, format, mapping, currency) : []),
+    [table, format, mapping, currency]
+  );
+
+  const candidates = useMemo(
+    () => toCandidates(rows, assets, accountId, transactions),
+    [rows, assets, accountId, transactions]
+  );
+
+  const reset = () => {
+    setStep('upload');
+    setFileName('');
+    setTable(null);
+    setAssets(new Map());
+    setIncluded(new Set());
+    setError('');
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const read = readImportFile(await file.text());
+    if (read.rows.length === 0) {
+      return setError(`${file.name} has no rows to import.`);
+    }
+    setError('');
+    setFileName(file.name);
+    setTable(read);
+    setFormat(read.format);
+    setMapping(defaultMapping(read.format, read.headers));
+  };
+
+  const changeFormat = (next: ImportFormatId) => {
+    setFormat(next);
+    setMapping(defaultMapping(next, table.headers));
+  };
+
+  const continueToReview = async () => {
+    const missing = requiredImportFields.filter((field) => !mapping[field]);
+    if (missing.length > 0) {
+      return setError(`Choose a column for ${missing.map((field) => importFieldLabels[field]).join(', ')}.`);
+    }
+    setError('');
+    setProgress('Looking up symbols…');
+    const resolved = await resolveImportAssets(rows, (done, total) => setProgress(`Looking up symbols… ${done}/${total}`));
+    setProgress(null);
+    setAssets(resolved);
+
+    // Everything importable is ticked, except likely duplicates
+    const ready = toCandidates(rows, resolved, accountId, transactions);
+    setIncluded(new Set(ready.filter(({ duplicate }) => !duplicate).map(({ index }) => index)));
+    setStep('review');
+  };
+
+  const handleImport = () => {
+    const drafts = candidates.filter(({ index }) => included.has(index)).map(({ draft }) => draft);
+    addTransactions(drafts);
+    toast({
+      title: "Import Complete",
+      description: `${drafts.length} ${drafts.length === 1 ? 'transaction was' : 'transactions were'} added from ${fileName}.`,
+    });
+    handleOpenChange(false);
+  };
+
+  const toggleRow = (index: number, checked: boolean) => {
+    const next = new Set(included);
+    if (checked) next.add(index);
+    else next.delete(index);
+    setIncluded(next);
+  };
+
+  const candidateFor = new Map(candidates.map((candidate) => [candidate.index, candidate]));
+  const duplicateCount = candidates.filter(({ duplicate }) => duplicate).length;
+  const skippedCount = rows.length - candidates.length;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Transactions</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Trade history exported from Coinbase, Binance, Kraken or your broker, as CSV.'}
+            {step === 'map' && `Check which column of ${fileName} each field comes from.`}
+            {step === 'review' && 'Choose the rows to add. Likely duplicates are left out.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">CSV file</label>
+              <Input type="file" accept=".csv,text/csv" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </div>
+            {table && (
+              <>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  <div>
+                    <label className="text-sm font-medium">Format</label>
+                    <Select value={format} onValueChange={(value) => changeFormat(value as ImportFormatId)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(importFormats) as ImportFormatId[]).map((id) => (
+                          <SelectItem key={id} value={id}>{importFormats[id].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Into account</label>
+                    <Select value={accountId} onValueChange={setAccountId}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium">Currency when not given</label>
+                    <Select value={currency} onValueChange={(value) => isCurrency(value) && setCurrency(value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CURRENCIES.map((code) => (
+                          <SelectItem key={code} value={code}>{code}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {table.rows.length} rows found{format !== 'generic' && `, recognized as a ${importFormats[format].label} export`}.
+                </p>
+              </>
+            )}
+            {error && <p className="text-sm text-warning">{error}</p>}
+            <div className="flex gap-2">
+              <Button onClick={() => setStep('map')} disabled={!table} className="flex-1">Next</Button>
+              <Button variant="outline" onClick={() => handleOpenChange(false)} className="flex-1">Cancel</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'map' && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+              {(Object.keys(importFieldLabels) as ImportField[]).map((field) => (
+                <div key={field}>
+                  <label className="text-sm font-medium">
+                    {importFieldLabels[field]}
+                    {requiredImportFields.includes(field) && ' *'}
+                  </label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? undefined : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not in file</SelectItem>
+                      {table.headers.filter(Boolean).map((header) => (
+                        <SelectItem key={header} value={header}>{header}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div>
+              <h3 className="text-sm font-medium mb-2">Preview</h3>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="pb-1">Row</th>
+                    <th className="pb-1">Date</th>
+                    <th className="pb-1">Type</th>
+                    <th className="pb-1">Symbol</th>
+                    <th className="pb-1">Quantity</th>
+                    <th className="pb-1">Price</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, PREVIEW_ROWS).map((row) => (
+                    <tr key={row.line} className="border-t border-border/30">
+                      <td className="py-1 text-muted-foreground">{row.line}</td>
+                      <RowValues row={row} />
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {error && <p className="text-sm text-warning">{error}</p>}
+            <div className="flex gap-2">
+              <Button onClick={continueToReview} disabled={progress !== null} className="flex-1">
+                {progress ?? 'Next'}
+              </Button>
+              <Button variant="outline" onClick={() => setStep('upload')} className="flex-1">Back</Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {candidates.length} of {rows.length} rows can be imported
+              {duplicateCount > 0 && `, ${duplicateCount} of them likely duplicates`}
+              {skippedCount > 0 && `; ${skippedCount} can't be imported`}.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-muted-foreground">
+                    <th className="pb-1" />
+                    <th className="pb-1">Row</th>
+                    <th className="pb-1">Date</th>
+                    <th className="pb-1">Type</th>
+                    <th className="pb-1">Asset</th>
+                    <th className="pb-1">Quantity</th>
+                    <th className="pb-1">Price</th>
+                    <th className="pb-1">Fee</th>
+                    <th className="pb-1">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row, index) => {
+                    const candidate = candidateFor.get(index);
+                    const status = row.error
+                      ?? (!candidate ? `Couldn't find ${row.symbol}` : candidate.duplicate ? 'Likely duplicate' : candidate.asset ? 'Ready' : 'Ready, but not found by search');
+                    return (
+                      <tr key={row.line} className={`border-t border-border/30 ${candidate ? '' : 'text-muted-foreground'}`}>
+                        <td className="py-1">
+                          <Checkbox
+                            checked={included.has(index)}
+                            onCheckedChange={(checked) => toggleRow(index, checked === true)}
+                            disabled={!candidate}
+                            aria-label={`Import row ${row.line}`}
+                          />
+                        </td>
+                        <td className="py-1">{row.line}</td>
+                        <td className="py-1">{row.date ?? '—'}</td>
+                        <td className="py-1">{row.kind ? transactionKindLabels[row.kind] : '—'}</td>
+                        <td className="py-1">
+                          {candidate?.asset ? `${candidate.asset.symbol.toUpperCase()} · ${candidate.asset.name}` : row.symbol ?? '—'}
+                        </td>
+                        <td className="py-1">{row.quantity?.toLocaleString() ?? '—'}</td>
+                        <td className="py-1">
+                          {row.price !== undefined && !row.error
+                            ? formatCurrency(row.price, row.currency, { maximumFractionDigits: 6 })
+                            : '—'}
+                        </td>
+                        <td className="py-1">
+                          {!row.fee || row.error ? '—'
+                            : row.fee.paidIn === 'asset' ? `${row.fee.amount.toLocaleString()} ${row.symbol}`
+                            : formatCurrency(row.fee.amount, row.currency, { maximumFractionDigits: 6 })}
+                        </td>
+                        <td className={`py-1 ${candidate && !candidate.duplicate ? '' : 'text-warning'}`}>{status}</td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex gap-2">
+              <Button onClick={handleImport} disabled={included.size === 0} className="flex-1">
+                Import {included.size} {included.size === 1 ? 'transaction' : 'transactions'}
+              </Button>
+              <Button variant="outline" onClick={() => setStep('map')} className="flex-1">Back</Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportDialog;
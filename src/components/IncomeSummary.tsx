@@ -0,0 +1,102 @@
+import { useState } from "react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { toDateKey } from "@/lib/market";
+import { incomeByPeriod, trailingIncome, yieldOnCost, type IncomePeriod, type Position } from "@/lib/portfolio";
+
+interface IncomeSummaryProps {
+  /** Positions of the account being viewed, or of all accounts combined. */
+  positions: Position[];
+}
+
+const periodLabels: Record<IncomePeriod, string> = {
+  month: 'By month',
+  year: 'By year',
+};
+
+const IncomeSummary = ({ positions }: IncomeSummaryProps) => {
+  const { format } = useCurrency();
+  const [period, setPeriod] = useState<IncomePeriod>('month');
+
+  const periods = incomeByPeriod(positions.flatMap((position) => position.incomes), period);
+  const today = toDateKey(Date.now());
+  const earners = positions
+    .filter((position) => position.incomes.length > 0)
+    .sort((a, b) => b.income - a.income);
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Income</h3>
+        <Select value={period} onValueChange={(value) => setPeriod(value as IncomePeriod)}>
+          <SelectTrigger className="w-[140px]" aria-label="Group income">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {(Object.keys(periodLabels) as IncomePeriod[]).map((option) => (
+              <SelectItem key={option} value={option}>{periodLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">{period === 'month' ? 'Month' : 'Year'}</th>
+                <th className="pb-2">Dividends</th>
+                <th className="pb-2">Staking</th>
+                <th className="pb-2">Interest</th>
+                <th className="pb-2">Total</th>
+              </tr>
+            </thead>
+            <tbody>
+              {periods.map(({ period: label, byKind, total }) => (
+                <tr key={label} className="border-b border-border/50">
+                  <td className="py-2">{label}</td>
+                  <td className="py-2">{byKind.dividend ? format(byKind.dividend) : '—'}</td>
+                  <td className="py-2">{byKind.staking ? format(byKind.staking) : '—'}</td>
+                  <td className="py-2">{byKind.interest ? format(byKind.interest) : '—'}</td>
+                  <td className="py-2 font-medium">{format(total)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">Asset</th>
+                <th className="pb-2">Received</th>
+                <th className="pb-2">Last 12 Months</th>
+                <th className="pb-2">Yield on Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {earners.map((position) => {
+                const yieldRate = yieldOnCost(position, today);
+                return (
+                  <tr key={position.key} className="border-b border-border/50">
+                    <td className="py-2 font-medium">{position.symbol}</td>
+                    <td className="py-2">{format(position.income)}</td>
+                    <td className="py-2">{format(trailingIncome(position, today))}</td>
+                    <td className="py-2">{yieldRate !== undefined ? `${(yieldRate * 100).toFixed(2)}%` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <p className="text-xs text-muted-foreground mt-2">
+            Yield on cost is the last 12 months of income over what the units still held cost.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default IncomeSummary;
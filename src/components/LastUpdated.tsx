@@ -0,0 +1,34 @@
+import { formatDistanceStrict } from "date-fns";
+import { AlertTriangleIcon } from "lucide-react";
+import { useNow } from "@/hooks/use-now";
+import { STALE_AFTER } from "@/lib/market";
+import { cn } from "@/lib/utils";
+
+interface LastUpdatedProps {
+  timestamp?: number;
+  source?: string;
+  className?: string;
+}
+
+const LastUpdated = ({ timestamp, source, className }: LastUpdatedProps) => {
+  const now = useNow(5000);
+
+  if (!timestamp) {
+    return <span className={cn("text-xs text-warning", className)}>Never updated</span>;
+  }
+
+  const isStale = now - timestamp > STALE_AFTER;
+  const age = formatDistanceStrict(Math.min(timestamp, now), now);
+
+  return (
+    <span
+      className={cn("text-xs flex items-center gap-1", isStale ? "text-warning" : "text-muted-foreground", className)}
+      title={new Date(timestamp).toLocaleString()}
+    >
+      {isStale && <AlertTriangleIcon className="w-3 h-3" />}
+      Updated {age} ago{source && ` · ${source}`}
+    </span>
+  );
+};
+
+export default LastUpdated;
@@ -0,0 +1,53 @@
+import { useCurrency } from "@/hooks/use-currency";
+import type { Lot } from "@/lib/portfolio";
+
+interface LotBreakdownProps {
+  /** Open lots, oldest first. */
+  lots: Lot[];
+  /** Current price per unit in the base currency, if there is a reliable one. */
+  price?: number;
+}
+
+const LotBreakdown = ({ lots, price }: LotBreakdownProps) => {
+  const { format } = useCurrency();
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="pb-2">Acquired</th>
+          <th className="pb-2">Quantity</th>
+          <th className="pb-2">Unit Cost</th>
+          <th className="pb-2">Cost Basis</th>
+          <th className="pb-2">Value</th>
+          <th className="pb-2">Gain/Loss</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lots.map((lot) => {
+          const value = price !== undefined ? price * lot.quantity : undefined;
+          const gainLoss = value !== undefined ? value - lot.costBasis : undefined;
+          return (
+            <tr key={lot.id} className="border-t border-border/30">
+              <td className="py-2">{lot.date}</td>
+              <td className="py-2">
+                {lot.quantity.toLocaleString()}
+                {lot.quantity < lot.acquired && (
+                  <span className="text-muted-foreground"> of {lot.acquired.toLocaleString()}</span>
+                )}
+              </td>
+              <td className="py-2">{format(lot.costBasis / lot.quantity)}</td>
+              <td className="py-2">{format(lot.costBasis)}</td>
+              <td className="py-2">{value !== undefined ? format(value) : '—'}</td>
+              <td className={`py-2 ${gainLoss === undefined ? 'text-muted-foreground' : gainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
+                {gainLoss !== undefined ? format(gainLoss) : '—'}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default LotBreakdown;
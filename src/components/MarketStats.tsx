@@ -1,45 +1,140 @@
-import { ArrowUpIcon, ArrowDownIcon, TrendingUpIcon } from "lucide-react";
+import { formatDistanceStrict } from "date-fns";
+import { ArrowUpIcon, ArrowDownIcon, SlidersHorizontalIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useGlobalStats, useGlobalStatsHistory } from "@/hooks/use-market-data";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useCurrency } from "@/hooks/use-currency";
+import {
+  DEFAULT_GLOBAL_METRICS,
+  getMetricChange,
+  globalMetrics,
+  type GlobalMarketStats,
+  type GlobalMetric,
+} from "@/lib/market";
+import LastUpdated from "./LastUpdated";
+import Sparkline from "./Sparkline";
+import DataError from "./DataError";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const gridColumns: Record<number, string> = {
+  1: 'md:grid-cols-1',
+  2: 'md:grid-cols-2',
+  3: 'md:grid-cols-3',
+  4: 'md:grid-cols-4',
+  5: 'md:grid-cols-5',
+};
+
+interface StatTileProps {
+  metric: GlobalMetric;
+  stats: GlobalMarketStats;
+  history: GlobalMarketStats[];
+}
+
+const StatTile = ({ metric, stats, history }: StatTileProps) => {
+  const { label, isMoney, value, format } = globalMetrics[metric];
+  const { currency, fromUsd } = useCurrency();
+  const change = getMetricChange(metric, stats, history);
+  const isUp = (change?.percent ?? 0) >= 0;
+  const trend = [...history.filter((sample) => sample.updatedAt < stats.updatedAt), stats].map(value);
+  // Recorded history may not reach back a full day yet
+  const changeWindow = change && stats.updatedAt - change.since < DAY - 60 * 60 * 1000
+    ? ` vs ${formatDistanceStrict(change.since, stats.updatedAt)} ago`
+    : ' 24h';
 
-const MarketStats = () => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8 animate-fade-in">
-      <div className="glass-card p-6 rounded-lg">
-        <div className="flex items-center justify-between">
-          <h3 className="text-sm font-medium text-muted-foreground">Market Cap</h3>
-          <TrendingUpIcon className="w-4 h-4 text-success" />
-        </div>
-        <p className="text-2xl font-semibold mt-2">$2.1T</p>
-        <span className="text-sm text-success flex items-center gap-1">
-          <ArrowUpIcon className="w-3 h-3" />
-          2.4%
+    <div className="glass-card p-6 rounded-lg">
+      <h3 className="text-sm font-medium text-muted-foreground">{label}</h3>
+      <p className="text-2xl font-semibold mt-2">{format(isMoney ? fromUsd(value(stats)) : value(stats), currency)}</p>
+      {change ? (
+        <span className={`text-sm flex items-center gap-1 ${isUp ? "text-success" : "text-warning"}`}>
+          {isUp ? <ArrowUpIcon className="w-3 h-3" /> : <ArrowDownIcon className="w-3 h-3" />}
+          {Math.abs(change.percent).toFixed(2)}%
+          <span className="text-muted-foreground">{changeWindow}</span>
         </span>
+      ) : (
+        <span className="text-sm text-muted-foreground">Collecting history…</span>
+      )}
+      <div className="mt-3">
+        <Sparkline values={trend} color={isUp ? "#7EBF8E" : "#D2886F"} />
       </div>
-      
-      <div className="glass-card p-6 rounded-lg">
-        <div className="flex items-center justify-between">
-          <h3 className="text-sm font-medium text-muted-foreground">24h Volume</h3>
-          <TrendingUpIcon className="w-4 h-4 text-success" />
-        </div>
-        <p className="text-2xl font-semibold mt-2">$84.2B</p>
-        <span className="text-sm text-success flex items-center gap-1">
-          <ArrowUpIcon className="w-3 h-3" />
-          5.1%
-        </span>
+    </div>
+  );
+};
+
+const MarketStats = () => {
+  const { data: stats, isLoading, error, refetch } = useGlobalStats();
+  const { data: history = [] } = useGlobalStatsHistory();
+  const [metrics, setMetrics] = useLocalStorage<GlobalMetric[]>('marketStatsTiles', DEFAULT_GLOBAL_METRICS);
+
+  const toggleMetric = (metric: GlobalMetric, checked: boolean) => {
+    const next = (Object.keys(globalMetrics) as GlobalMetric[]).filter((key) =>
+      key === metric ? checked : metrics.includes(key)
+    );
+    if (next.length > 0) setMetrics(next);
+  };
+
+  const columns = gridColumns[Math.min(metrics.length, 5)];
+
+  if (error && !stats) {
+    return (
+      <div className="glass-card p-6 rounded-lg mb-8">
+        <DataError what="global market stats" error={error} onRetry={() => refetch()} />
       </div>
-      
-      <div className="glass-card p-6 rounded-lg">
-        <div className="flex items-center justify-between">
-          <h3 className="text-sm font-medium text-muted-foreground">BTC Dominance</h3>
-          <TrendingUpIcon className="w-4 h-4 text-warning" />
-        </div>
-        <p className="text-2xl font-semibold mt-2">42.1%</p>
-        <span className="text-sm text-warning flex items-center gap-1">
-          <ArrowDownIcon className="w-3 h-3" />
-          0.8%
-        </span>
+    );
+  }
+
+  if (isLoading || !stats) {
+    return (
+      <div className={`grid grid-cols-1 ${columns} gap-6 mb-8`}>
+        {metrics.map((metric) => (
+          <div key={metric} className="glass-card p-6 rounded-lg h-[152px] animate-pulse" />
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8 animate-fade-in">
+      <div className={`grid grid-cols-1 ${columns} gap-6`}>
+        {metrics.map((metric) => (
+          <StatTile key={metric} metric={metric} stats={stats} history={history} />
+        ))}
+      </div>
+      <div className="flex items-center justify-end gap-2 mt-2">
+        <LastUpdated timestamp={stats.updatedAt} />
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-muted-foreground">
+              <SlidersHorizontalIcon className="w-3 h-3 mr-1" />
+              Tiles
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Market stats</DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            {(Object.keys(globalMetrics) as GlobalMetric[]).map((metric) => (
+              <DropdownMenuCheckboxItem
+                key={metric}
+                checked={metrics.includes(metric)}
+                onCheckedChange={(checked) => toggleMetric(metric, checked)}
+              >
+                {globalMetrics[metric].label}
+              </DropdownMenuCheckboxItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
       </div>
     </div>
   );
 };
 
-export default MarketStats;
\ No newline at end of file
+export default MarketStats;
@@ -0,0 +1,94 @@
+import { useMemo } from "react";
+import type { PortfolioHistory } from "@/hooks/use-portfolio-history";
+import { formatPercent } from "@/lib/format";
+import {
+  measurePerformance,
+  returnPeriodLabels,
+  type Performance,
+  type Position,
+  type ReturnPeriod,
+} from "@/lib/portfolio";
+
+interface PerformancePanelProps {
+  history: PortfolioHistory;
+  /** Positions of the account being viewed, or of all accounts combined. */
+  positions: Position[];
+}
+
+const periods = Object.keys(returnPeriodLabels) as ReturnPeriod[];
+
+const tone = (value: number | undefined) =>
+  value === undefined ? 'text-muted-foreground' : value >= 0 ? 'text-success' : 'text-warning';
+
+const PerformanceCells = ({ performance }: { performance: Performance | undefined }) => {
+  const values = [
+    performance?.twr,
+    performance?.mwr,
+    performance?.annualizedTwr,
+    performance?.annualizedMwr,
+    ...periods.map((period) => performance?.periods[period]),
+  ];
+  return (
+    <>
+      {values.map((value, index) => (
+        <td key={index} className={`py-2 ${tone(value)}`}>{formatPercent(value)}</td>
+      ))}
+    </>
+  );
+};
+
+const PerformancePanel = ({ history, positions }: PerformancePanelProps) => {
+  const { snapshots, positions: byPosition, today } = history;
+
+  const portfolio = useMemo(() => measurePerformance(snapshots, today), [snapshots, today]);
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Performance</h3>
+        {portfolio.days > 0 && (
+          <p className="text-sm text-muted-foreground">Over {portfolio.days} {portfolio.days === 1 ? 'day' : 'days'}</p>
+        )}
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="pb-2"></th>
+              <th className="pb-2">Time-Weighted</th>
+              <th className="pb-2">Money-Weighted</th>
+              <th className="pb-2">Annualized TWR</th>
+              <th className="pb-2">Annualized MWR</th>
+              {periods.map((period) => (
+                <th key={period} className="pb-2" title={returnPeriodLabels[period]}>{period}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            <tr className="border-b border-border/50 font-medium">
+              <td className="py-2">Portfolio</td>
+              <PerformanceCells performance={portfolio} />
+            </tr>
+            {positions.map((position) => (
+              <tr key={position.key} className="border-b border-border/50">
+                <td className="py-2">
+                  {position.symbol}
+                  {position.quantity <= 0 && <span className="text-xs text-muted-foreground ml-2">Closed</span>}
+                </td>
+                <PerformanceCells performance={byPosition?.get(position.key)} />
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      <p className="text-xs text-muted-foreground mt-2">
+        Time-weighted return leaves out the timing of deposits, withdrawals and trades, to show how the holdings did.
+        Money-weighted return (XIRR) counts that timing, to show how your money did. Periods of less than a year are
+        not annualized.
+      </p>
+    </div>
+  );
+};
+
+export default PerformancePanel;
@@ -1,241 +1,383 @@
-import { useState, useEffect } from "react";
-import { PlusIcon, EditIcon, TrashIcon, TrendingUpIcon, TrendingDownIcon } from "lucide-react";
+import { Fragment, useState, useEffect, useMemo } from "react";
+import { PlusIcon, MinusIcon, ArrowRightLeftIcon, UploadIcon, TrashIcon, TrendingUpIcon, TrendingDownIcon, ChevronDownIcon, ChevronRightIcon } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ToastAction } from "@/components/ui/toast";
 import { useToast } from "@/hooks/use-toast";
+import { useCurrency } from "@/hooks/use-currency";
+import { quoteKey, useQuotes, useStreamingQuotes } from "@/hooks/use-market-data";
+import { useLocalStorage } from "@/hooks/use-local-storage";
+import { useAccounts, useAllocationSettings, useCashMovements, usePositions } from "@/hooks/use-portfolio";
+import { useNow } from "@/hooks/use-now";
+import { usePortfolioHistory } from "@/hooks/use-portfolio-history";
+import { useBenchmarks } from "@/hooks/use-benchmarks";
+import {
+  getPriceStatus,
+  isTrustworthy,
+  lookupAssetId,
+  toDateKey,
+  type AssetType,
+  type PriceStatus,
+  type Quote,
+  type SearchResult,
+} from "@/lib/market";
+import {
+  ALL_ACCOUNTS,
+  LAST_PRICES_KEY,
+  addTransaction,
+  deriveCashBalances,
+  isStablecoin,
+  lotsHeld,
+  positionKey,
+  quantityHeld,
+  removeTransactions,
+  resolveAssetId,
+  restoreTransactions,
+  updateTransaction,
+  yieldOnCost,
+  type LastKnownPrice,
+  type Position,
+  type Transaction,
+  type TransactionDetails,
+} from "@/lib/portfolio";
 import SearchBar from "./SearchBar";
+import FlashingPrice from "./FlashingPrice";
+import StreamStatusBadge from "./StreamStatusBadge";
+import PriceStatusBadge from "./PriceStatusBadge";
+import LastUpdated from "./LastUpdated";
+import DataError from "./DataError";
+import TransactionForm from "./TransactionForm";
+import TransactionHistory from "./TransactionHistory";
+import LotBreakdown from "./LotBreakdown";
+import CostBasisSelect from "./CostBasisSelect";
+import AccountSwitcher from "./AccountSwitcher";
+import ExportMenu from "./ExportMenu";
+import ImportDialog from "./ImportDialog";
+import RealizedGains from "./RealizedGains";
+import IncomeSummary from "./IncomeSummary";
+import CashBalances from "./CashBalances";
+import PortfolioHistoryChart from "./PortfolioHistoryChart";
+import PerformancePanel from "./PerformancePanel";
+import BenchmarkPanel from "./BenchmarkPanel";
+import AllocationPanel from "./AllocationPanel";
+import RiskPanel from "./RiskPanel";
 
-interface PortfolioItem {
-  id: string;
-  symbol: string;
-  name: string;
-  type: 'stock' | 'crypto';
-  quantity: number;
-  purchasePrice: number;
-  currentPrice: number;
+interface PositionPrice {
+  price?: number;
+  status: PriceStatus;
+  updatedAt?: number;
 }
 
-interface SearchResult {
-  symbol: string;
-  name: string;
-  type: 'stock' | 'crypto';
-  price?: number;
+// Adding to a position, or editing one of its transactions
+interface TransactionDialog {
+  position: Position;
+  transaction?: Transaction;
+  /** Prefilled fields for a new transaction. */
+  draft?: Partial<TransactionDetails>;
 }
 
-// Yahoo Finance and CoinGecko API integration
-const getCurrentPrice = async (symbol: string, type: 'stock' | 'crypto'): Promise<number> => {
-  try {
-    if (type === 'stock') {
-      const response = await fetch(
-        `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=1d&interval=1m`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        const result = data.chart?.result?.[0];
-        if (result?.meta?.regularMarketPrice) {
-          return result.meta.regularMarketPrice;
-        }
-      }
-    } else if (type === 'crypto') {
-      const response = await fetch(
-        `https://api.coingecko.com/api/v3/simple/price?ids=${symbol}&vs_currencies=usd`
-      );
-      
-      if (response.ok) {
-        const data = await response.json();
-        const coinId = Object.keys(data)[0];
-        if (coinId && data[coinId]?.usd) {
-          return data[coinId].usd;
-        }
-      }
-    }
-  } catch (error) {
-    console.error(`Error fetching price for ${symbol}:`, error);
+// Prefer the live quote; otherwise fall back to the last price seen, flagged by age
+const getPositionPrice = (quote: Quote | undefined, lastKnown: LastKnownPrice | undefined, now: number): PositionPrice => {
+  if (quote) {
+    return { price: quote.price, status: getPriceStatus(quote, now), updatedAt: quote.updatedAt };
   }
-  
-  // Fallback prices
-  const fallbackPrices: Record<string, number> = {
-    'AAPL': 185.92, 'GOOGL': 138.21, 'MSFT': 378.85, 'TSLA': 248.50,
-    'AMZN': 145.86, 'NVDA': 875.28, 'META': 504.20, 'NFLX': 489.33,
-    'BTC': 119051, 'ETH': 4399.16, 'XRP': 3.18,
-  };
-  
-  return fallbackPrices[symbol] || 100;
+  if (!lastKnown) {
+    return { status: 'missing' };
+  }
+  return { price: lastKnown.price, status: getPriceStatus(lastKnown, now), updatedAt: lastKnown.updatedAt };
 };
 
+// Positions of different accounts can hold the same asset
+const rowKey = (position: Position) => `${position.accountId ?? ALL_ACCOUNTS}/${position.key}`;
+
 const Portfolio = () => {
-  const [portfolio, setPortfolio] = useState<PortfolioItem[]>([]);
-  const [editingItem, setEditingItem] = useState<PortfolioItem | null>(null);
-  const [editQuantity, setEditQuantity] = useState('');
-  const [editPrice, setEditPrice] = useState('');
-  const [isEditDialogOpen, setIsEditDialogOpen] = useState(false);
+  // Read the ledger first: migrating the old portfolio also seeds the last known prices
+  const { transactions, positions, byAccount, toBase, methodFor, accountId } = usePositions();
+  const accounts = useAccounts();
+  const account = accounts.find((candidate) => candidate.id === accountId);
+  const [lastPrices, setLastPrices] = useLocalStorage<Record<string, LastKnownPrice>>(LAST_PRICES_KEY, {});
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+  const [dialog, setDialog] = useState<TransactionDialog | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
   const { toast } = useToast();
+  const { fromUsd, format, convertAt } = useCurrency();
+  const cashMovements = useCashMovements();
+  const cashBalances = useMemo(
+    () => deriveCashBalances(transactions, cashMovements, accounts)
+      .filter((balance) => !accountId || balance.accountId === accountId),
+    [transactions, cashMovements, accounts, accountId]
+  );
+  const history = usePortfolioHistory();
+  const benchmarks = useBenchmarks(history);
+  const tracksCash = accounts.some((candidate) => candidate.tracksCash && (!accountId || candidate.id === accountId));
 
-  // Load portfolio from localStorage on component mount
-  useEffect(() => {
-    const savedPortfolio = localStorage.getItem('portfolio');
-    if (savedPortfolio) {
-      try {
-        setPortfolio(JSON.parse(savedPortfolio));
-      } catch (error) {
-        console.error('Error loading portfolio:', error);
-      }
-    }
-  }, []);
+  // Look up provider ids for transactions recorded before ids were tracked
+  const unresolvedSymbols = transactions
+    .filter((transaction) => !transaction.assetId)
+    .map((transaction) => `${transaction.type}:${transaction.symbol}`);
+  const unresolvedKey = [...new Set(unresolvedSymbols)].join(',');
 
-  // Save portfolio to localStorage whenever it changes
   useEffect(() => {
-    localStorage.setItem('portfolio', JSON.stringify(portfolio));
-  }, [portfolio]);
+    if (!unresolvedKey) return;
 
-  // Update current prices periodically
-  useEffect(() => {
-    const updatePrices = async () => {
-      if (portfolio.length === 0) return;
-      
-      const updatedPortfolio = await Promise.all(
-        portfolio.map(async (item) => {
-          try {
-            const currentPrice = await getCurrentPrice(item.symbol, item.type);
-            return { ...item, currentPrice };
-          } catch (error) {
-            console.error(`Error updating price for ${item.symbol}:`, error);
-            return item;
-          }
-        })
-      );
-      
-      setPortfolio(updatedPortfolio);
+    const resolve = async () => {
+      for (const key of unresolvedKey.split(',')) {
+        const [type, symbol] = key.split(':') as [AssetType, string];
+        try {
+          const assetId = await lookupAssetId(type, symbol);
+          if (assetId) resolveAssetId(type, symbol, assetId);
+        } catch (error) {
+          console.error(`Error resolving asset id for ${symbol}:`, error);
+        }
+      }
     };
 
-    // Update prices immediately and then every 30 seconds
-    updatePrices();
-    const interval = setInterval(updatePrices, 30000);
-    
-    return () => clearInterval(interval);
-  }, [portfolio.length]);
-
-  const addToPortfolio = async (asset: SearchResult, quantity: number, purchasePrice: number) => {
-    const currentPrice = asset.price || await getCurrentPrice(asset.symbol, asset.type);
-    
-    const newItem: PortfolioItem = {
-      id: Date.now().toString(),
-      symbol: asset.symbol,
-      name: asset.name,
-      type: asset.type,
-      quantity,
-      purchasePrice,
-      currentPrice,
-    };
+    resolve();
+  }, [unresolvedKey]);
 
-    setPortfolio(prev => [...prev, newItem]);
-    toast({
-      title: "Added to Portfolio",
-      description: `${asset.symbol} has been added to your portfolio.`,
-    });
-  };
+  // Held assets share the batched, de-duplicated quote cache with the market lists. Sold
+  // ones still given an allocation target are quoted too, so they can be bought back.
+  const [allocation] = useAllocationSettings();
+  const targets = allocation.targets[accountId ?? ALL_ACCOUNTS] ?? {};
+  const openPositions = positions.filter((position) => position.quantity > 0);
+  const toAsset = (position: Position) => ({ type: position.type, id: position.assetId, symbol: position.symbol });
+  const heldAssets = openPositions.filter((position) => position.assetId).map(toAsset);
+  const quotedAssets = positions
+    .filter((position) => position.assetId && (position.quantity > 0 || targets[position.key] !== undefined))
+    .map(toAsset);
+  const { quotes, error: quoteError, retryFailed } = useQuotes(quotedAssets);
+  const streamStatus = useStreamingQuotes(heldAssets);
 
-  const removeFromPortfolio = (id: string) => {
-    setPortfolio(prev => prev.filter(item => item.id !== id));
-    toast({
-      title: "Removed from Portfolio",
-      description: "Item has been removed from your portfolio.",
+  // Remember the last price of each held asset for the next visit
+  useEffect(() => {
+    const changed = [...quotes].filter(([key, quote]) => lastPrices[key]?.updatedAt !== quote.updatedAt);
+    if (changed.length === 0) return;
+
+    setLastPrices({
+      ...lastPrices,
+      ...Object.fromEntries(
+        changed.map(([key, { price, source, updatedAt }]) => [key, { price, source, updatedAt }])
+      ),
     });
+  }, [quotes, lastPrices, setLastPrices]);
+
+  const now = useNow(5000);
+  const today = toDateKey(now);
+  const positionPrices = new Map(positions.map((position) => {
+    const key = position.assetId && quoteKey({ type: position.type, id: position.assetId });
+    return [position.key, getPositionPrice(key && quotes.get(key), key && lastPrices[key], now)];
+  }));
+
+  // Price in the base currency, only when it can be trusted
+  const trustedPrice = (position: Position) => {
+    const { price, status } = positionPrices.get(position.key);
+    return price !== undefined && isTrustworthy(status) ? fromUsd(price) : undefined;
   };
 
-  const editPortfolioItem = (item: PortfolioItem) => {
-    setEditingItem(item);
-    setEditQuantity(item.quantity.toString());
-    setEditPrice(item.purchasePrice.toString());
-    setIsEditDialogOpen(true);
+  const getValue = (position: Position) => fromUsd((positionPrices.get(position.key).price ?? 0) * position.quantity);
+
+  const calculateGainLoss = (position: Position) => {
+    const gainLoss = getValue(position) - position.costBasis;
+    const percentage = position.costBasis > 0 ? (gainLoss / position.costBasis) * 100 : 0;
+    return { gainLoss, percentage };
   };
 
-  const saveEdit = () => {
-    if (!editingItem) return;
+  const addFromSearch = (asset: SearchResult, details: TransactionDetails) => {
+    addTransaction({ ...details, assetId: asset.id, symbol: asset.symbol, name: asset.name, type: asset.type });
+    toast({
+      title: "Transaction Recorded",
+      description: `${asset.symbol} has been added to your portfolio.`,
+    });
+  };
 
-    const quantity = parseFloat(editQuantity);
-    const price = parseFloat(editPrice);
+  const saveTransaction = (details: TransactionDetails) => {
+    if (!dialog) return;
 
-    if (isNaN(quantity) || isNaN(price) || quantity <= 0 || price <= 0) {
-      toast({
-        title: "Invalid Input",
-        description: "Please enter valid positive numbers.",
-        variant: "destructive",
+    const { position, transaction } = dialog;
+    if (transaction) {
+      updateTransaction(transaction.id, details);
+    } else {
+      addTransaction({
+        ...details,
+        assetId: position.assetId,
+        symbol: position.symbol,
+        name: position.name,
+        type: position.type,
       });
-      return;
     }
 
-    setPortfolio(prev => prev.map(item => 
-      item.id === editingItem.id 
-        ? { ...item, quantity, purchasePrice: price }
-        : item
-    ));
-
-    setIsEditDialogOpen(false);
-    setEditingItem(null);
+    setDialog(null);
     toast({
-      title: "Portfolio Updated",
-      description: "Your portfolio item has been updated.",
+      title: transaction ? "Transaction Updated" : "Transaction Recorded",
+      description: `${position.symbol} has been updated.`,
     });
   };
 
-  const calculateGainLoss = (item: PortfolioItem) => {
-    const totalValue = item.currentPrice * item.quantity;
-    const totalCost = item.purchasePrice * item.quantity;
-    const gainLoss = totalValue - totalCost;
-    const percentage = ((gainLoss / totalCost) * 100);
-    return { gainLoss, percentage };
+  const deleteTransactions = (removed: Transaction[], title: string, description: string) => {
+    removeTransactions(removed.map((transaction) => transaction.id));
+    toast({
+      title,
+      description,
+      action: (
+        <ToastAction altText="Undo" onClick={() => restoreTransactions(removed)}>
+          Undo
+        </ToastAction>
+      ),
+    });
   };
 
-  const getTotalPortfolioValue = () => {
-    return portfolio.reduce((total, item) => total + (item.currentPrice * item.quantity), 0);
+  const toggleExpanded = (key: string) => {
+    setExpanded((prev) => {
+      const next = new Set(prev);
+      if (!next.delete(key)) next.add(key);
+      return next;
+    });
   };
 
-  const getTotalInvested = () => {
-    return portfolio.reduce((total, item) => total + (item.purchasePrice * item.quantity), 0);
-  };
+  // Totals only count positions with a real price; the rest are flagged below
+  const pricedPositions = openPositions.filter((position) => isTrustworthy(positionPrices.get(position.key).status));
+  const excludedCount = openPositions.length - pricedPositions.length;
+  const staleCount = pricedPositions.filter((position) => positionPrices.get(position.key).status === 'stale').length;
+  const oldestUpdate = Math.min(...pricedPositions.map((position) => positionPrices.get(position.key).updatedAt ?? 0));
 
-  const totalValue = getTotalPortfolioValue();
-  const totalInvested = getTotalInvested();
-  const totalGainLoss = totalValue - totalInvested;
-  const totalPercentage = totalInvested > 0 ? (totalGainLoss / totalInvested) * 100 : 0;
+  const holdingsValue = pricedPositions.reduce((total, position) => total + getValue(position), 0);
+  // Cash is valued at today's rates; stablecoins are already among the holdings
+  const cashValue = cashBalances.reduce((total, balance) => total + convertAt(balance.amount, balance.currency, undefined), 0);
+  const stablecoinValue = pricedPositions.filter(isStablecoin).reduce((total, position) => total + getValue(position), 0);
+  const totalValue = holdingsValue + cashValue;
+  const totalInvested = openPositions.reduce((total, position) => total + position.costBasis, 0);
+  const pricedInvested = pricedPositions.reduce((total, position) => total + position.costBasis, 0);
+  const totalGainLoss = holdingsValue - pricedInvested;
+  const totalPercentage = pricedInvested > 0 ? (totalGainLoss / pricedInvested) * 100 : 0;
+  const realizedGains = positions.flatMap((position) => position.realizedGains);
+  const totalRealized = positions.reduce((total, position) => total + position.realizedGain, 0);
+  const incomes = positions.flatMap((position) => position.incomes);
+  const totalIncome = positions.reduce((total, position) => total + position.income, 0);
+  // Measured against everything put in: the priced holdings plus what the sold units cost
+  const totalReturn = totalGainLoss + totalRealized + totalIncome;
+  const returnBase = pricedInvested + realizedGains.reduce((total, gain) => total + gain.costBasis, 0);
+  const returnPercentage = returnBase > 0 ? (totalReturn / returnBase) * 100 : 0;
+  const totalFees = positions.reduce((total, position) => total + position.fees, 0);
 
   return (
     <div className="glass-card rounded-lg p-6 animate-fade-in">
-      <div className="flex items-center justify-between mb-6">
-        <h2 className="text-xl font-semibold">Your Portfolio</h2>
-        <SearchBar onAddToPortfolio={addToPortfolio} />
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold">Your Portfolio</h2>
+          {heldAssets.length > 0 && <StreamStatusBadge status={streamStatus} />}
+        </div>
+        <div className="flex flex-wrap items-center gap-2">
+          <AccountSwitcher />
+          {account && <CostBasisSelect account={account} />}
+          <SearchBar
+            onAddTransaction={addFromSearch}
+            heldOn={(asset, date, heldIn) =>
+              quantityHeld(transactions, positionKey({ ...asset, assetId: asset.id }), date, { accountId: heldIn })}
+          />
+          <Button variant="outline" onClick={() => setIsImporting(true)}>
+            <UploadIcon className="w-4 h-4 mr-2" />
+            Import
+          </Button>
+          <ExportMenu
+            positions={positions}
+            transactions={transactions}
+            accountId={accountId}
+            priceOf={trustedPrice}
+            toBase={toBase}
+            methodFor={methodFor}
+          />
+        </div>
       </div>
 
+      {quoteError && (
+        <DataError what="prices for some holdings" error={quoteError} onRetry={retryFailed} className="mb-6" />
+      )}
+
       {/* Portfolio Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
-        <div className="bg-secondary/30 p-4 rounded-lg">
-          <h3 className="text-sm text-muted-foreground">Total Value</h3>
-          <p className="text-2xl font-semibold">${totalValue.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
-        </div>
-        <div className="bg-secondary/30 p-4 rounded-lg">
-          <h3 className="text-sm text-muted-foreground">Total Invested</h3>
-          <p className="text-2xl font-semibold">${totalInvested.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}</p>
-        </div>
-        <div className="bg-secondary/30 p-4 rounded-lg">
-          <h3 className="text-sm text-muted-foreground">Total Gain/Loss</h3>
-          <p className={`text-2xl font-semibold ${totalGainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
-            ${totalGainLoss.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-          </p>
-          <p className={`text-sm flex items-center gap-1 ${totalGainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
-            {totalGainLoss >= 0 ? <TrendingUpIcon className="w-3 h-3" /> : <TrendingDownIcon className="w-3 h-3" />}
-            {Math.abs(totalPercentage).toFixed(2)}%
-          </p>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Total Value</h3>
+            <p className="text-2xl font-semibold">{format(totalValue)}</p>
+            {pricedPositions.length > 0 && <LastUpdated timestamp={oldestUpdate || undefined} />}
+            {excludedCount > 0 && (
+              <p className="text-xs text-warning mt-1">
+                Excludes {excludedCount} {excludedCount === 1 ? 'position' : 'positions'} without a reliable price
+              </p>
+            )}
+            {staleCount > 0 && (
+              <p className="text-xs text-warning mt-1">
+                Includes {staleCount} stale {staleCount === 1 ? 'price' : 'prices'}
+              </p>
+            )}
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Total Invested</h3>
+            <p className="text-2xl font-semibold">{format(totalInvested)}</p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Unrealized Gain/Loss</h3>
+            <p className={`text-2xl font-semibold ${totalGainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
+              {format(totalGainLoss)}
+            </p>
+            <p className={`text-sm flex items-center gap-1 ${totalGainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
+              {totalGainLoss >= 0 ? <TrendingUpIcon className="w-3 h-3" /> : <TrendingDownIcon className="w-3 h-3" />}
+              {Math.abs(totalPercentage).toFixed(2)}%
+            </p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Realized Gain/Loss</h3>
+            <p className={`text-2xl font-semibold ${totalRealized >= 0 ? 'text-success' : 'text-warning'}`}>
+              {format(totalRealized)}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              From {realizedGains.length} {realizedGains.length === 1 ? 'lot' : 'lots'} sold
+            </p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Income</h3>
+            <p className="text-2xl font-semibold">{format(totalIncome)}</p>
+            <p className="text-sm text-muted-foreground">
+              From {incomes.length} {incomes.length === 1 ? 'payment' : 'payments'}
+            </p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Total Return</h3>
+            <p className={`text-2xl font-semibold ${totalReturn >= 0 ? 'text-success' : 'text-warning'}`}>
+              {format(totalReturn)}
+            </p>
+            <p className={`text-sm flex items-center gap-1 ${totalReturn >= 0 ? 'text-success' : 'text-warning'}`}>
+              {totalReturn >= 0 ? <TrendingUpIcon className="w-3 h-3" /> : <TrendingDownIcon className="w-3 h-3" />}
+              {Math.abs(returnPercentage).toFixed(2)}% with gains and income
+            </p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Fees Paid</h3>
+            <p className="text-2xl font-semibold">{format(totalFees)}</p>
+            <p className="text-sm text-muted-foreground">Counted in cost basis and proceeds</p>
+          </div>
+          <div className="bg-secondary/30 p-4 rounded-lg">
+            <h3 className="text-sm text-muted-foreground">Cash</h3>
+            <p className={`text-2xl font-semibold ${cashValue + stablecoinValue < 0 ? 'text-warning' : ''}`}>
+              {format(cashValue + stablecoinValue)}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {stablecoinValue > 0
+                ? `Includes ${format(stablecoinValue)} in stablecoins`
+                : tracksCash
+                  ? `In ${cashBalances.length} ${cashBalances.length === 1 ? 'currency' : 'currencies'}`
+                  : 'Turn on cash for an account in its settings'}
+            </p>
+          </div>
         </div>
+        <PortfolioHistoryChart history={history} benchmarks={benchmarks.series} />
       </div>
 
-      {/* Portfolio Items */}
-      {portfolio.length === 0 ? (
+      {/* Positions */}
+      {positions.length === 0 ? (
         <div className="text-center py-8 text-muted-foreground">
           <p className="mb-2">Your portfolio is empty</p>
-          <p className="text-sm">Use the search bar to add stocks and crypto to track your investments</p>
+          <p className="text-sm">Use the search bar to record a buy or deposit of a stock or crypto, or import a CSV</p>
         </div>
       ) : (
         <div className="overflow-x-auto">
@@ -244,65 +386,187 @@ const Portfolio = () => {
               <tr className="text-left text-sm text-muted-foreground border-b border-border">
                 <th className="pb-4">Asset</th>
                 <th className="pb-4">Quantity</th>
-                <th className="pb-4">Purchase Price</th>
+                <th className="pb-4">Avg. Cost</th>
                 <th className="pb-4">Current Price</th>
                 <th className="pb-4">Total Value</th>
-                <th className="pb-4">Gain/Loss</th>
+                <th className="pb-4">Unrealized</th>
+                <th className="pb-4">Realized</th>
+                <th className="pb-4">Income</th>
                 <th className="pb-4">Actions</th>
               </tr>
             </thead>
             <tbody>
-              {portfolio.map((item) => {
-                const { gainLoss, percentage } = calculateGainLoss(item);
+              {positions.map((position) => {
+                const { gainLoss, percentage } = calculateGainLoss(position);
+                const { price, status } = positionPrices.get(position.key);
+                const isOpen = position.quantity > 0;
+                const isTrusted = isOpen && isTrustworthy(status);
+                const isExpanded = expanded.has(rowKey(position));
+                // Deleting sales would erase realized gains, and transfers move the other account's units too
+                const hasHistory = position.realizedGains.length > 0 ||
+                  position.transactions.some((transaction) => transaction.kind === 'sell' || transaction.kind === 'transfer');
                 return (
-                  <tr key={item.id} className="border-b border-border/50">
-                    <td className="py-4">
-                      <div>
-                        <p className="font-medium">{item.symbol}</p>
-                        <p className="text-sm text-muted-foreground">{item.name}</p>
-                        <span className={`text-xs px-2 py-1 rounded ${
-                          item.type === 'stock' 
-                            ? 'bg-primary/20 text-primary' 
-                            : 'bg-warning/20 text-warning'
-                        }`}>
-                          {item.type}
-                        </span>
-                      </div>
-                    </td>
-                    <td className="py-4">{item.quantity}</td>
-                    <td className="py-4">${item.purchasePrice.toLocaleString()}</td>
-                    <td className="py-4">${item.currentPrice.toLocaleString()}</td>
-                    <td className="py-4">${(item.currentPrice * item.quantity).toLocaleString()}</td>
-                    <td className="py-4">
-                      <span className={`${gainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
-                        ${gainLoss.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
-                      </span>
-                      <br />
-                      <span className={`text-sm flex items-center gap-1 ${gainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
-                        {gainLoss >= 0 ? <TrendingUpIcon className="w-3 h-3" /> : <TrendingDownIcon className="w-3 h-3" />}
-                        {Math.abs(percentage).toFixed(2)}%
-                      </span>
-                    </td>
-                    <td className="py-4">
-                      <div className="flex items-center gap-2">
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => editPortfolioItem(item)}
+                  <Fragment key={rowKey(position)}>
+                    <tr className={`border-b border-border/50 ${isOpen ? '' : 'text-muted-foreground'}`}>
+                      <td className="py-4">
+                        <button
+                          className="flex items-start gap-2 text-left"
+                          onClick={() => toggleExpanded(rowKey(position))}
+                          aria-expanded={isExpanded}
                         >
-                          <EditIcon className="w-4 h-4" />
-                        </Button>
-                        <Button 
-                          variant="ghost" 
-                          size="sm"
-                          onClick={() => removeFromPortfolio(item.id)}
-                          className="text-warning hover:text-warning"
-                        >
-                          <TrashIcon className="w-4 h-4" />
-                        </Button>
-                      </div>
-                    </td>
-                  </tr>
+                          {isExpanded
+                            ? <ChevronDownIcon className="w-4 h-4 mt-1 shrink-0" />
+                            : <ChevronRightIcon className="w-4 h-4 mt-1 shrink-0" />}
+                          <div>
+                            <p className="font-medium">{position.symbol}</p>
+                            <p className="text-sm text-muted-foreground">{position.name}</p>
+                            <span className={`text-xs px-2 py-1 rounded ${
+                              position.type === 'stock'
+                                ? 'bg-primary/20 text-primary'
+                                : 'bg-warning/20 text-warning'
+                            }`}>
+                              {isStablecoin(position) ? 'stablecoin' : position.type}
+                            </span>
+                          </div>
+                        </button>
+                      </td>
+                      <td className="py-4">
+                        {position.quantity.toLocaleString()}
+                        {!isOpen && <p className="text-xs">Closed</p>}
+                      </td>
+                      <td className="py-4">
+                        {isOpen && position.costBasis > 0 ? format(position.costBasis / position.quantity) : '—'}
+                      </td>
+                      <td className="py-4">
+                        {isOpen && price !== undefined ? (
+                          <FlashingPrice price={fromUsd(price)} className={isTrusted ? undefined : "italic text-muted-foreground"} />
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                        {isOpen && <PriceStatusBadge status={status} />}
+                      </td>
+                      <td className={`py-4 ${isTrusted || !isOpen ? '' : 'italic text-muted-foreground'}`}>
+                        {isOpen && price !== undefined ? format(getValue(position)) : '—'}
+                      </td>
+                      <td className="py-4">
+                        {isTrusted ? (
+                          <>
+                            <span className={`${gainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
+                              {format(gainLoss)}
+                            </span>
+                            <br />
+                            <span className={`text-sm flex items-center gap-1 ${gainLoss >= 0 ? 'text-success' : 'text-warning'}`}>
+                              {gainLoss >= 0 ? <TrendingUpIcon className="w-3 h-3" /> : <TrendingDownIcon className="w-3 h-3" />}
+                              {Math.abs(percentage).toFixed(2)}%
+                            </span>
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-4">
+                        {position.realizedGains.length > 0 ? (
+                          <span className={position.realizedGain >= 0 ? 'text-success' : 'text-warning'}>
+                            {format(position.realizedGain)}
+                          </span>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-4">
+                        {position.incomes.length > 0 ? (
+                          <>
+                            {format(position.income)}
+                            {yieldOnCost(position, today) !== undefined && (
+                              <p className="text-sm text-muted-foreground">
+                                {(yieldOnCost(position, today) * 100).toFixed(2)}% on cost
+                              </p>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-muted-foreground">—</span>
+                        )}
+                      </td>
+                      <td className="py-4">
+                        <div className="flex items-center gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDialog({ position, draft: { accountId: position.accountId } })}
+                            aria-label="Add transaction"
+                          >
+                            <PlusIcon className="w-4 h-4" />
+                          </Button>
+                          {isOpen && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDialog({
+                                position,
+                                draft: { kind: 'sell', quantity: position.quantity, accountId: position.accountId },
+                              })}
+                              aria-label="Sell position"
+                            >
+                              <MinusIcon className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {isOpen && accounts.length > 1 && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setDialog({
+                                position,
+                                draft: { kind: 'transfer', quantity: position.quantity, accountId: position.accountId },
+                              })}
+                              aria-label="Move to another account"
+                            >
+                              <ArrowRightLeftIcon className="w-4 h-4" />
+                            </Button>
+                          )}
+                          {!hasHistory && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteTransactions(
+                                position.transactions,
+                                "Removed from Portfolio",
+                                `${position.symbol} and its ${position.transactions.length} transactions were removed.`
+                              )}
+                              className="text-warning hover:text-warning"
+                              aria-label="Delete position and its transactions"
+                            >
+                              <TrashIcon className="w-4 h-4" />
+                            </Button>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                    {isExpanded && (
+                      <tr className="border-b border-border/50 bg-secondary/10">
+                        <td colSpan={9} className="px-4 py-3 space-y-4">
+                          {position.lots.length > 0 && (
+                            <div>
+                              <h3 className="text-sm font-medium mb-2">Open Lots</h3>
+                              <LotBreakdown lots={position.lots} price={isTrusted ? fromUsd(price) : undefined} />
+                            </div>
+                          )}
+                          <div>
+                            <h3 className="text-sm font-medium mb-2">Transactions</h3>
+                            <TransactionHistory
+                              transactions={position.transactions}
+                              accountId={position.accountId}
+                              onEdit={(transaction) => setDialog({ position, transaction })}
+                              onDelete={(transaction) => deleteTransactions(
+                                [transaction],
+                                "Transaction Deleted",
+                                `The ${transaction.date} ${transaction.kind} of ${position.symbol} was deleted.`
+                              )}
+                            />
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </Fragment>
                 );
               })}
             </tbody>
@@ -310,53 +574,50 @@ const Portfolio = () => {
         </div>
       )}
 
-      {/* Edit Dialog */}
-      <Dialog open={isEditDialogOpen} onOpenChange={setIsEditDialogOpen}>
+      {tracksCash && <CashBalances balances={cashBalances} accountId={accountId} />}
+      {positions.length > 0 && (
+        <AllocationPanel positions={byAccount} cashBalances={cashBalances} priceOf={trustedPrice} accountId={accountId} />
+      )}
+      {positions.length > 0 && <PerformancePanel history={history} positions={positions} />}
+      {positions.length > 0 && (
+        <BenchmarkPanel history={history} benchmarks={benchmarks.series} error={benchmarks.error} buildError={benchmarks.buildError} />
+      )}
+      {positions.length > 0 && <RiskPanel history={history} benchmarks={benchmarks.series} />}
+      {realizedGains.length > 0 && <RealizedGains gains={realizedGains} />}
+      {incomes.length > 0 && <IncomeSummary positions={positions} />}
+
+      <ImportDialog open={isImporting} onOpenChange={setIsImporting} />
+
+      {/* Transaction Dialog */}
+      <Dialog open={dialog !== null} onOpenChange={(open) => !open && setDialog(null)}>
         <DialogContent>
           <DialogHeader>
-            <DialogTitle>Edit Portfolio Item</DialogTitle>
+            <DialogTitle>
+              {dialog?.transaction ? 'Edit' : 'Add'} {dialog?.position.symbol} Transaction
+            </DialogTitle>
           </DialogHeader>
-          {editingItem && (
-            <div className="space-y-4">
-              <div>
-                <label className="text-sm font-medium">Asset</label>
-                <p className="text-lg">{editingItem.symbol} - {editingItem.name}</p>
-              </div>
-              <div>
-                <label className="text-sm font-medium">Quantity</label>
-                <Input
-                  type="number"
-                  value={editQuantity}
-                  onChange={(e) => setEditQuantity(e.target.value)}
-                  placeholder="Enter quantity"
-                  min="0"
-                  step="any"
-                />
-              </div>
-              <div>
-                <label className="text-sm font-medium">Purchase Price</label>
-                <Input
-                  type="number"
-                  value={editPrice}
-                  onChange={(e) => setEditPrice(e.target.value)}
-                  placeholder="Enter purchase price"
-                  min="0"
-                  step="any"
-                />
-              </div>
-              <div className="flex gap-2">
-                <Button onClick={saveEdit} className="flex-1">
-                  Save Changes
-                </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={() => setIsEditDialogOpen(false)}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-              </div>
-            </div>
+          {dialog && (
+            <TransactionForm
+              initial={dialog.transaction ?? dialog.draft}
+              symbol={dialog.position.symbol}
+              suggestedPrice={dialog.draft && positionPrices.get(dialog.position.key).price !== undefined
+                ? fromUsd(positionPrices.get(dialog.position.key).price)
+                : undefined}
+              heldOn={(date, heldIn) => quantityHeld(transactions, dialog.position.key, date, {
+                accountId: heldIn,
+                excludeId: dialog.transaction?.id,
+              })}
+              lotsOn={(date, heldIn) => methodFor(heldIn) === 'specific'
+                ? lotsHeld(transactions, dialog.position.key, date, toBase, methodFor, {
+                  accountId: heldIn,
+                  excludeId: dialog.transaction?.id,
+                })
+                : []}
+              canSettleInStablecoin={dialog.position.type === 'crypto' && !isStablecoin(dialog.position)}
+              submitLabel={dialog.transaction ? 'Save Changes' : 'Record Transaction'}
+              onSubmit={saveTransaction}
+              onCancel={() => setDialog(null)}
+            />
           )}
         </DialogContent>
       </Dialog>
@@ -364,4 +625,4 @@ const Portfolio = () => {
   );
 };
 
-export default Portfolio;
\ No newline at end of file
+export default Portfolio;
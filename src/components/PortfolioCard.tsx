@@ -1,25 +1,19 @@
 import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
-import { useQuery } from "@tanstack/react-query";
+import { usePriceHistory } from "@/hooks/use-market-data";
+import { useCurrency, useHistoryInBaseCurrency } from "@/hooks/use-currency";
+import LastUpdated from "./LastUpdated";
+import DataError from "./DataError";
+
+const PortfolioCard = () => {
+  const { data: usdHistory, isLoading, error, refetch, dataUpdatedAt } = usePriceHistory('crypto', 'bitcoin', '180d');
+  const history = useHistoryInBaseCurrency(usdHistory);
+  const { formatCompact, formatPrice } = useCurrency();
 
-const fetchBitcoinPrices = async () => {
-  const response = await fetch(
-    "https://api.coingecko.com/api/v3/coins/bitcoin/market_chart?vs_currency=usd&days=180&interval=daily"
-  );
-  const data = await response.json();
-  
   // Format data for the chart - take last 6 months
-  return data.prices.slice(-180).map(([timestamp, price]: [number, number]) => ({
+  const priceData = history?.slice(-180).map(({ timestamp, price }) => ({
     date: new Date(timestamp).toLocaleDateString('en-US', { month: 'short' }),
     price: Math.round(price)
   }));
-};
-
-const PortfolioCard = () => {
-  const { data: priceData, isLoading } = useQuery({
-    queryKey: ['bitcoinPrices'],
-    queryFn: fetchBitcoinPrices,
-    refetchInterval: 60000, // Refetch every minute
-  });
 
   if (isLoading) {
     return (
@@ -32,9 +26,21 @@ const PortfolioCard = () => {
     );
   }
 
+  if (error && !usdHistory) {
+    return (
+      <div className="glass-card p-6 rounded-lg mb-8">
+        <h2 className="text-xl font-semibold mb-6">Bitcoin Performance</h2>
+        <DataError what="Bitcoin price history" error={error} onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
   return (
     <div className="glass-card p-6 rounded-lg mb-8 animate-fade-in">
-      <h2 className="text-xl font-semibold mb-6">Bitcoin Performance</h2>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-semibold">Bitcoin Performance</h2>
+        <LastUpdated timestamp={dataUpdatedAt} />
+      </div>
       <div className="w-full h-[200px]">
         <ResponsiveContainer width="100%" height="100%">
           <LineChart data={priceData}>
@@ -46,9 +52,10 @@ const PortfolioCard = () => {
             <YAxis 
               stroke="#E6E4DD"
               fontSize={12}
-              tickFormatter={(value) => `$${value}`}
+              tickFormatter={(value) => formatCompact(value)}
             />
             <Tooltip 
+              formatter={(value: number) => formatPrice(value)}
               contentStyle={{ 
                 background: '#3A3935',
                 border: '1px solid #605F5B',
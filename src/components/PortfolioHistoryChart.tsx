@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { LineChart, Line, XAxis, YAxis, ResponsiveContainer, Tooltip } from "recharts";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCurrency } from "@/hooks/use-currency";
+import type { PortfolioHistory } from "@/hooks/use-portfolio-history";
+import { snapshotRanges, snapshotsInRange, type BenchmarkSeries, type SnapshotRange } from "@/lib/portfolio";
+import DataError from "./DataError";
+
+// Benchmark lines, in the order the benchmarks are offered
+const benchmarkColors = ['#D2886F', '#7EBF8E', '#E6E4DD', '#C9A4D9'];
+
+// Dates are calendar days; read them as UTC so they don't shift a day
+const formatDay = (date: string, options: Intl.DateTimeFormatOptions) =>
+  new Date(date).toLocaleDateString('en-US', { ...options, timeZone: 'UTC' });
+
+interface PortfolioHistoryChartProps {
+  history: PortfolioHistory;
+  /** Drawn over the portfolio: its money as if it had gone into each. */
+  benchmarks?: BenchmarkSeries[];
+}
+
+const PortfolioHistoryChart = ({ history, benchmarks = [] }: PortfolioHistoryChartProps) => {
+  const { snapshots, isLoading, error, buildError, today } = history;
+  const { format, formatCompact } = useCurrency();
+  const [range, setRange] = useState<SnapshotRange>('3M');
+
+  const shown = snapshotsInRange(snapshots, range, today);
+  const benchmarkValues = benchmarks.map(({ benchmark, snapshots: series }) =>
+    [benchmark.id, new Map(series.map((snapshot) => [snapshot.date, snapshot.value]))] as const);
+  const data = shown.map((snapshot) => ({
+    ...snapshot,
+    ...Object.fromEntries(benchmarkValues.map(([id, values]) => [id, values.get(snapshot.date)])),
+  }));
+  const first = shown[0];
+  const last = shown[shown.length - 1];
+  // What the value did beyond the money that went in or out over the range
+  const change = first && last ? last.value - first.value - (last.invested - first.invested) : 0;
+  const longRange = range === '1Y' || range === 'ALL';
+
+  return (
+    <div className="bg-secondary/30 p-4 rounded-lg flex flex-col">
+      <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+        <div>
+          <h3 className="text-sm text-muted-foreground">Value Over Time</h3>
+          {shown.length > 1 && (
+            <p className={`text-sm ${change >= 0 ? 'text-success' : 'text-warning'}`}>
+              {change >= 0 ? '+' : ''}{format(change)} excluding deposits and withdrawals
+            </p>
+          )}
+        </div>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={range}
+          onValueChange={(value) => value && setRange(value as SnapshotRange)}
+          aria-label="Chart range"
+        >
+          {snapshotRanges.map((option) => (
+            <ToggleGroupItem key={option} value={option} className="px-2 text-xs">{option}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </div>
+
+      {error && snapshots.length === 0 && <DataError what="price history for some holdings" error={error} />}
+      {buildError && <DataError what="portfolio history" error={buildError} />}
+
+      <div className="flex-1 min-h-[240px] w-full">
+        {shown.length > 1 ? (
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={data}>
+              <XAxis
+                dataKey="date"
+                stroke="#E6E4DD"
+                fontSize={12}
+                minTickGap={32}
+                tickFormatter={(date: string) =>
+                  formatDay(date, longRange ? { month: 'short', year: '2-digit' } : { month: 'short', day: 'numeric' })}
+              />
+              <YAxis
+                stroke="#E6E4DD"
+                fontSize={12}
+                width={64}
+                domain={['auto', 'auto']}
+                tickFormatter={(value) => formatCompact(value)}
+              />
+              <Tooltip
+                formatter={(value: number) => format(value)}
+                labelFormatter={(date: string) => formatDay(date, { month: 'short', day: 'numeric', year: 'numeric' })}
+                contentStyle={{
+                  background: '#3A3935',
+                  border: '1px solid #605F5B',
+                  borderRadius: '8px'
+                }}
+                labelStyle={{ color: '#E6E4DD' }}
+              />
+              <Line type="monotone" dataKey="value" name="Value" stroke="#8989DE" strokeWidth={2} dot={false} />
+              <Line
+                type="stepAfter"
+                dataKey="invested"
+                name="Net invested"
+                stroke="#605F5B"
+                strokeDasharray="4 4"
+                dot={false}
+              />
+              {benchmarks.map(({ benchmark }, index) => (
+                <Line
+                  key={benchmark.id}
+                  type="monotone"
+                  dataKey={benchmark.id}
+                  name={benchmark.name}
+                  stroke={benchmarkColors[index % benchmarkColors.length]}
+                  strokeWidth={1.5}
+                  dot={false}
+                />
+              ))}
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+            {isLoading ? 'Rebuilding history from prices…' : 'Not enough history for this range yet'}
+          </div>
+        )}
+      </div>
+      {isLoading && shown.length > 1 && (
+        <p className="text-xs text-muted-foreground mt-1">Showing saved history while prices load</p>
+      )}
+    </div>
+  );
+};
+
+export default PortfolioHistoryChart;
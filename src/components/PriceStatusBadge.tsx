@@ -0,0 +1,21 @@
+import type { PriceStatus } from "@/lib/market";
+
+const labels: Partial<Record<PriceStatus, { text: string; title: string }>> = {
+  stale: { text: 'stale', title: 'This price has not refreshed recently' },
+  fallback: { text: 'fallback', title: 'Placeholder value, not market data' },
+  missing: { text: 'no price', title: 'No price is available for this asset' },
+};
+
+// Renders nothing for live prices
+const PriceStatusBadge = ({ status }: { status: PriceStatus }) => {
+  const label = labels[status];
+  if (!label) return null;
+
+  return (
+    <span className="ml-2 text-[10px] uppercase tracking-wide px-1.5 py-0.5 rounded bg-warning/20 text-warning" title={label.title}>
+      {label.text}
+    </span>
+  );
+};
+
+export default PriceStatusBadge;
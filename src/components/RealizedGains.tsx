@@ -0,0 +1,118 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { FileTextIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import type { RealizedGain } from "@/lib/portfolio";
+
+const ALL_ASSETS = 'all';
+
+interface RealizedGainsProps {
+  /** Realized gains of every position, in any order. */
+  gains: RealizedGain[];
+}
+
+const gainClass = (gain: number) => (gain >= 0 ? 'text-success' : 'text-warning');
+
+const RealizedGains = ({ gains }: RealizedGainsProps) => {
+  const { format } = useCurrency();
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [asset, setAsset] = useState(ALL_ASSETS);
+
+  const assets = [...new Map(gains.map((gain) => [gain.positionKey, gain.symbol]))]
+    .sort(([, a], [, b]) => a.localeCompare(b));
+
+  const shown = gains
+    .filter((gain) =>
+      (!from || gain.sold >= from) &&
+      (!to || gain.sold <= to) &&
+      (asset === ALL_ASSETS || gain.positionKey === asset)
+    )
+    .sort((a, b) => b.sold.localeCompare(a.sold));
+
+  const total = (field: 'proceeds' | 'costBasis' | 'gain') => shown.reduce((sum, gain) => sum + gain[field], 0);
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Realized Gains</h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <div>
+            <label className="text-sm font-medium">From</label>
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} max={to || undefined} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">To</label>
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} min={from || undefined} />
+          </div>
+          <div>
+            <label className="text-sm font-medium">Asset</label>
+            <Select value={asset} onValueChange={setAsset}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_ASSETS}>All assets</SelectItem>
+                {assets.map(([key, symbol]) => (
+                  <SelectItem key={key} value={key}>{symbol}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button variant="outline" asChild>
+            <Link to="/tax-report">
+              <FileTextIcon className="w-4 h-4 mr-2" />
+              Tax Report
+            </Link>
+          </Button>
+        </div>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">No sales in this period</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">Sold</th>
+                <th className="pb-2">Asset</th>
+                <th className="pb-2">Acquired</th>
+                <th className="pb-2">Quantity</th>
+                <th className="pb-2">Proceeds</th>
+                <th className="pb-2">Cost Basis</th>
+                <th className="pb-2">Gain/Loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              {shown.map((gain) => (
+                <tr key={`${gain.transactionId}:${gain.lotId}`} className="border-b border-border/50">
+                  <td className="py-2">{gain.sold}</td>
+                  <td className="py-2 font-medium">{gain.symbol}</td>
+                  <td className="py-2">{gain.acquired}</td>
+                  <td className="py-2">{gain.quantity.toLocaleString()}</td>
+                  <td className="py-2">{format(gain.proceeds)}</td>
+                  <td className="py-2">{format(gain.costBasis)}</td>
+                  <td className={`py-2 ${gainClass(gain.gain)}`}>{format(gain.gain)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium">
+                <td className="pt-2" colSpan={4}>Total</td>
+                <td className="pt-2">{format(total('proceeds'))}</td>
+                <td className="pt-2">{format(total('costBasis'))}</td>
+                <td className={`pt-2 ${gainClass(total('gain'))}`}>{format(total('gain'))}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RealizedGains;
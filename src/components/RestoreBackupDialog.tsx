@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { BackupError, parseBackup, restoreBackup, type Backup } from "@/lib/portfolio";
+
+interface RestoreBackupDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Nothing is replaced until the file has passed validation and the user confirms
+const RestoreBackupDialog = ({ open, onOpenChange }: RestoreBackupDialogProps) => {
+  const { toast } = useToast();
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [issues, setIssues] = useState<string[]>([]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setBackup(null);
+      setIssues([]);
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setBackup(parseBackup(await file.text()));
+      setIssues([]);
+    } catch (error) {
+      setBackup(null);
+      setIssues(error instanceof BackupError ? error.issues : [(error as Error).message]);
+    }
+  };
+
+  const handleRestore = () => {
+    restoreBackup(backup);
+    toast({
+      title: "Backup Restored",
+      description: `${backup.transactions.length} transactions in ${backup.accounts.length} accounts were restored.`,
+    });
+    handleOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Restore Backup</DialogTitle>
+          <DialogDescription>
+            Replaces every account and transaction with the ones in a full backup file.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <label className="text-sm font-medium">Backup file</label>
+            <Input type="file" accept=".json,application/json" onChange={(e) => handleFile(e.target.files?.[0])} />
+          </div>
+          {issues.length > 0 && (
+            <div className="text-sm text-warning">
+              <p className="font-medium">This file can't be restored:</p>
+              <ul className="list-disc pl-5">
+                {issues.slice(0, 5).map((issue) => <li key={issue}>{issue}</li>)}
+              </ul>
+              {issues.length > 5 && <p>and {issues.length - 5} more problems</p>}
+            </div>
+          )}
+          {backup && (
+            <p className="text-sm">
+              Backup from {new Date(backup.exportedAt).toLocaleString()} with {backup.accounts.length} accounts
+              and {backup.transactions.length} transactions, in {backup.baseCurrency}. Your current data will be
+              replaced.
+            </p>
+          )}
+          <div className="flex gap-2">
+            <Button variant="destructive" onClick={handleRestore} disabled={!backup} className="flex-1">
+              Replace All Data
+            </Button>
+            <Button variant="outline" onClick={() => handleOpenChange(false)} className="flex-1">
+              Cancel
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RestoreBackupDialog;
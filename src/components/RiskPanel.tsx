@@ -0,0 +1,183 @@
+import { useMemo, useState } from "react";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useCurrency } from "@/hooks/use-currency";
+import type { PortfolioHistory } from "@/hooks/use-portfolio-history";
+import { usePortfolioTask } from "@/hooks/use-portfolio-task";
+import { formatPercent } from "@/lib/format";
+import {
+  snapshotsInRange,
+  varConfidences,
+  type BenchmarkSeries,
+  type RiskInput,
+  type SnapshotRange,
+} from "@/lib/portfolio";
+import DataError from "./DataError";
+
+interface RiskPanelProps {
+  history: PortfolioHistory;
+  benchmarks: BenchmarkSeries[];
+}
+
+const lookbacks: SnapshotRange[] = ['3M', '1Y', 'ALL'];
+
+const ratio = (value: number | undefined) => (value === undefined ? '—' : value.toFixed(2));
+
+// Unsigned, unlike formatPercent: these are sizes, not gains or losses
+const percent = (fraction: number | undefined) => (fraction === undefined ? '—' : `${(fraction * 100).toFixed(2)}%`);
+
+const RiskPanel = ({ history, benchmarks }: RiskPanelProps) => {
+  const { format } = useCurrency();
+  const { snapshots, today } = history;
+  const [lookback, setLookback] = useState<SnapshotRange>('1Y');
+  const [benchmarkId, setBenchmarkId] = useState<string>();
+  const [riskFree, setRiskFree] = useState('0');
+
+  const benchmark = benchmarks.find((series) => series.benchmark.id === benchmarkId) ?? benchmarks[0];
+  const riskFreeRate = (Number(riskFree) || 0) / 100;
+
+  const input = useMemo<RiskInput | undefined>(() => {
+    const shown = snapshotsInRange(snapshots, lookback, today);
+    if (shown.length < 3) return undefined;
+    return {
+      snapshots: shown,
+      benchmark: benchmark && snapshotsInRange(benchmark.snapshots, lookback, today),
+      riskFreeRate,
+    };
+  }, [snapshots, lookback, today, benchmark, riskFreeRate]);
+
+  const { result: metrics, error, isComputing } = usePortfolioTask('risk', input);
+
+  return (
+    <div className="mt-8">
+      <div className="flex flex-wrap items-end justify-between gap-4 mb-4">
+        <h3 className="text-lg font-semibold">Risk</h3>
+        <div className="flex flex-wrap items-end gap-2">
+          <div className="space-y-1">
+            <label className="text-sm font-medium" htmlFor="risk-free-rate">Risk-free rate %</label>
+            <Input
+              id="risk-free-rate"
+              type="number"
+              step="0.1"
+              className="w-24"
+              value={riskFree}
+              onChange={(event) => setRiskFree(event.target.value)}
+            />
+          </div>
+          {benchmarks.length > 0 && (
+            <Select value={benchmark.benchmark.id} onValueChange={setBenchmarkId}>
+              <SelectTrigger className="w-[180px]" aria-label="Benchmark for beta">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {benchmarks.map((series) => (
+                  <SelectItem key={series.benchmark.id} value={series.benchmark.id}>{series.benchmark.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={lookback}
+            onValueChange={(value) => value && setLookback(value as SnapshotRange)}
+            aria-label="Lookback"
+          >
+            {lookbacks.map((option) => (
+              <ToggleGroupItem key={option} value={option} className="text-xs">{option}</ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+      </div>
+
+      {!input ? (
+        <p className="text-sm text-muted-foreground">Risk needs a few days of history.</p>
+      ) : error && !isComputing ? (
+        <DataError what="risk metrics" error={error} />
+      ) : !metrics ? (
+        <p className="text-sm text-muted-foreground">Working out risk…</p>
+      ) : (
+        <div className={isComputing ? 'opacity-60 transition-opacity' : undefined}>
+          <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4 mb-4">
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Volatility</h4>
+              <p className="text-xl font-semibold">{percent(metrics.volatility)}</p>
+              <p className="text-xs text-muted-foreground">Annualized</p>
+            </div>
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Sharpe Ratio</h4>
+              <p className="text-xl font-semibold">{ratio(metrics.sharpe)}</p>
+            </div>
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Sortino Ratio</h4>
+              <p className="text-xl font-semibold">{ratio(metrics.sortino)}</p>
+            </div>
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Max Drawdown</h4>
+              <p className={`text-xl font-semibold ${metrics.maxDrawdown > 0 ? 'text-warning' : ''}`}>
+                {formatPercent(-metrics.maxDrawdown)}
+              </p>
+              {metrics.drawdownPeak && metrics.drawdownTrough && (
+                <p className="text-xs text-muted-foreground">
+                  {metrics.drawdownPeak} to {metrics.drawdownTrough}
+                  {metrics.drawdownRecovery ? `, recovered ${metrics.drawdownRecovery}` : ', not yet recovered'}
+                </p>
+              )}
+            </div>
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Longest Drawdown</h4>
+              <p className="text-xl font-semibold">
+                {metrics.longestDrawdownDays} {metrics.longestDrawdownDays === 1 ? 'day' : 'days'}
+              </p>
+              <p className="text-xs text-muted-foreground">Below a previous high</p>
+            </div>
+            <div className="bg-secondary/30 p-4 rounded-lg">
+              <h4 className="text-sm text-muted-foreground">Beta</h4>
+              <p className="text-xl font-semibold">{ratio(metrics.beta)}</p>
+              <p className="text-xs text-muted-foreground">
+                {benchmark ? `Against ${benchmark.benchmark.name}` : 'Pick a benchmark above'}
+              </p>
+            </div>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-muted-foreground border-b border-border">
+                  <th className="pb-2">One-Day Value at Risk</th>
+                  <th className="pb-2">Historical</th>
+                  <th className="pb-2">Parametric</th>
+                </tr>
+              </thead>
+              <tbody>
+                {varConfidences.map((confidence) => {
+                  const historical = metrics.historicalVar[confidence];
+                  const parametric = metrics.parametricVar[confidence];
+                  return (
+                    <tr key={confidence} className="border-b border-border/50">
+                      <td className="py-2">{confidence}% confidence</td>
+                      <td className="py-2">
+                        {historical ? `${format(historical.amount)} (${percent(historical.fraction)})` : '—'}
+                      </td>
+                      <td className="py-2">
+                        {parametric ? `${format(parametric.amount)} (${percent(parametric.fraction)})` : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-muted-foreground mt-2">
+            From {metrics.days} daily returns of the portfolio's value with deposits and withdrawals taken out. Value at
+            Risk is the one-day loss not exceeded on {varConfidences.join('% or ')}% of days: historical from the worst
+            days seen, parametric from a normal distribution with the same mean and volatility.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RiskPanel;
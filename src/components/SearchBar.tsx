@@ -3,116 +3,56 @@ import { Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { useQuery } from "@tanstack/react-query";
-
-interface SearchResult {
-  symbol: string;
-  name: string;
-  type: 'stock' | 'crypto';
-  price?: number;
-}
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { useAssetSearch } from "@/hooks/use-market-data";
+import DataError from "./DataError";
+import { useCurrency } from "@/hooks/use-currency";
+import { rankSymbolMatches, registerAsset, type SearchResult } from "@/lib/market";
+import { isStablecoin, type TransactionDetails } from "@/lib/portfolio";
+import TransactionForm from "./TransactionForm";
 
 interface SearchBarProps {
-  onAddToPortfolio: (asset: SearchResult, quantity: number, purchasePrice: number) => void;
+  onAddTransaction: (asset: SearchResult, details: TransactionDetails) => void;
+  /** Units of `asset` an account held on a date. */
+  heldOn?: (asset: SearchResult, date: string, accountId: string) => number;
 }
 
-// Yahoo Finance API integration
-const searchStocks = async (query: string) => {
-  try {
-    const response = await fetch(
-      `https://query1.finance.yahoo.com/v1/finance/search?q=${encodeURIComponent(query)}&lang=en-US&region=US&quotesCount=8&newsCount=0`
-    );
-    
-    if (!response.ok) {
-      throw new Error('Failed to fetch stock data');
-    }
-    
-    const data = await response.json();
-    
-    return data.quotes?.filter((quote: any) => 
-      quote.typeDisp === 'Equity' && quote.exchange
-    ).map((quote: any) => ({
-      symbol: quote.symbol,
-      name: quote.longname || quote.shortname || quote.symbol,
-      type: 'stock' as const,
-      price: quote.regularMarketPrice || 0,
-      exchange: quote.exchange
-    })) || [];
-  } catch (error) {
-    console.error('Error searching stocks:', error);
-    return [];
-  }
-};
-
-const searchAssets = async (query: string): Promise<SearchResult[]> => {
-  if (!query || query.length < 2) return [];
-
-  const results: SearchResult[] = [];
-  
-  // Search stocks using Yahoo Finance
-  const stockResults = await searchStocks(query);
-  results.push(...stockResults.slice(0, 5));
-
-  // Search crypto using CoinGecko
-  try {
-    const cryptoResponse = await fetch(
-      `https://api.coingecko.com/api/v3/search?query=${encodeURIComponent(query)}`
-    );
-    
-    if (cryptoResponse.ok) {
-      const cryptoData = await cryptoResponse.json();
-      const cryptoResults = cryptoData.coins?.slice(0, 5).map((coin: any) => ({
-        symbol: coin.symbol.toUpperCase(),
-        name: coin.name,
-        type: 'crypto' as const,
-      })) || [];
-      
-      results.push(...cryptoResults);
-    }
-  } catch (error) {
-    console.error('Error searching crypto:', error);
-  }
-
-  return results.slice(0, 10);
-};
-
-const SearchBar = ({ onAddToPortfolio }: SearchBarProps) => {
+const SearchBar = ({ onAddTransaction, heldOn }: SearchBarProps) => {
   const [query, setQuery] = useState('');
   const [isOpen, setIsOpen] = useState(false);
   const [selectedAsset, setSelectedAsset] = useState<SearchResult | null>(null);
-  const [quantity, setQuantity] = useState('');
-  const [purchasePrice, setPurchasePrice] = useState('');
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
 
-  const { data: searchResults = [], isLoading } = useQuery({
-    queryKey: ['search', query],
-    queryFn: () => searchAssets(query),
-    enabled: query.length >= 2,
-    staleTime: 300000, // 5 minutes
-  });
+  const { fromUsd, formatPrice } = useCurrency();
+  const { data: searchResults = [], isLoading, error: searchError } = useAssetSearch(query);
+
+  // Several coins can share a ticker, so look up every coin using the selected one
+  const { data: tickerResults = [] } = useAssetSearch(
+    selectedAsset?.type === 'crypto' ? selectedAsset.symbol : ''
+  );
+  const tickerMatches = selectedAsset
+    ? rankSymbolMatches(
+        [...tickerResults, ...searchResults].filter(
+          (result, index, all) => all.findIndex((other) => other.id === result.id) === index
+        ),
+        selectedAsset.type,
+        selectedAsset.symbol
+      )
+    : [];
 
   const handleSelectAsset = (asset: SearchResult) => {
     setSelectedAsset(asset);
-    setPurchasePrice(asset.price?.toString() || '');
     setIsAddDialogOpen(true);
     setIsOpen(false);
   };
 
-  const handleAddToPortfolio = () => {
+  const handleAddTransaction = (details: TransactionDetails) => {
     if (!selectedAsset) return;
 
-    const qty = parseFloat(quantity);
-    const price = parseFloat(purchasePrice);
-
-    if (isNaN(qty) || isNaN(price) || qty <= 0 || price <= 0) {
-      return;
-    }
-
-    onAddToPortfolio(selectedAsset, qty, price);
+    registerAsset(selectedAsset);
+    onAddTransaction(selectedAsset, details);
     setIsAddDialogOpen(false);
     setSelectedAsset(null);
-    setQuantity('');
-    setPurchasePrice('');
     setQuery('');
   };
 
@@ -151,11 +91,13 @@ const SearchBar = ({ onAddToPortfolio }: SearchBarProps) => {
             <div className="p-4 text-center text-muted-foreground">
               Searching...
             </div>
+          ) : searchError ? (
+            <DataError what="search results" error={searchError} className="m-2" />
           ) : searchResults.length > 0 ? (
             <div className="py-2">
               {searchResults.map((result, index) => (
                 <button
-                  key={`${result.symbol}-${index}`}
+                  key={`${result.type}-${result.id}-${index}`}
                   onClick={() => handleSelectAsset(result)}
                   className="w-full px-4 py-2 text-left hover:bg-muted/20 flex items-center justify-between"
                 >
@@ -168,7 +110,7 @@ const SearchBar = ({ onAddToPortfolio }: SearchBarProps) => {
                   <div className="flex items-center gap-2">
                     {result.price && (
                       <span className="text-sm text-muted-foreground">
-                        ${result.price.toFixed(2)}
+                        {formatPrice(fromUsd(result.price))}
                       </span>
                     )}
                     <span className={`text-xs px-2 py-1 rounded ${
@@ -209,40 +151,40 @@ const SearchBar = ({ onAddToPortfolio }: SearchBarProps) => {
                   {selectedAsset.type}
                 </span>
               </div>
-              <div>
-                <label className="text-sm font-medium">Quantity</label>
-                <Input
-                  type="number"
-                  value={quantity}
-                  onChange={(e) => setQuantity(e.target.value)}
-                  placeholder="Enter quantity"
-                  min="0"
-                  step="any"
-                />
-              </div>
-              <div>
-                <label className="text-sm font-medium">Purchase Price ($)</label>
-                <Input
-                  type="number"
-                  value={purchasePrice}
-                  onChange={(e) => setPurchasePrice(e.target.value)}
-                  placeholder="Enter purchase price"
-                  min="0"
-                  step="any"
-                />
-              </div>
-              <div className="flex gap-2">
-                <Button onClick={handleAddToPortfolio} className="flex-1">
-                  Add to Portfolio
-                </Button>
-                <Button 
-                  variant="outline" 
-                  onClick={() => setIsAddDialogOpen(false)}
-                  className="flex-1"
-                >
-                  Cancel
-                </Button>
-              </div>
+              {tickerMatches.length > 1 && (
+                <div>
+                  <p className="text-sm font-medium mb-2">
+                    {tickerMatches.length} coins use the ticker {selectedAsset.symbol}. Which one is it?
+                  </p>
+                  <RadioGroup
+                    value={selectedAsset.id}
+                    onValueChange={(id) => {
+                      const match = tickerMatches.find((result) => result.id === id);
+                      if (match) setSelectedAsset(match);
+                    }}
+                    className="max-h-40 overflow-y-auto"
+                  >
+                    {tickerMatches.map((match) => (
+                      <label key={match.id} className="flex items-center gap-2 text-sm">
+                        <RadioGroupItem value={match.id} />
+                        <span className="font-medium">{match.name}</span>
+                        <span className="text-muted-foreground">
+                          {match.id}{match.rank ? ` · #${match.rank}` : ''}
+                        </span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              )}
+              <TransactionForm
+                symbol={selectedAsset.symbol.toUpperCase()}
+                suggestedPrice={selectedAsset.price ? fromUsd(selectedAsset.price) : undefined}
+                heldOn={heldOn && ((date, accountId) => heldOn(selectedAsset, date, accountId))}
+                canSettleInStablecoin={selectedAsset.type === 'crypto' && !isStablecoin(selectedAsset)}
+                submitLabel="Add to Portfolio"
+                onSubmit={handleAddTransaction}
+                onCancel={() => setIsAddDialogOpen(false)}
+              />
             </div>
           )}
         </DialogContent>
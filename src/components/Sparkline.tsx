@@ -0,0 +1,26 @@
+import { LineChart, Line, YAxis, ResponsiveContainer } from "recharts";
+
+interface SparklineProps {
+  values: number[];
+  color?: string;
+  height?: number;
+}
+
+const Sparkline = ({ values, color = "#8989DE", height = 32 }: SparklineProps) => {
+  if (values.length < 2) return <div style={{ height }} />;
+
+  const data = values.map((value, index) => ({ index, value }));
+
+  return (
+    <div style={{ height }} className="w-full">
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={data}>
+          <YAxis hide domain={['dataMin', 'dataMax']} />
+          <Line type="monotone" dataKey="value" stroke={color} strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ResponsiveContainer>
+    </div>
+  );
+};
+
+export default Sparkline;
@@ -1,102 +1,74 @@
 import { ArrowUpIcon, ArrowDownIcon } from "lucide-react";
-import { useQuery } from "@tanstack/react-query";
+import { quoteKey, useQuotes, useStreamingQuotes } from "@/hooks/use-market-data";
+import { useNow } from "@/hooks/use-now";
+import { useCurrency } from "@/hooks/use-currency";
+import { POPULAR_STOCKS, getPriceStatus, sourceLabels, type Quote } from "@/lib/market";
+import { cn } from "@/lib/utils";
+import FlashingPrice from "./FlashingPrice";
+import StreamStatusBadge from "./StreamStatusBadge";
+import LastUpdated from "./LastUpdated";
+import PriceStatusBadge from "./PriceStatusBadge";
+import DataError from "./DataError";
 
-interface Stock {
-  symbol: string;
-  name: string;
-  price: number;
-  change: number;
-  changePercent: number;
-  volume: number;
-}
-
-const fetchStockData = async (): Promise<Stock[]> => {
-  try {
-    // Popular stock symbols to fetch
-    const symbols = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'NVDA', 'META', 'NFLX'];
-    
-    const stockPromises = symbols.slice(0, 5).map(async (symbol) => {
-      try {
-        const response = await fetch(
-          `https://query1.finance.yahoo.com/v8/finance/chart/${symbol}?range=1d&interval=1m`
-        );
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data for ${symbol}`);
-        }
-        
-        const data = await response.json();
-        const result = data.chart?.result?.[0];
-        
-        if (!result) {
-          throw new Error(`No data found for ${symbol}`);
-        }
-        
-        const meta = result.meta;
-        const currentPrice = meta.regularMarketPrice || 0;
-        const previousClose = meta.previousClose || currentPrice;
-        const change = currentPrice - previousClose;
-        const changePercent = previousClose > 0 ? (change / previousClose) * 100 : 0;
-        
-        return {
-          symbol: symbol,
-          name: meta.longName || symbol,
-          price: currentPrice,
-          change: change,
-          changePercent: changePercent,
-          volume: meta.regularMarketVolume || 0
-        };
-      } catch (error) {
-        console.error(`Error fetching data for ${symbol}:`, error);
-        // Return fallback data for this symbol
-        const fallbackData: Record<string, Partial<Stock>> = {
-          'AAPL': { name: 'Apple Inc.', price: 185.92, change: 2.45, changePercent: 1.34, volume: 45623000 },
-          'GOOGL': { name: 'Alphabet Inc.', price: 138.21, change: -1.87, changePercent: -1.33, volume: 25847000 },
-          'MSFT': { name: 'Microsoft Corporation', price: 378.85, change: 5.23, changePercent: 1.40, volume: 32156000 },
-          'TSLA': { name: 'Tesla Inc.', price: 248.50, change: -8.75, changePercent: -3.40, volume: 78963000 },
-          'AMZN': { name: 'Amazon.com Inc.', price: 145.86, change: 3.12, changePercent: 2.18, volume: 34521000 },
-        };
-        
-        const fallback = fallbackData[symbol];
-        return {
-          symbol,
-          name: fallback?.name || symbol,
-          price: fallback?.price || 100,
-          change: fallback?.change || 0,
-          changePercent: fallback?.changePercent || 0,
-          volume: fallback?.volume || 1000000
-        };
-      }
-    });
-    
-    return await Promise.all(stockPromises);
-  } catch (error) {
-    console.error('Error fetching stock data:', error);
-    // Return fallback data if everything fails
-    return [
-      { symbol: 'AAPL', name: 'Apple Inc.', price: 185.92, change: 2.45, changePercent: 1.34, volume: 45623000 },
-      { symbol: 'GOOGL', name: 'Alphabet Inc.', price: 138.21, change: -1.87, changePercent: -1.33, volume: 25847000 },
-      { symbol: 'MSFT', name: 'Microsoft Corporation', price: 378.85, change: 5.23, changePercent: 1.40, volume: 32156000 },
-      { symbol: 'TSLA', name: 'Tesla Inc.', price: 248.50, change: -8.75, changePercent: -3.40, volume: 78963000 },
-      { symbol: 'AMZN', name: 'Amazon.com Inc.', price: 145.86, change: 3.12, changePercent: 2.18, volume: 34521000 }
-    ];
-  }
+// Placeholder rows for symbols the provider could not return. They are
+// flagged as fallback data and never presented as market prices.
+const fallbackData: Record<string, Pick<Quote, 'name' | 'price' | 'change' | 'changePercent' | 'volume'>> = {
+  'AAPL': { name: 'Apple Inc.', price: 185.92, change: 2.45, changePercent: 1.34, volume: 45623000 },
+  'GOOGL': { name: 'Alphabet Inc.', price: 138.21, change: -1.87, changePercent: -1.33, volume: 25847000 },
+  'MSFT': { name: 'Microsoft Corporation', price: 378.85, change: 5.23, changePercent: 1.40, volume: 32156000 },
+  'TSLA': { name: 'Tesla Inc.', price: 248.50, change: -8.75, changePercent: -3.40, volume: 78963000 },
+  'AMZN': { name: 'Amazon.com Inc.', price: 145.86, change: 3.12, changePercent: 2.18, volume: 34521000 },
 };
 
-const StockList = () => {
-  const { data: stocks, isLoading } = useQuery({
-    queryKey: ['stocks'],
-    queryFn: fetchStockData,
-    refetchInterval: 30000, // Refetch every 30 seconds
+const stockAssets = POPULAR_STOCKS.slice(0, 5).map((id) => ({ type: 'stock' as const, id, symbol: id }));
+
+const withFallbacks = (quotes: Map<string, Quote>): Quote[] =>
+  stockAssets.map((asset) => {
+    const quote = quotes.get(quoteKey(asset));
+    if (quote) return quote;
+
+    const symbol = asset.id;
+    const fallback = fallbackData[symbol];
+    return {
+      id: symbol,
+      symbol,
+      type: 'stock',
+      name: fallback?.name || symbol,
+      price: fallback?.price || 100,
+      change: fallback?.change || 0,
+      changePercent: fallback?.changePercent || 0,
+      volume: fallback?.volume || 1000000,
+      source: 'fallback',
+      updatedAt: 0,
+    };
   });
 
+const StockList = () => {
+  const { quotes, isLoading, error, retryFailed } = useQuotes(stockAssets);
+  const streamStatus = useStreamingQuotes(stockAssets);
+  const now = useNow(5000);
+  const { fromUsd, format } = useCurrency();
+  const stocks = withFallbacks(quotes);
+  const latest = stocks
+    .filter((stock) => stock.source !== 'fallback')
+    .reduce<Quote | undefined>((newest, stock) => (newest && newest.updatedAt > stock.updatedAt ? newest : stock), undefined);
+
   if (isLoading) {
     return <div className="glass-card rounded-lg p-6 animate-pulse">Loading stocks...</div>;
   }
 
   return (
     <div className="glass-card rounded-lg p-6 animate-fade-in">
-      <h2 className="text-xl font-semibold mb-6">Top Stocks</h2>
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h2 className="text-xl font-semibold">Top Stocks</h2>
+          <LastUpdated timestamp={latest?.updatedAt} source={latest && sourceLabels[latest.source]} />
+        </div>
+        <StreamStatusBadge status={streamStatus} />
+      </div>
+      {error && stocks.some((stock) => stock.source === 'fallback') && (
+        <DataError what="some stock quotes" error={error} onRetry={retryFailed} className="mb-4" />
+      )}
       <div className="overflow-x-auto">
         <table className="w-full">
           <thead>
@@ -108,15 +80,21 @@ const StockList = () => {
             </tr>
           </thead>
           <tbody>
-            {stocks?.map((stock) => (
-              <tr key={stock.symbol} className="border-t border-secondary">
+            {stocks.map((stock) => (
+              <tr
+                key={stock.symbol}
+                className={cn("border-t border-secondary", stock.source === 'fallback' && "opacity-60 italic")}
+              >
                 <td className="py-4">
                   <div>
                     <p className="font-medium">{stock.name}</p>
                     <p className="text-sm text-muted-foreground">{stock.symbol}</p>
                   </div>
                 </td>
-                <td className="py-4">${stock.price.toLocaleString()}</td>
+                <td className="py-4">
+                  <FlashingPrice price={fromUsd(stock.price)} />
+                  <PriceStatusBadge status={getPriceStatus(stock, now)} />
+                </td>
                 <td className="py-4">
                   <span
                     className={`flex items-center gap-1 ${
@@ -131,7 +109,7 @@ const StockList = () => {
                     {Math.abs(stock.changePercent).toFixed(2)}%
                   </span>
                   <span className={`text-sm ${stock.changePercent >= 0 ? "text-success" : "text-warning"}`}>
-                    ${Math.abs(stock.change).toFixed(2)}
+                    {format(Math.abs(fromUsd(stock.change)))}
                   </span>
                 </td>
                 <td className="py-4">{(stock.volume / 1e6).toFixed(1)}M</td>
@@ -0,0 +1,21 @@
+import type { StreamStatus } from "@/lib/market";
+import { cn } from "@/lib/utils";
+
+const StreamStatusBadge = ({ status }: { status: StreamStatus }) => {
+  const isLive = status === 'open';
+
+  return (
+    <span
+      className={cn(
+        "flex items-center gap-1.5 text-xs px-2 py-1 rounded",
+        isLive ? "bg-success/20 text-success" : "bg-secondary text-muted-foreground"
+      )}
+      title={isLive ? "Streaming prices" : "Stream unavailable, refreshing every 30 seconds"}
+    >
+      <span className={cn("w-1.5 h-1.5 rounded-full", isLive ? "bg-success animate-pulse" : "bg-muted-foreground")} />
+      {isLive ? "Live" : "Polling"}
+    </span>
+  );
+};
+
+export default StreamStatusBadge;
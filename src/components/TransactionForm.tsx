@@ -0,0 +1,404 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts, useSelectedAccount } from "@/hooks/use-portfolio";
+import { isCurrency } from "@/lib/currency";
+import { CURRENCIES, toDateKey, type Currency } from "@/lib/market";
+import {
+  ALL_ACCOUNTS,
+  isInflow,
+  isOutflow,
+  stablecoinCurrencies,
+  transactionKindLabels,
+  type Lot,
+  type LotSelection,
+  type TransactionDetails,
+  type TransactionKind,
+} from "@/lib/portfolio";
+
+// Kinds whose price is asked for, and what it means for each
+const priceLabels: Partial<Record<TransactionKind, string>> = {
+  buy: 'Price per unit',
+  sell: 'Price per unit',
+  deposit: 'Cost basis per unit (optional)',
+  dividend: 'Dividend per unit',
+  staking: 'Value per unit when received (optional)',
+  interest: 'Value per unit when received (optional)',
+};
+
+const quantityLabels: Partial<Record<TransactionKind, string>> = {
+  dividend: 'Units the dividend was paid on',
+  staking: 'Units received',
+  interest: 'Units received',
+};
+
+// Transfer destination for moves between wallets of the same account
+const SAME_ACCOUNT = 'same';
+
+// Fee option for paying in units of the asset rather than a currency
+const IN_ASSET = 'asset';
+
+// Settlement option for trades paid for or paid out in cash
+const IN_CASH = 'cash';
+
+interface TransactionFormProps {
+  initial?: Partial<TransactionDetails>;
+  /** Ticker of the asset, offered as what a fee was paid in. */
+  symbol?: string;
+  /** Suggested price per unit in the base currency, e.g. the current quote. */
+  suggestedPrice?: number;
+  /** Units an account held on a date, so sells, withdrawals and moves can't exceed the position. */
+  heldOn?: (date: string, accountId: string) => number;
+  /** Lots an account could pick from on a date; empty unless it uses specific lots. */
+  lotsOn?: (date: string, accountId: string) => Lot[];
+  /** Offer to settle trades in a stablecoin, for crypto that is not one itself. */
+  canSettleInStablecoin?: boolean;
+  submitLabel: string;
+  onSubmit: (details: TransactionDetails) => void;
+  onCancel: () => void;
+}
+
+const TransactionForm = ({
+  initial,
+  symbol,
+  suggestedPrice,
+  heldOn,
+  lotsOn,
+  canSettleInStablecoin,
+  submitLabel,
+  onSubmit,
+  onCancel,
+}: TransactionFormProps) => {
+  const { currency: baseCurrency, format } = useCurrency();
+  const accounts = useAccounts();
+  const [selectedAccountId] = useSelectedAccount();
+  const [accountId, setAccountId] = useState(
+    initial?.accountId ?? (selectedAccountId !== ALL_ACCOUNTS ? selectedAccountId : accounts[0].id)
+  );
+  const otherAccounts = accounts.filter((account) => account.id !== accountId);
+  const [toAccountId, setToAccountId] = useState(
+    initial?.toAccountId ?? (initial?.from || otherAccounts.length === 0 ? SAME_ACCOUNT : otherAccounts[0].id)
+  );
+  const [kind, setKind] = useState<TransactionKind>(initial?.kind ?? 'buy');
+  const [date, setDate] = useState(initial?.date ?? toDateKey(Date.now()));
+  const [quantity, setQuantity] = useState(initial?.quantity?.toString() ?? '');
+  const suggested = suggestedPrice ? String(Number(suggestedPrice.toPrecision(8))) : '';
+  // The quote is no guide to a dividend
+  const [price, setPrice] = useState(initial?.price?.toString() ?? (initial?.kind === 'dividend' ? '' : suggested));
+  const [currency, setCurrency] = useState<Currency>(initial?.currency ?? baseCurrency);
+  const [settledIn, setSettledIn] = useState(initial?.settledIn);
+  const [fee, setFee] = useState(initial?.fee?.amount.toString() ?? '');
+  const [feeInAsset, setFeeInAsset] = useState(initial?.fee?.paidIn === 'asset');
+  const [from, setFrom] = useState(initial?.from ?? '');
+  const [to, setTo] = useState(initial?.to ?? '');
+  const [note, setNote] = useState(initial?.note ?? '');
+  const [lotQuantities, setLotQuantities] = useState<Record<string, string>>(() =>
+    Object.fromEntries((initial?.lots ?? []).map(({ lotId, quantity }) => [lotId, quantity.toString()]))
+  );
+  const [error, setError] = useState('');
+
+  const priceLabel = priceLabels[kind];
+  const isTrade = kind === 'buy' || kind === 'sell';
+  const needsPrice = isTrade || kind === 'dividend';
+  const isMove = kind === 'transfer' && toAccountId !== SAME_ACCOUNT && toAccountId !== accountId;
+  const takesUnits = isOutflow(kind) || isMove;
+  // A dividend is paid on units held, so a fee can only be in cash
+  const canPayFeeInAsset = kind !== 'dividend';
+  const paidIn = feeInAsset && canPayFeeInAsset ? 'asset' : 'currency';
+  // A stablecoin trade is priced in the currency the stablecoin tracks
+  const settlement = isTrade && canSettleInStablecoin ? settledIn : undefined;
+  const openLots = lotsOn && takesUnits ? lotsOn(date, accountId) : [];
+
+  const changeSettlement = (value: string) => {
+    setSettledIn(value === IN_CASH ? undefined : value);
+    if (value in stablecoinCurrencies) setCurrency(stablecoinCurrencies[value]);
+  };
+
+  const changeKind = (next: TransactionKind) => {
+    if (next === 'dividend' && price === suggested) setPrice('');
+    if (kind === 'dividend' && next !== 'dividend' && !price) setPrice(suggested);
+    setKind(next);
+  };
+
+  const handleSubmit = () => {
+    const units = parseFloat(quantity);
+    const unitPrice = price ? parseFloat(price) : undefined;
+    const feeAmount = fee ? parseFloat(fee) : 0;
+    const feeUnits = paidIn === 'asset' ? feeAmount : 0;
+
+    if (isNaN(units) || units <= 0) {
+      return setError('Enter a quantity above zero.');
+    }
+    if (needsPrice && !(unitPrice > 0)) {
+      return setError(kind === 'dividend' ? 'Enter the dividend per unit.' : 'Enter the price per unit.');
+    }
+    if (priceLabel && !needsPrice && price && !(unitPrice >= 0)) {
+      return setError('Enter a valid value or leave it empty.');
+    }
+    if (!(feeAmount >= 0)) {
+      return setError('Enter a valid fee or leave it empty.');
+    }
+    if (isInflow(kind) && feeUnits >= units) {
+      return setError('The fee takes all of the units received.');
+    }
+    if (!date || date > toDateKey(Date.now())) {
+      return setError('Enter a date that is not in the future.');
+    }
+    if (kind === 'transfer' && !isMove && (!from.trim() || !to.trim())) {
+      return setError('Enter where the units moved from and to.');
+    }
+    const unitsOut = (takesUnits ? units : 0) + feeUnits;
+    if (unitsOut > 0 && heldOn && unitsOut > heldOn(date, accountId) + 1e-9) {
+      return setError(`Only ${heldOn(date, accountId)} held on ${date}${feeUnits ? ', fee included' : ''}.`);
+    }
+
+    const lots: LotSelection[] = openLots.flatMap((lot) => {
+      const taken = parseFloat(lotQuantities[lot.id]);
+      return taken > 0 ? [{ lotId: lot.id, quantity: taken }] : [];
+    });
+    const overdrawn = openLots.find((lot) => parseFloat(lotQuantities[lot.id]) > lot.quantity + 1e-9);
+    if (overdrawn) {
+      return setError(`Only ${overdrawn.quantity} left in the lot from ${overdrawn.date}.`);
+    }
+    if (lots.reduce((total, lot) => total + lot.quantity, 0) > units + 1e-9) {
+      return setError('The selected lots add up to more than the quantity.');
+    }
+
+    // Every field is set, even when empty, so an edit clears what no longer applies
+    onSubmit({
+      accountId,
+      kind,
+      date,
+      quantity: units,
+      price: priceLabel ? unitPrice : undefined,
+      currency,
+      settledIn: settlement,
+      fee: feeAmount > 0 ? { amount: feeAmount, paidIn } : undefined,
+      toAccountId: isMove ? toAccountId : undefined,
+      from: kind === 'transfer' && !isMove ? from.trim() : undefined,
+      to: kind === 'transfer' && !isMove ? to.trim() : undefined,
+      note: note.trim() || undefined,
+      lots: lots.length > 0 ? lots : undefined,
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      {accounts.length > 1 && (
+        <div>
+          <label className="text-sm font-medium">{kind === 'transfer' ? 'From account' : 'Account'}</label>
+          <Select value={accountId} onValueChange={setAccountId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {accounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <div>
+          <label className="text-sm font-medium">Type</label>
+          <Select value={kind} onValueChange={(value) => changeKind(value as TransactionKind)}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(transactionKindLabels) as TransactionKind[]).map((option) => (
+                <SelectItem key={option} value={option}>{transactionKindLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <label className="text-sm font-medium">Date</label>
+          <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} max={toDateKey(Date.now())} />
+        </div>
+      </div>
+      <div>
+        <label className="text-sm font-medium">{quantityLabels[kind] ?? 'Quantity'}</label>
+        <Input
+          type="number"
+          value={quantity}
+          onChange={(e) => setQuantity(e.target.value)}
+          placeholder="Enter quantity"
+          min="0"
+          step="any"
+        />
+        {kind === 'dividend' && heldOn && heldOn(date, accountId) > 0 && (
+          <button
+            type="button"
+            className="text-xs text-muted-foreground underline mt-1"
+            onClick={() => setQuantity(String(heldOn(date, accountId)))}
+          >
+            Use the {heldOn(date, accountId).toLocaleString()} held on {date}
+          </button>
+        )}
+      </div>
+      {priceLabel && (
+        <div>
+          <label className="text-sm font-medium">{priceLabel}</label>
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              placeholder="Enter price"
+              min="0"
+              step="any"
+            />
+            <Select
+              value={currency}
+              onValueChange={(value) => isCurrency(value) && setCurrency(value)}
+              disabled={Boolean(settlement)}
+            >
+              <SelectTrigger className="w-[100px]" aria-label="Currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      )}
+      {isTrade && canSettleInStablecoin && (
+        <div>
+          <label className="text-sm font-medium">{kind === 'buy' ? 'Paid with' : 'Paid out in'}</label>
+          <Select value={settledIn ?? IN_CASH} onValueChange={changeSettlement}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={IN_CASH}>Cash</SelectItem>
+              {Object.keys(stablecoinCurrencies).map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {settlement && (
+            <p className="text-xs text-muted-foreground mt-1">
+              {kind === 'buy' ? `Sells ${settlement} for the cost, fee included.` : `Buys ${settlement} with the proceeds.`}
+            </p>
+          )}
+        </div>
+      )}
+      <div>
+        <label className="text-sm font-medium">Fee (optional)</label>
+        <div className="flex gap-2">
+          <Input
+            type="number"
+            value={fee}
+            onChange={(e) => setFee(e.target.value)}
+            placeholder="Commission, spread or gas"
+            min="0"
+            step="any"
+          />
+          <Select
+            value={paidIn === 'asset' ? IN_ASSET : currency}
+            onValueChange={(value) => {
+              setFeeInAsset(value === IN_ASSET);
+              if (isCurrency(value) && !settlement) setCurrency(value);
+            }}
+          >
+            <SelectTrigger className="w-[100px]" aria-label="Fee paid in">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {CURRENCIES.map((code) => (
+                <SelectItem key={code} value={code}>{code}</SelectItem>
+              ))}
+              {canPayFeeInAsset && <SelectItem value={IN_ASSET}>{symbol ?? 'Units'}</SelectItem>}
+            </SelectContent>
+          </Select>
+        </div>
+        {paidIn === 'asset' && (
+          <p className="text-xs text-muted-foreground mt-1">
+            {isInflow(kind) ? 'Comes out of the units received.' : 'Leaves the account on top of the quantity.'}
+          </p>
+        )}
+      </div>
+      {kind === 'transfer' && otherAccounts.length > 0 && (
+        <div>
+          <label className="text-sm font-medium">To account</label>
+          <Select value={toAccountId} onValueChange={setToAccountId}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {otherAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+              ))}
+              <SelectItem value={SAME_ACCOUNT}>Another wallet in this account</SelectItem>
+            </SelectContent>
+          </Select>
+          {isMove && (
+            <p className="text-xs text-muted-foreground mt-1">
+              The units keep their cost basis and acquisition dates.
+            </p>
+          )}
+        </div>
+      )}
+      {kind === 'transfer' && !isMove && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-sm font-medium">From</label>
+            <Input value={from} onChange={(e) => setFrom(e.target.value)} placeholder="e.g. Coinbase" />
+          </div>
+          <div>
+            <label className="text-sm font-medium">To</label>
+            <Input value={to} onChange={(e) => setTo(e.target.value)} placeholder="e.g. Hardware wallet" />
+          </div>
+        </div>
+      )}
+      {openLots.length > 0 && (
+        <div>
+          <label className="text-sm font-medium">Lots to take from</label>
+          <div className="space-y-1 mt-1">
+            {openLots.map((lot) => (
+              <div key={lot.id} className="flex items-center gap-2 text-sm">
+                <span className="flex-1">
+                  {lot.date} · {lot.quantity.toLocaleString()} at {format(lot.costBasis / lot.quantity)}
+                </span>
+                <Input
+                  type="number"
+                  value={lotQuantities[lot.id] ?? ''}
+                  onChange={(e) => setLotQuantities({ ...lotQuantities, [lot.id]: e.target.value })}
+                  placeholder="0"
+                  min="0"
+                  max={lot.quantity}
+                  step="any"
+                  className="w-[120px]"
+                  aria-label={`Units from the lot acquired ${lot.date}`}
+                />
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-muted-foreground mt-1">Units not taken from a chosen lot come from the oldest lots.</p>
+        </div>
+      )}
+      <div>
+        <label className="text-sm font-medium">Note</label>
+        <Input value={note} onChange={(e) => setNote(e.target.value)} placeholder="Optional" />
+      </div>
+      {error && <p className="text-sm text-warning">{error}</p>}
+      <div className="flex gap-2">
+        <Button onClick={handleSubmit} className="flex-1">
+          {submitLabel}
+        </Button>
+        <Button variant="outline" onClick={onCancel} className="flex-1">
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TransactionForm;
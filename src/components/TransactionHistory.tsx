@@ -0,0 +1,94 @@
+import { EditIcon, TrashIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useAccounts } from "@/hooks/use-portfolio";
+import { formatCurrency } from "@/lib/format";
+import { isInflow, isOutflow, transactionKindLabels, type Transaction } from "@/lib/portfolio";
+
+interface TransactionHistoryProps {
+  /** Oldest first, as positions hold them; shown newest first. */
+  transactions: Transaction[];
+  /** Account whose side of a move is shown; undefined for all accounts combined. */
+  accountId?: string;
+  onEdit: (transaction: Transaction) => void;
+  onDelete: (transaction: Transaction) => void;
+}
+
+// +1 for units coming into the account, -1 going out, 0 for neither
+const sign = ({ kind, accountId, toAccountId }: Transaction, viewedAccountId?: string) => {
+  if (kind !== 'transfer') return isOutflow(kind) ? -1 : isInflow(kind) ? 1 : 0;
+  if (!viewedAccountId || !toAccountId) return 0;
+  return toAccountId === viewedAccountId ? 1 : -1;
+};
+
+const signColors = { 1: 'text-success', 0: '', [-1]: 'text-warning' };
+
+// Amounts stay in the currency they were recorded in
+const TransactionHistory = ({ transactions, accountId, onEdit, onDelete }: TransactionHistoryProps) => {
+  const accounts = useAccounts();
+  const accountName = (id: string) => accounts.find((account) => account.id === id)?.name ?? 'Deleted account';
+  const showAccount = !accountId && accounts.length > 1;
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs text-muted-foreground">
+          <th className="pb-2">Date</th>
+          {showAccount && <th className="pb-2">Account</th>}
+          <th className="pb-2">Type</th>
+          <th className="pb-2">Quantity</th>
+          <th className="pb-2">Price</th>
+          <th className="pb-2">Total</th>
+          <th className="pb-2">Details</th>
+          <th className="pb-2" />
+        </tr>
+      </thead>
+      <tbody>
+        {[...transactions].reverse().map((transaction) => {
+          const { id, kind, date, price, quantity, currency, settledIn, fee, toAccountId, from, to, note } = transaction;
+          const direction = sign(transaction, accountId);
+          const route = toAccountId
+            ? `${accountName(transaction.accountId)} → ${accountName(toAccountId)}`
+            : kind === 'transfer' && `${from} → ${to}`;
+          const feeText = fee && `Fee ${fee.paidIn === 'asset'
+            ? `${fee.amount.toLocaleString()} ${transaction.symbol}`
+            : formatCurrency(fee.amount, currency, { maximumFractionDigits: 6 })}`;
+          return (
+            <tr key={id} className="border-t border-border/30">
+              <td className="py-2">{date}</td>
+              {showAccount && <td className="py-2">{accountName(transaction.accountId)}</td>}
+              <td className="py-2">{transactionKindLabels[kind]}</td>
+              <td className={`py-2 ${signColors[direction]}`}>
+                {direction > 0 ? '+' : direction < 0 ? '−' : ''}{quantity.toLocaleString()}
+              </td>
+              <td className="py-2">
+                {price !== undefined ? formatCurrency(price, currency, { maximumFractionDigits: 6 }) : '—'}
+              </td>
+              <td className="py-2">{price !== undefined ? formatCurrency(price * quantity, currency) : '—'}</td>
+              <td className="py-2 text-muted-foreground">
+                {[route, settledIn && `Settled in ${settledIn}`, feeText, note].filter(Boolean).join(' · ')}
+              </td>
+              <td className="py-2">
+                <div className="flex items-center justify-end gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onEdit(transaction)} aria-label="Edit transaction">
+                    <EditIcon className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onDelete(transaction)}
+                    className="text-warning hover:text-warning"
+                    aria-label="Delete transaction"
+                  >
+                    <TrashIcon className="w-3 h-3" />
+                  </Button>
+                </div>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
+
+export default TransactionHistory;
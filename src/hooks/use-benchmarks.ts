@@ -0,0 +1,65 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import { priceHistoryQueryOptions } from "@/hooks/use-market-data";
+import { useCurrency } from "@/hooks/use-currency";
+import type { PortfolioHistory } from "@/hooks/use-portfolio-history";
+import { usePortfolioTask } from "@/hooks/use-portfolio-task";
+import type { PricePoint } from "@/lib/market";
+import {
+  componentKey,
+  getBenchmarkSettings,
+  historyRangeFor,
+  selectedBenchmarks,
+  subscribeBenchmarkSettings,
+  updateBenchmarkSettings,
+  type BenchmarkComponent,
+  type BenchmarkSeriesInput,
+} from "@/lib/portfolio";
+
+export const useBenchmarkSettings = () => {
+  const settings = useSyncExternalStore(subscribeBenchmarkSettings, getBenchmarkSettings);
+  return [settings, updateBenchmarkSettings] as const;
+};
+
+/**
+ * The selected benchmarks, each with what the portfolio's money would have
+ * been worth in it, on the same days as `history`. They are worked out in a
+ * worker; `buildError` is what went wrong there.
+ */
+export const useBenchmarks = (history: PortfolioHistory) => {
+  const [settings] = useBenchmarkSettings();
+  const { currency, rates } = useCurrency();
+  const { snapshots, rateHistory, today } = history;
+  const benchmarks = useMemo(() => selectedBenchmarks(settings), [settings]);
+
+  const components = useMemo(() => {
+    const byKey = new Map<string, BenchmarkComponent>();
+    benchmarks.forEach((benchmark) => benchmark.components.forEach((component) => byKey.set(componentKey(component), component)));
+    return [...byKey.values()];
+  }, [benchmarks]);
+
+  const start = snapshots[0]?.date;
+  const range = start ? historyRangeFor(start, today) : '7d';
+  const combine = useCallback(
+    (results: UseQueryResult<PricePoint[]>[]) => ({
+      histories: new Map(results.flatMap((result, index) =>
+        result.data ? [[componentKey(components[index]), result.data] as const] : [])),
+      isPending: results.some((result) => result.isPending),
+      error: results.find((result) => result.error)?.error ?? null,
+    }),
+    [components]
+  );
+  const { histories, isPending, error } = useQueries({
+    queries: components.map(({ type, id }) => ({ ...priceHistoryQueryOptions(type, id, range), staleTime: 5 * 60 * 1000 })),
+    combine,
+  });
+
+  // Until the portfolio's own rates load, today's rates stand in
+  const input = useMemo<BenchmarkSeriesInput>(
+    () => ({ portfolio: snapshots, benchmarks, histories, currency, rateHistory, rates }),
+    [snapshots, benchmarks, histories, currency, rateHistory, rates]
+  );
+  const { result, error: buildError, isComputing } = usePortfolioTask('benchmarks', input);
+
+  return { series: result ?? [], isLoading: isPending || isComputing, error, buildError };
+};
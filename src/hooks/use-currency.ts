@@ -0,0 +1,111 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { marketDataKeys } from "@/hooks/use-market-data";
+import { getBaseCurrency, setBaseCurrency, subscribeBaseCurrency } from "@/lib/currency";
+import { formatCompactCurrency, formatCurrency, formatPrice } from "@/lib/format";
+import {
+  convertCurrency,
+  getFxProvider,
+  ratesOn,
+  toDateKey,
+  type Currency,
+  type FxRates,
+  type PricePoint,
+} from "@/lib/market";
+
+const fxKeys = {
+  latest: () => [...marketDataKeys.all, 'fx', 'latest'] as const,
+  range: (from: string, to: string) => [...marketDataKeys.all, 'fx', 'range', from, to] as const,
+};
+
+const RANGE_LEAD = 7 * 24 * 60 * 60 * 1000;
+
+export const useBaseCurrency = () => {
+  const currency = useSyncExternalStore(subscribeBaseCurrency, getBaseCurrency);
+  return [currency, setBaseCurrency] as const;
+};
+
+export const useFxRates = () =>
+  useQuery({
+    queryKey: fxKeys.latest(),
+    queryFn: () => getFxProvider().getRates(),
+    staleTime: 60 * 60 * 1000, // 1 hour
+    refetchInterval: 60 * 60 * 1000,
+  });
+
+export const useFxRateHistory = (from: string, to: string, enabled = true) =>
+  useQuery({
+    queryKey: fxKeys.range(from, to),
+    queryFn: () => getFxProvider().getRateHistory(from, to),
+    staleTime: 60 * 60 * 1000,
+    enabled: enabled && Boolean(from && to),
+  });
+
+// Rates on each of `dates` (YYYY-MM-DD), keyed by date, from one daily series spanning
+// them all. It starts a week early so a first date on a weekend still has a rate.
+// The map is only rebuilt when the series or the dates change, so converters built on it stay put.
+export const useHistoricalFxRates = (dates: string[]) => {
+  const [first, last] = useMemo(() => {
+    const sorted = [...dates].sort();
+    return [sorted[0], sorted[sorted.length - 1]];
+  }, [dates]);
+  const from = first ? toDateKey(Date.parse(first) - RANGE_LEAD) : '';
+  const { data: history } = useFxRateHistory(from, last ?? '');
+
+  return useMemo(
+    () => new Map(history ? dates.flatMap((date) => {
+      const rates = ratesOn(history, date);
+      return rates ? [[date, rates] as const] : [];
+    }) : []),
+    [dates, history]
+  );
+};
+
+/**
+ * Base currency plus helpers that convert provider (USD) amounts into it.
+ * Until rates load, non-USD amounts are shown in USD rather than guessed.
+ */
+export const useCurrency = () => {
+  const [currency, setCurrency] = useBaseCurrency();
+  const { data: rates } = useFxRates();
+  const displayCurrency: Currency = rates ? currency : 'USD';
+
+  const fromUsd = useCallback(
+    (amount: number) => (rates ? convertCurrency(amount, 'USD', currency, rates) : amount),
+    [rates, currency]
+  );
+
+  // Convert an amount recorded in `from` using the rates of a given day
+  const convertAt = useCallback(
+    (amount: number, from: Currency, historical: FxRates | undefined) => {
+      const dayRates = historical ?? rates;
+      return dayRates ? convertCurrency(amount, from, displayCurrency, dayRates) : amount;
+    },
+    [rates, displayCurrency]
+  );
+
+  return {
+    currency: displayCurrency,
+    setCurrency,
+    rates,
+    fromUsd,
+    convertAt,
+    format: (amount: number, options?: Intl.NumberFormatOptions) => formatCurrency(amount, displayCurrency, options),
+    formatPrice: (amount: number) => formatPrice(amount, displayCurrency),
+    formatCompact: (amount: number) => formatCompactCurrency(amount, displayCurrency),
+  };
+};
+
+// Convert a USD price series point by point at each day's rate
+export const useHistoryInBaseCurrency = (history: PricePoint[] | undefined) => {
+  const { currency, fromUsd } = useCurrency();
+  const from = history?.length ? toDateKey(history[0].timestamp) : '';
+  const to = history?.length ? toDateKey(history[history.length - 1].timestamp) : '';
+  const { data: rateHistory } = useFxRateHistory(from, to, currency !== 'USD');
+
+  if (!history || currency === 'USD') return history;
+  return history.map(({ timestamp, price }) => {
+    const rates = rateHistory && ratesOn(rateHistory, toDateKey(timestamp));
+    return { timestamp, price: rates ? convertCurrency(price, 'USD', currency, rates) : fromUsd(price) };
+  });
+};
@@ -0,0 +1,21 @@
+import { useCallback, useState } from "react";
+
+// useState that survives reloads, stored as JSON under `key`
+export const useLocalStorage = <T>(key: string, initialValue: T) => {
+  const [value, setValue] = useState<T>(() => {
+    try {
+      const saved = localStorage.getItem(key);
+      return saved ? (JSON.parse(saved) as T) : initialValue;
+    } catch (error) {
+      console.error(`Error loading ${key}:`, error);
+      return initialValue;
+    }
+  });
+
+  const update = useCallback((next: T) => {
+    setValue(next);
+    localStorage.setItem(key, JSON.stringify(next));
+  }, [key]);
+
+  return [value, update] as const;
+};
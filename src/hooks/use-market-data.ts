@@ -0,0 +1,177 @@
+import { useCallback, useEffect, useSyncExternalStore } from "react";
+import { queryOptions, useQueries, useQuery, useQueryClient, type Query } from "@tanstack/react-query";
+import {
+  getGlobalStats,
+  getGlobalStatsHistory,
+  getQuote,
+  getMarketDataMode,
+  getMarketDataProvider,
+  getPriceStream,
+  searchAssets,
+  setMarketDataMode,
+  subscribeMarketDataMode,
+  type AssetType,
+  type HistoryRange,
+  type MarketDataMode,
+  type Quote,
+  type StreamAsset,
+} from "@/lib/market";
+
+export const QUOTE_REFRESH_INTERVAL = 30000; // 30 seconds
+
+export interface AssetRef {
+  type: AssetType;
+  id: string;
+}
+
+export const marketDataKeys = {
+  all: ['market'] as const,
+  quote: (type: AssetType, id: string) => [...marketDataKeys.all, 'quote', type, id] as const,
+  top: (type: AssetType, limit: number) => [...marketDataKeys.all, 'top', type, limit] as const,
+  history: (type: AssetType, id: string, range: HistoryRange) =>
+    [...marketDataKeys.all, 'history', type, id, range] as const,
+  search: (query: string) => [...marketDataKeys.all, 'search', query] as const,
+  metadata: (type: AssetType, id: string) => [...marketDataKeys.all, 'metadata', type, id] as const,
+  global: () => [...marketDataKeys.all, 'global'] as const,
+  globalHistory: () => [...marketDataKeys.all, 'global', 'history'] as const,
+};
+
+export const quoteKey = ({ type, id }: AssetRef) => `${type}:${id}`;
+
+// Poll only once a quote is actually stale, so quotes seeded by another list
+// push the next request back instead of triggering a duplicate one.
+const untilStale = (query: Query<Quote>) =>
+  Math.max(QUOTE_REFRESH_INTERVAL - (Date.now() - query.state.dataUpdatedAt), 1000);
+
+export const quoteQueryOptions = (type: AssetType, id: string) =>
+  queryOptions({
+    queryKey: marketDataKeys.quote(type, id),
+    queryFn: () => getQuote(type, id),
+    staleTime: QUOTE_REFRESH_INTERVAL,
+  });
+
+/**
+ * Live quotes keyed by `type:id`. Each asset is its own cached query, so the
+ * same symbol shown by several widgets is fetched once, and the quote batcher
+ * folds every asset refreshed together into a single provider call.
+ */
+export const useQuotes = (assets: AssetRef[]) =>
+  useQueries({
+    queries: assets.map(({ type, id }) => ({
+      ...quoteQueryOptions(type, id),
+      refetchInterval: untilStale,
+    })),
+    combine: (results) => ({
+      quotes: new Map(
+        results.flatMap((result, index) => (result.data ? [[quoteKey(assets[index]), result.data] as const] : []))
+      ),
+      isLoading: results.some((result) => result.isLoading),
+      error: results.find((result) => result.error)?.error ?? null,
+      retryFailed: () => results.forEach((result) => result.error && result.refetch()),
+    }),
+  });
+
+export const useTopAssets = (type: AssetType, limit: number) => {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: marketDataKeys.top(type, limit),
+    queryFn: async () => {
+      const quotes = await getMarketDataProvider(type).getTopAssets(limit);
+      // Seed the per-asset cache so holdings in this list skip their own poll
+      quotes.forEach((quote) => queryClient.setQueryData<Quote>(marketDataKeys.quote(type, quote.id), quote));
+      return quotes;
+    },
+    refetchInterval: QUOTE_REFRESH_INTERVAL,
+  });
+};
+
+export const priceHistoryQueryOptions = (type: AssetType, id: string, range: HistoryRange) =>
+  queryOptions({
+    queryKey: marketDataKeys.history(type, id, range),
+    queryFn: () => getMarketDataProvider(type).getHistory(id, range),
+  });
+
+export const usePriceHistory = (type: AssetType, id: string, range: HistoryRange) =>
+  useQuery({
+    ...priceHistoryQueryOptions(type, id, range),
+    refetchInterval: 60000, // Refetch every minute
+  });
+
+export const useAssetSearch = (query: string) =>
+  useQuery({
+    queryKey: marketDataKeys.search(query),
+    queryFn: () => searchAssets(query),
+    enabled: query.length >= 2,
+    staleTime: 300000, // 5 minutes
+  });
+
+export const useAssetMetadata = (type: AssetType, id: string) =>
+  useQuery({
+    queryKey: marketDataKeys.metadata(type, id),
+    queryFn: () => getMarketDataProvider(type).getMetadata(id),
+    staleTime: Infinity,
+  });
+
+export const useGlobalStats = () =>
+  useQuery({
+    queryKey: marketDataKeys.global(),
+    queryFn: getGlobalStats,
+    refetchInterval: 60000, // Refetch every minute
+  });
+
+export const useGlobalStatsHistory = () =>
+  useQuery({
+    queryKey: marketDataKeys.globalHistory(),
+    queryFn: getGlobalStatsHistory,
+    refetchInterval: 60000, // Refetch every minute
+  });
+
+// Current data mode plus a setter that swaps providers and drops cached market data
+export const useMarketDataMode = () => {
+  const queryClient = useQueryClient();
+  const mode = useSyncExternalStore(subscribeMarketDataMode, getMarketDataMode);
+
+  const changeMode = useCallback((next: MarketDataMode) => {
+    setMarketDataMode(next);
+    queryClient.resetQueries({ queryKey: marketDataKeys.all });
+  }, [queryClient]);
+
+  return [mode, changeMode] as const;
+};
+
+/**
+ * Push streamed ticks for `assets` straight into their cached quotes. Each
+ * tick refreshes the quote's update time, which holds back its poll; if the
+ * socket drops the ticks stop and polling resumes on its own.
+ */
+export const useStreamingQuotes = (assets: StreamAsset[]) => {
+  const queryClient = useQueryClient();
+  const [mode] = useMarketDataMode();
+  const stream = getPriceStream();
+  const assetsKey = assets.map((asset) => `${quoteKey(asset)}:${asset.symbol}`).join(',');
+
+  useEffect(() => {
+    if (!assetsKey) return;
+
+    const subscribed = assetsKey.split(',').map((key) => {
+      const [type, id, symbol] = key.split(':');
+      return { type: type as AssetType, id, symbol };
+    });
+
+    return stream.subscribe(subscribed, (tick) => {
+      queryClient.setQueryData<Quote>(marketDataKeys.quote(tick.type, tick.id), (quote) =>
+        quote && {
+          ...quote,
+          price: tick.price,
+          change: tick.change,
+          changePercent: tick.changePercent,
+          source: 'stream',
+          updatedAt: tick.timestamp,
+        }
+      );
+    });
+  }, [assetsKey, mode, stream, queryClient]);
+
+  return useSyncExternalStore(stream.subscribeStatus, stream.getStatus);
+};
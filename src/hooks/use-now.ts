@@ -0,0 +1,13 @@
+import { useEffect, useState } from "react";
+
+// Current time, re-rendering the caller every `interval` milliseconds
+export const useNow = (interval = 1000) => {
+  const [now, setNow] = useState(Date.now);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), interval);
+    return () => clearInterval(timer);
+  }, [interval]);
+
+  return now;
+};
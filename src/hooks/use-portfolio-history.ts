@@ -0,0 +1,106 @@
+import { useCallback, useEffect, useMemo, useSyncExternalStore } from "react";
+import { useQueries, type UseQueryResult } from "@tanstack/react-query";
+import { priceHistoryQueryOptions, type AssetRef } from "@/hooks/use-market-data";
+import { useCurrency, useFxRateHistory } from "@/hooks/use-currency";
+import { useAccounts, useCashMovements, useSelectedAccount, useTransactions } from "@/hooks/use-portfolio";
+import { usePortfolioTask } from "@/hooks/use-portfolio-task";
+import { toDateKey, type PricePoint } from "@/lib/market";
+import {
+  ALL_ACCOUNTS,
+  getStoredSnapshots,
+  historyRangeFor,
+  positionKey,
+  saveSnapshots,
+  settlementLeg,
+  snapshotFingerprint,
+  subscribeSnapshots,
+  type PortfolioHistoryInput,
+} from "@/lib/portfolio";
+
+// Rates from a week before the first day, so a weekend start has a close to fall back on
+const RATES_LEAD = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Daily value of the selected account, or of all of them, rebuilt from the
+ * ledger and each asset's price history. Until every history has loaded,
+ * the snapshots saved last time stand in, if the ledger has not changed.
+ * They are built in a worker, along with `positions`, the performance of
+ * each asset on its own by position key; `buildError` is what went wrong
+ * there.
+ */
+export const usePortfolioHistory = () => {
+  const transactions = useTransactions();
+  const [selectedAccountId] = useSelectedAccount();
+  const accountId = selectedAccountId === ALL_ACCOUNTS ? undefined : selectedAccountId;
+  const accounts = useAccounts();
+  const cashMovements = useCashMovements();
+  const { currency, rates } = useCurrency();
+  const stored = useSyncExternalStore(subscribeSnapshots, getStoredSnapshots);
+  const today = toDateKey(Date.now());
+
+  const start = [...transactions.map((transaction) => transaction.date), ...cashMovements.map((movement) => movement.date)]
+    .sort()[0];
+  const range = start ? historyRangeFor(start, today) : '7d';
+
+  // Every asset the ledger ever held, stablecoins that settled trades included;
+  // closed positions still count on the days they were open
+  const assets = useMemo(() => {
+    const byKey = new Map<string, AssetRef>();
+    [...transactions, ...transactions.flatMap((transaction) => settlementLeg(transaction) ?? [])]
+      .filter((transaction) => transaction.assetId)
+      .forEach((transaction) => byKey.set(positionKey(transaction), { type: transaction.type, id: transaction.assetId }));
+    return [...byKey];
+  }, [transactions]);
+
+  const combine = useCallback(
+    (results: UseQueryResult<PricePoint[]>[]) => ({
+      histories: new Map(results.flatMap((result, index) => (result.data ? [[assets[index][0], result.data] as const] : []))),
+      isPending: results.some((result) => result.isPending),
+      error: results.find((result) => result.error)?.error ?? null,
+    }),
+    [assets]
+  );
+  const { histories, isPending, error } = useQueries({
+    queries: assets.map(([, { type, id }]) => ({ ...priceHistoryQueryOptions(type, id, range), staleTime: 5 * 60 * 1000 })),
+    combine,
+  });
+  const ratesFrom = start ? toDateKey(Date.parse(start) - RATES_LEAD) : '';
+  const { data: rateHistory, isLoading: ratesLoading } = useFxRateHistory(ratesFrom, today, Boolean(start));
+
+  const scope = accountId ?? ALL_ACCOUNTS;
+  const fingerprint = useMemo(
+    () => snapshotFingerprint(
+      transactions,
+      cashMovements,
+      accounts.map(({ id, costBasisMethod, tracksCash }) => [id, costBasisMethod, tracksCash]),
+      currency
+    ),
+    [transactions, cashMovements, accounts, currency]
+  );
+
+  const isLoading = isPending || ratesLoading;
+  const input = useMemo<PortfolioHistoryInput | undefined>(
+    () => isLoading ? undefined : { transactions, cashMovements, accounts, accountId, histories, currency, rateHistory, rates, today },
+    [isLoading, transactions, cashMovements, accounts, accountId, histories, currency, rateHistory, rates, today]
+  );
+  const { result, error: buildError, isComputing } = usePortfolioTask('history', input);
+  // Only a result for this very ledger; an earlier one would be saved under the wrong fingerprint
+  const fresh = input && !isComputing ? result : undefined;
+
+  useEffect(() => {
+    if (fresh) saveSnapshots(scope, fingerprint, fresh.snapshots);
+  }, [fresh, scope, fingerprint]);
+
+  const saved = stored[scope]?.fingerprint === fingerprint ? stored[scope].snapshots : [];
+  return {
+    snapshots: fresh?.snapshots ?? saved,
+    positions: fresh?.positions,
+    rateHistory,
+    isLoading: isLoading || isComputing,
+    error,
+    buildError,
+    today,
+  };
+};
+
+export type PortfolioHistory = ReturnType<typeof usePortfolioHistory>;
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import {
+  runPortfolioTask,
+  type PortfolioTask,
+  type PortfolioTaskInput,
+  type PortfolioTaskRequest,
+  type PortfolioTaskResponse,
+  type PortfolioTaskResult,
+} from "@/lib/portfolio";
+
+// One worker for the whole app, started on first use; null once it is known not to work
+let worker: Worker | null | undefined;
+let lastId = 0;
+const pending = new Map<number, (response: PortfolioTaskResponse) => void>();
+
+const getWorker = () => {
+  if (worker !== undefined) return worker;
+  if (typeof Worker === 'undefined') return (worker = null);
+
+  const instance = new Worker(new URL('../lib/portfolio/portfolio.worker.ts', import.meta.url), { type: 'module' });
+  instance.onmessage = (event: MessageEvent<PortfolioTaskResponse>) => {
+    pending.get(event.data.id)?.(event.data);
+    pending.delete(event.data.id);
+  };
+  // A worker that fails to load or crashes answers nothing more: fail what it
+  // was working on, and run later tasks in place
+  instance.onerror = (event) => {
+    console.error('Portfolio worker failed:', event);
+    const error = event.message || 'The background worker stopped';
+    pending.forEach((settle, id) => settle({ id, error }));
+    pending.clear();
+    instance.terminate();
+    worker = null;
+  };
+  return (worker = instance);
+};
+
+interface TaskState<T extends PortfolioTask> {
+  input: PortfolioTaskInput<T>;
+  result?: PortfolioTaskResult<T>;
+  error?: Error;
+}
+
+/**
+ * Runs a portfolio task on `input` in a web worker, so long histories don't
+ * hold up the dashboard. `result` is the latest one finished, which may be
+ * for an earlier input while `isComputing`; answers to superseded inputs are
+ * dropped. Where workers are not available the task runs in place.
+ */
+export const usePortfolioTask = <T extends PortfolioTask>(task: T, input: PortfolioTaskInput<T> | undefined) => {
+  const [state, setState] = useState<TaskState<T>>();
+
+  useEffect(() => {
+    if (!input) return;
+
+    const instance = getWorker();
+    if (!instance) {
+      try {
+        setState({ input, result: runPortfolioTask(task, input) });
+      } catch (error) {
+        setState({ input, error: error instanceof Error ? error : new Error(String(error)) });
+      }
+      return;
+    }
+
+    const id = ++lastId;
+    pending.set(id, ({ result, error }) =>
+      setState({ input, result: result as PortfolioTaskResult<T>, error: error ? new Error(error) : undefined }));
+    instance.postMessage({ id, task, input } satisfies PortfolioTaskRequest);
+    return () => {
+      pending.delete(id);
+    };
+  }, [task, input]);
+
+  return {
+    result: state?.result,
+    error: state?.error,
+    isComputing: Boolean(input) && state?.input !== input,
+  };
+};
@@ -0,0 +1,75 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+import { useCurrency, useHistoricalFxRates } from "@/hooks/use-currency";
+import {
+  ALL_ACCOUNTS,
+  combinePositions,
+  derivePositions,
+  getAccounts,
+  getAllocationSettings,
+  getCashMovements,
+  getSelectedAccountId,
+  getTransactions,
+  methodForAccounts,
+  setSelectedAccountId,
+  subscribeAccounts,
+  subscribeAllocationSettings,
+  subscribeCashMovements,
+  subscribeTransactions,
+  updateAllocationSettings,
+  type ToBaseCurrency,
+} from "@/lib/portfolio";
+
+export const useTransactions = () => useSyncExternalStore(subscribeTransactions, getTransactions);
+
+export const useAccounts = () => useSyncExternalStore(subscribeAccounts, getAccounts);
+
+export const useCashMovements = () => useSyncExternalStore(subscribeCashMovements, getCashMovements);
+
+export const useAllocationSettings = () => {
+  const settings = useSyncExternalStore(subscribeAllocationSettings, getAllocationSettings);
+  return [settings, updateAllocationSettings] as const;
+};
+
+/** The selected account's id, or ALL_ACCOUNTS. */
+export const useSelectedAccount = () => {
+  const accountId = useSyncExternalStore(subscribeAccounts, getSelectedAccountId);
+  return [accountId, setSelectedAccountId] as const;
+};
+
+/**
+ * Base-currency converter for the ledger: each amount converts at the rate
+ * on the day it was paid, so exchange-rate moves don't show up as gains.
+ */
+export const useToBaseCurrency = (dates: string[]): ToBaseCurrency => {
+  const { convertAt } = useCurrency();
+  const historicalRates = useHistoricalFxRates(dates);
+  return useCallback(
+    (amount, currency, date) => convertAt(amount, currency, historicalRates.get(date)),
+    [convertAt, historicalRates]
+  );
+};
+
+/**
+ * Positions of the selected account, or of all accounts combined, derived
+ * from the ledger with cost basis in the base currency. `byAccount` keeps
+ * each account's positions apart. `accountId` is undefined for the
+ * combined view.
+ */
+export const usePositions = () => {
+  const transactions = useTransactions();
+  const accounts = useAccounts();
+  const [selectedAccountId] = useSelectedAccount();
+  const dates = useMemo(() => [...new Set(transactions.map((transaction) => transaction.date))], [transactions]);
+  const toBase = useToBaseCurrency(dates);
+
+  const methodFor = useMemo(() => methodForAccounts(accounts), [accounts]);
+  const accountId = selectedAccountId === ALL_ACCOUNTS ? undefined : selectedAccountId;
+
+  const byAccount = useMemo(() => {
+    const derived = derivePositions(transactions, toBase, methodFor);
+    return accountId ? derived.filter((position) => position.accountId === accountId) : derived;
+  }, [transactions, toBase, methodFor, accountId]);
+  const positions = useMemo(() => (accountId ? byAccount : combinePositions(byAccount)), [byAccount, accountId]);
+
+  return { transactions, positions, byAccount, toBase, methodFor, accountId };
+};
@@ -0,0 +1,21 @@
+import { useEffect, useRef, useState } from "react";
+
+const FLASH_DURATION = 800;
+
+// Direction of the latest price move, cleared shortly after it happens
+export const usePriceFlash = (price?: number) => {
+  const previous = useRef(price);
+  const [flash, setFlash] = useState<'up' | 'down' | null>(null);
+
+  useEffect(() => {
+    const last = previous.current;
+    previous.current = price;
+    if (price === undefined || last === undefined || price === last) return;
+
+    setFlash(price > last ? 'up' : 'down');
+    const timeout = setTimeout(() => setFlash(null), FLASH_DURATION);
+    return () => clearTimeout(timeout);
+  }, [price]);
+
+  return flash;
+};
@@ -0,0 +1,25 @@
+import type { Currency } from "@/lib/market";
+
+const STORAGE_KEY = 'baseCurrency';
+
+const listeners = new Set<() => void>();
+
+export const isCurrency = (value: unknown): value is Currency =>
+  value === 'USD' || value === 'EUR' || value === 'GBP' || value === 'JPY';
+
+export const getBaseCurrency = (): Currency => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  return isCurrency(saved) ? saved : 'USD';
+};
+
+export const setBaseCurrency = (currency: Currency) => {
+  localStorage.setItem(STORAGE_KEY, currency);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeBaseCurrency = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
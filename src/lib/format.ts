@@ -0,0 +1,53 @@
+import type { Currency } from "@/lib/market";
+
+const compactUnits: [number, string][] = [
+  [1e12, 'T'],
+  [1e9, 'B'],
+  [1e6, 'M'],
+  [1e3, 'K'],
+];
+
+const symbolFormatters = new Map<Currency, Intl.NumberFormat>();
+
+// "$", "€", "£" or "¥" for a currency
+export const currencySymbol = (currency: Currency) => {
+  if (!symbolFormatters.has(currency)) {
+    symbolFormatters.set(currency, new Intl.NumberFormat('en-US', { style: 'currency', currency }));
+  }
+  return symbolFormatters.get(currency).formatToParts(0).find((part) => part.type === 'currency')?.value ?? currency;
+};
+
+// 1234.5 -> "$1,234.50"; yen has no minor unit so it is shown without decimals
+export const formatCurrency = (value: number, currency: Currency = 'USD', options: Intl.NumberFormatOptions = {}) =>
+  value.toLocaleString('en-US', {
+    style: 'currency',
+    currency,
+    ...(currency === 'JPY' ? { maximumFractionDigits: 0 } : {}),
+    ...options,
+  });
+
+// Prices keep their precision below 1: "$0.2214", "$185.90", "$119,051.00"
+export const formatPrice = (value: number, currency: Currency = 'USD') => {
+  const digits = currency === 'JPY' ? 0 : 2;
+  return formatCurrency(value, currency, {
+    minimumFractionDigits: digits,
+    maximumFractionDigits: Math.abs(value) < 1 ? 6 : digits,
+  });
+};
+
+// 2_100_000_000_000 -> "$2.1T"
+export const formatCompactCurrency = (value: number, currency: Currency = 'USD', digits = 1) => {
+  const symbol = currencySymbol(currency);
+  for (const [size, unit] of compactUnits) {
+    if (Math.abs(value) >= size) {
+      return `${symbol}${(value / size).toFixed(digits)}${unit}`;
+    }
+  }
+  return `${symbol}${value.toFixed(2)}`;
+};
+
+// 0.1234 -> "+12.34%"; undefined (nothing to measure) -> "—"
+export const formatPercent = (fraction: number | undefined, digits = 2) =>
+  fraction === undefined || !Number.isFinite(fraction)
+    ? '—'
+    : `${fraction > 0 ? '+' : ''}${(fraction * 100).toFixed(digits)}%`;
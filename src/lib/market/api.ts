@@ -0,0 +1,117 @@
+import { z } from "zod";
+import { parseResponse, ProviderResponseError } from "./validation";
+import type {
+  AssetMetadata,
+  AssetType,
+  GlobalMarketStats,
+  MarketDataProvider,
+  PricePoint,
+  Quote,
+  SearchResult,
+} from "./types";
+
+// Served by server/api.ts; the Vite dev server proxies it under the app's origin
+const DEFAULT_API_URL = '/api';
+
+// These mirror the domain types in ./types. Results are typed with those
+// rather than inferred, since zod makes every field optional when
+// strictNullChecks is off.
+
+const quoteSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  type: z.enum(['stock', 'crypto']),
+  price: z.number(),
+  change: z.number(),
+  changePercent: z.number(),
+  volume: z.number(),
+  marketCap: z.number().optional(),
+  image: z.string().optional(),
+  source: z.enum(['coingecko', 'yahoo', 'fixture', 'stream', 'fallback']),
+  updatedAt: z.number(),
+});
+
+const pricePointSchema = z.object({ timestamp: z.number(), price: z.number() });
+
+const searchResultSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  type: z.enum(['stock', 'crypto']),
+  price: z.number().optional(),
+  exchange: z.string().optional(),
+  rank: z.number().optional(),
+});
+
+const metadataSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  type: z.enum(['stock', 'crypto']),
+  image: z.string().optional(),
+  exchange: z.string().optional(),
+  currency: z.string().optional(),
+});
+
+const globalStatsSchema = z.object({
+  totalMarketCap: z.number(),
+  totalVolume: z.number(),
+  marketCapChangePercent24h: z.number(),
+  dominance: z.record(z.number()),
+  activeCryptocurrencies: z.number(),
+  updatedAt: z.number(),
+});
+
+// Error body; provider schema failures pass along the offending field
+const errorSchema = z.object({
+  error: z.string(),
+  provider: z.string().optional(),
+  endpoint: z.string().optional(),
+  field: z.string().optional(),
+  detail: z.string().optional(),
+});
+
+/**
+ * Market data through the local API server, which reaches the real provider
+ * for `assetType` on our behalf and answers with dashboard types.
+ */
+export const createApiProvider = (assetType: AssetType, baseUrl = DEFAULT_API_URL): MarketDataProvider => {
+  const get = async <T>(endpoint: string, params: Record<string, string>, schema: z.ZodTypeAny): Promise<T> => {
+    const query = new URLSearchParams({ type: assetType, ...params });
+    const response = await fetch(`${baseUrl}${endpoint}?${query}`);
+    const body = await response.json().catch(() => undefined);
+
+    if (!response.ok) {
+      const failure = errorSchema.safeParse(body);
+      if (!failure.success) {
+        throw new Error(`Market data API request failed (${response.status}): ${endpoint}`);
+      }
+      const { error, provider, endpoint: upstream, field, detail } = failure.data;
+      throw field ? new ProviderResponseError(provider, upstream, field, detail) : new Error(error);
+    }
+    return parseResponse('Market data API', endpoint, schema, body);
+  };
+
+  return {
+    name: assetType === 'crypto' ? 'CoinGecko (via API server)' : 'Yahoo Finance (via API server)',
+    assetType,
+
+    async getQuotes(ids) {
+      if (ids.length === 0) return [];
+      return get<Quote[]>('/quotes', { ids: ids.join(',') }, z.array(quoteSchema));
+    },
+
+    getTopAssets: (limit) => get<Quote[]>('/top', { limit: String(limit) }, z.array(quoteSchema)),
+
+    getHistory: (id, range) => get<PricePoint[]>('/history', { id, range }, z.array(pricePointSchema)),
+
+    search: (query) => get<SearchResult[]>('/search', { q: query }, z.array(searchResultSchema)),
+
+    getMetadata: (id) => get<AssetMetadata>('/metadata', { id }, metadataSchema),
+
+    ...(assetType === 'crypto' && {
+      getGlobalStats: () => get<GlobalMarketStats>('/global', {}, globalStatsSchema),
+    }),
+  };
+};
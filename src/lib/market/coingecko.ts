@@ -0,0 +1,175 @@
+import { z } from "zod";
+import { parseResponse } from "./validation";
+import type {
+  AssetMetadata,
+  GlobalMarketStats,
+  HistoryRange,
+  MarketDataProvider,
+  PricePoint,
+  Quote,
+  RequestScheduler,
+  SearchResult,
+} from "./types";
+
+const COINGECKO_API = 'https://api.coingecko.com/api/v3';
+
+const marketSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  image: z.string().nullish(),
+  current_price: z.number(),
+  price_change_24h: z.number().nullish(),
+  price_change_percentage_24h: z.number().nullish(),
+  total_volume: z.number().nullish(),
+  market_cap: z.number().nullish(),
+});
+
+const marketsSchema = z.array(marketSchema);
+
+const marketChartSchema = z.object({
+  prices: z.array(z.tuple([z.number(), z.number()])),
+});
+
+const searchSchema = z.object({
+  coins: z
+    .array(
+      z.object({
+        id: z.string(),
+        symbol: z.string(),
+        name: z.string(),
+        market_cap_rank: z.number().nullish(),
+      })
+    )
+    .optional(),
+});
+
+const coinSchema = z.object({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  image: z.object({ large: z.string().optional() }).optional(),
+});
+
+const globalSchema = z.object({
+  data: z.object({
+    active_cryptocurrencies: z.number(),
+    total_market_cap: z.object({ usd: z.number() }).catchall(z.number()),
+    total_volume: z.object({ usd: z.number() }).catchall(z.number()),
+    market_cap_percentage: z.record(z.number()),
+    market_cap_change_percentage_24h_usd: z.number(),
+    updated_at: z.number(),
+  }),
+});
+
+type CoinGeckoMarket = z.infer<typeof marketSchema>;
+
+const historyDays: Record<HistoryRange, string> = {
+  '1d': '1',
+  '7d': '7',
+  '30d': '30',
+  '180d': '180',
+  '1y': '365',
+  'max': 'max',
+  // CoinGecko answers anything over 90 days with daily points
+  'all': 'max',
+};
+
+const toQuote = (market: CoinGeckoMarket): Quote => ({
+  id: market.id,
+  symbol: market.symbol.toUpperCase(),
+  name: market.name,
+  type: 'crypto',
+  price: market.current_price,
+  change: market.price_change_24h ?? 0,
+  changePercent: market.price_change_percentage_24h ?? 0,
+  volume: market.total_volume ?? 0,
+  marketCap: market.market_cap ?? undefined,
+  image: market.image ?? undefined,
+  source: 'coingecko',
+  updatedAt: Date.now(),
+});
+
+// `headers` carries the API key when this runs behind the local API server
+export const createCoinGeckoProvider = (
+  baseUrl = COINGECKO_API,
+  headers: Record<string, string> = {},
+  schedule: RequestScheduler = (request) => request()
+): MarketDataProvider => {
+  const get = async <T extends z.ZodTypeAny>(path: string, schema: T): Promise<z.output<T>> => {
+    const response = await schedule(() => fetch(`${baseUrl}${path}`, { headers }));
+    if (!response.ok) {
+      throw new Error(`CoinGecko request failed (${response.status}): ${path}`);
+    }
+    return parseResponse('CoinGecko', path.split('?')[0], schema, await response.json());
+  };
+
+  return {
+    name: 'CoinGecko',
+    assetType: 'crypto',
+
+    async getQuotes(ids) {
+      if (ids.length === 0) return [];
+      const markets = await get(
+        `/coins/markets?vs_currency=usd&ids=${ids.map(encodeURIComponent).join(',')}&per_page=250&sparkline=false`,
+        marketsSchema
+      );
+      return markets.map(toQuote);
+    },
+
+    async getTopAssets(limit) {
+      const markets = await get(
+        `/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&page=1&sparkline=false`,
+        marketsSchema
+      );
+      return markets.map(toQuote);
+    },
+
+    async getHistory(id, range): Promise<PricePoint[]> {
+      const interval = range === '1d' ? '' : '&interval=daily';
+      const data = await get(
+        `/coins/${encodeURIComponent(id)}/market_chart?vs_currency=usd&days=${historyDays[range]}${interval}`,
+        marketChartSchema
+      );
+      return data.prices.map(([timestamp, price]) => ({ timestamp, price }));
+    },
+
+    async search(query): Promise<SearchResult[]> {
+      const data = await get(`/search?query=${encodeURIComponent(query)}`, searchSchema);
+      return (data.coins ?? []).map((coin) => ({
+        id: coin.id,
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        type: 'crypto' as const,
+        rank: coin.market_cap_rank ?? undefined,
+      }));
+    },
+
+    async getMetadata(id): Promise<AssetMetadata> {
+      const coin = await get(
+        `/coins/${encodeURIComponent(id)}?localization=false&tickers=false&market_data=false&community_data=false&developer_data=false`,
+        coinSchema
+      );
+      return {
+        id: coin.id,
+        symbol: coin.symbol.toUpperCase(),
+        name: coin.name,
+        type: 'crypto',
+        image: coin.image?.large,
+        currency: 'USD',
+      };
+    },
+
+    async getGlobalStats(): Promise<GlobalMarketStats> {
+      const { data } = await get('/global', globalSchema);
+      return {
+        totalMarketCap: data.total_market_cap.usd,
+        totalVolume: data.total_volume.usd,
+        marketCapChangePercent24h: data.market_cap_change_percentage_24h_usd,
+        dominance: data.market_cap_percentage,
+        activeCryptocurrencies: data.active_cryptocurrencies,
+        updatedAt: data.updated_at * 1000,
+      };
+    },
+  };
+};
@@ -0,0 +1,169 @@
+import quoteFixtures from "./fixtures/quotes.json";
+import globalFixture from "./fixtures/global.json";
+import { walkFactor, walkHistory } from "./random-walk";
+import type {
+  AssetMetadata,
+  AssetType,
+  GlobalMarketStats,
+  HistoryRange,
+  MarketDataProvider,
+  PricePoint,
+  Quote,
+  SearchResult,
+} from "./types";
+
+type QuoteFixture = Omit<Quote, 'source' | 'updatedAt'> & { exchange?: string };
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Point spacing and count for each synthesized history range
+const historyShape: Record<HistoryRange, { step: number; count: number }> = {
+  '1d': { step: 15 * 60 * 1000, count: 96 },
+  '7d': { step: 60 * 60 * 1000, count: 168 },
+  '30d': { step: DAY, count: 30 },
+  '180d': { step: DAY, count: 180 },
+  '1y': { step: DAY, count: 365 },
+  'max': { step: 7 * DAY, count: 520 },
+  'all': { step: DAY, count: 10 * 365 },
+};
+
+const tickVolatility: Record<AssetType, number> = { crypto: 0.002, stock: 0.0008 };
+const dailyVolatility: Record<AssetType, number> = { crypto: 0.035, stock: 0.015 };
+
+const fixtures = quoteFixtures as QuoteFixture[];
+
+const simulate = (fixture: QuoteFixture, now = Date.now()): Quote => {
+  const { exchange, ...quote } = fixture;
+  const previousClose = quote.price - quote.change;
+  const price = quote.price * walkFactor(quote.id, tickVolatility[quote.type], now);
+  const change = price - previousClose;
+  return {
+    ...quote,
+    price,
+    change,
+    changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+    marketCap: quote.marketCap && quote.marketCap * (price / quote.price),
+    source: 'fixture',
+    updatedAt: now,
+  };
+};
+
+const GLOBAL_HISTORY_STEP = 30 * 60 * 1000;
+
+const simulateGlobalStats = (now = Date.now()): GlobalMarketStats => {
+  const factor = walkFactor('global', tickVolatility.crypto, now);
+  const volumeFactor = walkFactor('global:volume', tickVolatility.crypto * 2, now);
+  const dominanceFactor = walkFactor('global:dominance', tickVolatility.crypto / 2, now);
+  return {
+    ...globalFixture,
+    totalMarketCap: globalFixture.totalMarketCap * factor,
+    totalVolume: globalFixture.totalVolume * volumeFactor,
+    marketCapChangePercent24h: globalFixture.marketCapChangePercent24h + (factor - 1) * 100,
+    dominance: {
+      btc: globalFixture.dominance.btc * dominanceFactor,
+      eth: globalFixture.dominance.eth / dominanceFactor,
+    },
+    updatedAt: now,
+  };
+};
+
+/**
+ * Offline provider backed by the recorded fixtures in ./fixtures. Quotes follow
+ * a seeded random walk and history is synthesized to end at the live price.
+ */
+export const createFixtureProvider = (assetType: AssetType): MarketDataProvider => {
+  const catalog = fixtures.filter((fixture) => fixture.type === assetType);
+
+  const find = (id: string) => {
+    const key = id.toLowerCase();
+    return catalog.find((fixture) => fixture.id.toLowerCase() === key);
+  };
+
+  const getFixture = (id: string) => {
+    const fixture = find(id);
+    if (!fixture) {
+      throw new Error(`No fixture data for ${id}`);
+    }
+    return fixture;
+  };
+
+  return {
+    name: `Fixtures (${assetType})`,
+    assetType,
+
+    async getQuotes(ids) {
+      return ids.flatMap((id) => {
+        const fixture = find(id);
+        return fixture ? [simulate(fixture)] : [];
+      });
+    },
+
+    async getTopAssets(limit) {
+      const quotes = catalog.map((fixture) => simulate(fixture));
+      if (assetType === 'crypto') {
+        quotes.sort((a, b) => (b.marketCap ?? 0) - (a.marketCap ?? 0));
+      }
+      return quotes.slice(0, limit);
+    },
+
+    async getHistory(id, range): Promise<PricePoint[]> {
+      const now = Date.now();
+      const { step, count } = historyShape[range];
+      const { price } = simulate(getFixture(id), now);
+      return walkHistory(id, price, now, step, count, dailyVolatility[assetType] * Math.sqrt(step / DAY));
+    },
+
+    async search(query): Promise<SearchResult[]> {
+      const term = query.toLowerCase();
+      return catalog
+        .filter((fixture) =>
+          fixture.symbol.toLowerCase().includes(term) || fixture.name.toLowerCase().includes(term)
+        )
+        .map((fixture) => ({
+          id: fixture.id,
+          symbol: fixture.symbol,
+          name: fixture.name,
+          type: fixture.type,
+          price: simulate(fixture).price,
+          exchange: fixture.exchange,
+          rank: catalog.indexOf(fixture) + 1,
+        }));
+    },
+
+    async getMetadata(id): Promise<AssetMetadata> {
+      const fixture = getFixture(id);
+      return {
+        id: fixture.id,
+        symbol: fixture.symbol,
+        name: fixture.name,
+        type: fixture.type,
+        exchange: fixture.exchange,
+        currency: 'USD',
+      };
+    },
+
+    getGlobalStats: async () => simulateGlobalStats(),
+
+    async getGlobalHistory(): Promise<GlobalMarketStats[]> {
+      const now = Date.now();
+      const current = simulateGlobalStats(now);
+      const step = GLOBAL_HISTORY_STEP;
+      const count = DAY / step + 1;
+      const series = (metric: string, end: number, volatility: number) =>
+        walkHistory(`global:${metric}`, end, now, step, count, volatility).map((point) => point.price);
+
+      const marketCaps = series('marketCap', current.totalMarketCap, 0.004);
+      const volumes = series('volume', current.totalVolume, 0.02);
+      const btc = series('btc', current.dominance.btc, 0.002);
+      const eth = series('eth', current.dominance.eth, 0.003);
+
+      return marketCaps.map((totalMarketCap, index) => ({
+        ...current,
+        totalMarketCap,
+        totalVolume: volumes[index],
+        dominance: { ...current.dominance, btc: btc[index], eth: eth[index] },
+        updatedAt: now - (count - 1 - index) * step,
+      }));
+    },
+  };
+};
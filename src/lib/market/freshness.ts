@@ -0,0 +1,27 @@
+import type { Quote, QuoteSource } from "./types";
+
+// Prices older than this are flagged; polling refreshes every 30 seconds, so
+// this means several refreshes in a row have failed.
+export const STALE_AFTER = 2 * 60 * 1000;
+
+export type PriceStatus = 'live' | 'stale' | 'fallback' | 'missing';
+
+export const sourceLabels: Record<QuoteSource, string> = {
+  coingecko: 'CoinGecko',
+  yahoo: 'Yahoo Finance',
+  fixture: 'Offline fixtures',
+  stream: 'Live stream',
+  fallback: 'Fallback data',
+};
+
+export const getPriceStatus = (
+  quote: Pick<Quote, 'source' | 'updatedAt'> | undefined,
+  now = Date.now()
+): PriceStatus => {
+  if (!quote) return 'missing';
+  if (quote.source === 'fallback') return 'fallback';
+  return now - quote.updatedAt > STALE_AFTER ? 'stale' : 'live';
+};
+
+// Only prices from a real source count towards totals
+export const isTrustworthy = (status: PriceStatus) => status === 'live' || status === 'stale';
@@ -0,0 +1,106 @@
+import { z } from "zod";
+import fxFixture from "./fixtures/fx.json";
+import { walkHistory } from "./random-walk";
+import { parseResponse } from "./validation";
+import type { Currency, FxProvider, FxRates } from "./types";
+
+const FRANKFURTER_API = 'https://api.frankfurter.app';
+
+export const CURRENCIES: Currency[] = ['USD', 'EUR', 'GBP', 'JPY'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const toDateKey = (date: Date | number) => new Date(date).toISOString().slice(0, 10);
+
+const ratesSchema = z.object({ EUR: z.number(), GBP: z.number(), JPY: z.number() });
+const latestSchema = z.object({ rates: ratesSchema });
+const rangeSchema = z.object({ rates: z.record(ratesSchema) });
+
+const withUsd = (rates: Partial<FxRates>): FxRates => ({ ...(fxFixture as FxRates), ...rates, USD: 1 });
+
+// ECB reference rates via Frankfurter, which covers every currency we offer
+export const createFrankfurterProvider = (baseUrl = FRANKFURTER_API): FxProvider => {
+  const get = async <T extends z.ZodTypeAny>(path: string, schema: T): Promise<z.output<T>> => {
+    const response = await fetch(`${baseUrl}${path}`);
+    if (!response.ok) {
+      throw new Error(`Frankfurter request failed (${response.status}): ${path}`);
+    }
+    return parseResponse('Frankfurter', path.split('?')[0], schema, await response.json());
+  };
+
+  const symbols = CURRENCIES.filter((currency) => currency !== 'USD').join(',');
+
+  return {
+    name: 'Frankfurter',
+
+    async getRates() {
+      const data = await get(`/latest?from=USD&to=${symbols}`, latestSchema);
+      return withUsd(data.rates);
+    },
+
+    async getHistoricalRates(date) {
+      const data = await get(`/${date}?from=USD&to=${symbols}`, latestSchema);
+      return withUsd(data.rates);
+    },
+
+    async getRateHistory(from, to) {
+      const data = await get(`/${from}..${to}?from=USD&to=${symbols}`, rangeSchema);
+      return Object.fromEntries(Object.entries(data.rates).map(([date, rates]) => [date, withUsd(rates)]));
+    },
+  };
+};
+
+// Five years of daily rates walking back from the recorded fixture rates
+const FIXTURE_DAYS = 5 * 365;
+let fixtureHistory: Record<string, FxRates> | null = null;
+
+const getFixtureHistory = () => {
+  if (fixtureHistory) return fixtureHistory;
+
+  const today = new Date(toDateKey(Date.now())).getTime();
+  const series = CURRENCIES.map((currency) =>
+    currency === 'USD'
+      ? []
+      : walkHistory(`fx:${currency}`, (fxFixture as FxRates)[currency], today, DAY, FIXTURE_DAYS, 0.004)
+  );
+
+  fixtureHistory = {};
+  for (let i = 0; i < FIXTURE_DAYS; i++) {
+    const rates = Object.fromEntries(
+      CURRENCIES.map((currency, index) => [currency, currency === 'USD' ? 1 : series[index][i].price])
+    ) as FxRates;
+    fixtureHistory[toDateKey(today - (FIXTURE_DAYS - 1 - i) * DAY)] = rates;
+  }
+  return fixtureHistory;
+};
+
+export const createFixtureFxProvider = (): FxProvider => ({
+  name: 'Fixtures (fx)',
+
+  getRates: async () => fxFixture as FxRates,
+
+  async getHistoricalRates(date) {
+    const history = getFixtureHistory();
+    const dates = Object.keys(history);
+    return history[date] ?? history[dates[date < dates[0] ? 0 : dates.length - 1]];
+  },
+
+  async getRateHistory(from, to) {
+    return Object.fromEntries(
+      Object.entries(getFixtureHistory()).filter(([date]) => date >= from && date <= to)
+    );
+  },
+});
+
+export const frankfurterProvider = createFrankfurterProvider();
+
+/** Convert between currencies given rates expressed per 1 USD. */
+export const convertCurrency = (amount: number, from: Currency, to: Currency, rates: FxRates) =>
+  from === to ? amount : (amount / rates[from]) * rates[to];
+
+/** Rates for `date` from a daily series, using the closest earlier day for weekends and holidays. */
+export const ratesOn = (history: Record<string, FxRates>, date: string): FxRates | undefined => {
+  if (history[date]) return history[date];
+  const earlier = Object.keys(history).filter((key) => key <= date).sort();
+  return history[earlier[earlier.length - 1]];
+};
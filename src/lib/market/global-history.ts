@@ -0,0 +1,25 @@
+import type { GlobalMarketStats } from "./types";
+
+const STORAGE_KEY = 'globalStatsHistory';
+const KEEP_FOR = 48 * 60 * 60 * 1000;
+const MIN_SPACING = 5 * 60 * 1000;
+
+// CoinGecko's free API has no history for global metrics, so we keep our own
+// samples of every fetch to draw sparklines and compare against 24h ago.
+export const loadGlobalStatsHistory = (): GlobalMarketStats[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+  } catch (error) {
+    console.error('Error loading global stats history:', error);
+    return [];
+  }
+};
+
+export const recordGlobalStats = (stats: GlobalMarketStats) => {
+  const history = loadGlobalStatsHistory();
+  const last = history[history.length - 1];
+  if (last && stats.updatedAt - last.updatedAt < MIN_SPACING) return;
+
+  const recent = [...history, stats].filter((sample) => stats.updatedAt - sample.updatedAt <= KEEP_FOR);
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(recent));
+};
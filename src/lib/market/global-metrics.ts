@@ -0,0 +1,85 @@
+import { formatCompactCurrency } from "@/lib/format";
+import type { Currency, GlobalMarketStats } from "./types";
+
+export type GlobalMetric = 'totalMarketCap' | 'totalVolume' | 'btcDominance' | 'ethDominance' | 'activeCryptocurrencies';
+
+interface GlobalMetricDefinition {
+  label: string;
+  /** Whether the value is a USD amount that should follow the base currency. */
+  isMoney: boolean;
+  value: (stats: GlobalMarketStats) => number;
+  format: (value: number, currency: Currency) => string;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const globalMetrics: Record<GlobalMetric, GlobalMetricDefinition> = {
+  totalMarketCap: {
+    label: 'Market Cap',
+    isMoney: true,
+    value: (stats) => stats.totalMarketCap,
+    format: (value, currency) => formatCompactCurrency(value, currency),
+  },
+  totalVolume: {
+    label: '24h Volume',
+    isMoney: true,
+    value: (stats) => stats.totalVolume,
+    format: (value, currency) => formatCompactCurrency(value, currency),
+  },
+  btcDominance: {
+    label: 'BTC Dominance',
+    isMoney: false,
+    value: (stats) => stats.dominance.btc ?? 0,
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  ethDominance: {
+    label: 'ETH Dominance',
+    isMoney: false,
+    value: (stats) => stats.dominance.eth ?? 0,
+    format: (value) => `${value.toFixed(1)}%`,
+  },
+  activeCryptocurrencies: {
+    label: 'Active Coins',
+    isMoney: false,
+    value: (stats) => stats.activeCryptocurrencies,
+    format: (value) => Math.round(value).toLocaleString(),
+  },
+};
+
+export const DEFAULT_GLOBAL_METRICS: GlobalMetric[] = ['totalMarketCap', 'totalVolume', 'btcDominance'];
+
+export interface MetricChange {
+  percent: number;
+  /** Time of the sample the change is measured from. */
+  since: number;
+}
+
+/**
+ * Change of `metric` versus 24h ago. Market cap uses the provider's own 24h
+ * figure; everything else compares against the sample closest to a day old,
+ * or the oldest one available while history is still short.
+ */
+export const getMetricChange = (
+  metric: GlobalMetric,
+  stats: GlobalMarketStats,
+  history: GlobalMarketStats[]
+): MetricChange | undefined => {
+  if (metric === 'totalMarketCap') {
+    return { percent: stats.marketCapChangePercent24h, since: stats.updatedAt - DAY };
+  }
+
+  const target = stats.updatedAt - DAY;
+  const base = history
+    .filter((sample) => sample.updatedAt < stats.updatedAt)
+    .reduce<GlobalMarketStats | undefined>(
+      (closest, sample) =>
+        !closest || Math.abs(sample.updatedAt - target) < Math.abs(closest.updatedAt - target) ? sample : closest,
+      undefined
+    );
+  if (!base) return undefined;
+
+  const { value } = globalMetrics[metric];
+  const previous = value(base);
+  if (!previous) return undefined;
+  return { percent: ((value(stats) - previous) / previous) * 100, since: base.updatedAt };
+};
@@ -0,0 +1,145 @@
+import { createApiProvider } from "./api";
+import { createFixtureProvider } from "./fixture";
+import { createFixtureFxProvider, frankfurterProvider } from "./fx";
+import { getMarketDataMode, saveMarketDataMode, type MarketDataMode } from "./mode";
+import { createQuoteBatcher } from "./quote-batcher";
+import { loadGlobalStatsHistory, recordGlobalStats } from "./global-history";
+import { createPriceStream, type PriceStream } from "./stream";
+import { getListedAssetId, getRegisteredAssetId, rankSymbolMatches, registerAsset } from "./symbols";
+import type { AssetType, FxProvider, GlobalMarketStats, MarketDataProvider, SearchResult } from "./types";
+
+export * from "./types";
+export * from "./freshness";
+export * from "./global-metrics";
+export { POPULAR_STOCKS } from "./yahoo";
+export { CURRENCIES, convertCurrency, ratesOn, toDateKey } from "./fx";
+export { getMarketDataMode, subscribeMarketDataMode, type MarketDataMode } from "./mode";
+export type { PriceTick, StreamAsset, StreamStatus } from "./stream";
+export { getRegisteredAssetId, rankSymbolMatches, registerAsset } from "./symbols";
+export { ProviderHttpError, ProviderResponseError, formatPath } from "./validation";
+
+// Live data goes through the local API server (server/api.ts), which talks to
+// CoinGecko and Yahoo Finance so the browser never has to
+const createProviders = (mode: MarketDataMode): Record<AssetType, MarketDataProvider> => {
+  if (mode === 'fixture') {
+    return { stock: createFixtureProvider('stock'), crypto: createFixtureProvider('crypto') };
+  }
+  const apiUrl = import.meta.env.VITE_API_URL || undefined;
+  return { stock: createApiProvider('stock', apiUrl), crypto: createApiProvider('crypto', apiUrl) };
+};
+
+let providers = createProviders(getMarketDataMode());
+
+const createFxProvider = (mode: MarketDataMode): FxProvider =>
+  mode === 'fixture' ? createFixtureFxProvider() : frankfurterProvider;
+
+let fxProvider = createFxProvider(getMarketDataMode());
+
+export const getFxProvider = (): FxProvider => fxProvider;
+
+export const getMarketDataProvider = (type: AssetType): MarketDataProvider => providers[type];
+
+// Swap the data source for an asset class, e.g. to point tests at a stub.
+export const setMarketDataProvider = (type: AssetType, provider: MarketDataProvider) => {
+  providers[type] = provider;
+};
+
+const quoteBatcher = createQuoteBatcher(getMarketDataProvider);
+
+// Single quote, batched with every other quote requested in the same tick
+export const getQuote = (type: AssetType, id: string) => quoteBatcher.load(type, id);
+
+// Switch every asset class between live APIs and recorded fixtures
+export const setMarketDataMode = (mode: MarketDataMode) => {
+  providers = createProviders(mode);
+  fxProvider = createFxProvider(mode);
+  saveMarketDataMode(mode);
+};
+
+const BINANCE_STREAM_URL = 'wss://stream.binance.com:9443/stream';
+const LOCAL_STREAM_URL = 'ws://localhost:8090';
+
+let priceStream: { url: string; stream: PriceStream } | null = null;
+
+/**
+ * Ticker stream for the current data mode: Binance for live crypto, or the
+ * local replay server (npm run stream:dev) for fixtures. VITE_PRICE_STREAM_URL
+ * overrides both and is assumed to carry stocks too.
+ */
+export const getPriceStream = (): PriceStream => {
+  const override = import.meta.env.VITE_PRICE_STREAM_URL;
+  const url = override || (getMarketDataMode() === 'fixture' ? LOCAL_STREAM_URL : BINANCE_STREAM_URL);
+
+  if (priceStream?.url !== url) {
+    priceStream?.stream.close();
+    priceStream = {
+      url,
+      stream: createPriceStream({ url, streamsStocks: url !== BINANCE_STREAM_URL, listedCoinFor: getListedAssetId }),
+    };
+  }
+  return priceStream.stream;
+};
+
+// Search every provider and merge the results, stocks first. One provider
+// failing still returns the other's results; both failing is an error.
+export const searchAssets = async (query: string): Promise<SearchResult[]> => {
+  if (!query || query.length < 2) return [];
+
+  const errors: unknown[] = [];
+  const results = await Promise.all(
+    (['stock', 'crypto'] as const).map(async (type) => {
+      const provider = getMarketDataProvider(type);
+      try {
+        return (await provider.search(query)).slice(0, 5);
+      } catch (error) {
+        console.error(`Error searching ${provider.name}:`, error);
+        errors.push(error);
+        return [];
+      }
+    })
+  );
+
+  if (errors.length === results.length) throw errors[0];
+  return results.flat().slice(0, 10);
+};
+
+/**
+ * Best search match for a ticker: the coin already chosen for it if there is
+ * one, otherwise the highest ranked exact match, which is then remembered.
+ */
+export const findAsset = async (type: AssetType, symbol: string): Promise<SearchResult | undefined> => {
+  const results = await getMarketDataProvider(type).search(symbol);
+  const known = getRegisteredAssetId(type, symbol);
+  const best = results.find((result) => result.type === type && result.id === known) ??
+    rankSymbolMatches(results, type, symbol)[0];
+  if (best) {
+    registerAsset(best);
+  }
+  return best;
+};
+
+/**
+ * Resolve a ticker to the provider id used for quotes. Unknown crypto tickers
+ * are looked up by search and the highest ranked exact match is remembered.
+ */
+export const lookupAssetId = async (type: AssetType, symbol: string): Promise<string | undefined> =>
+  getRegisteredAssetId(type, symbol) ?? (await findAsset(type, symbol))?.id;
+
+export const getGlobalStats = async (): Promise<GlobalMarketStats> => {
+  const provider = getMarketDataProvider('crypto');
+  if (!provider.getGlobalStats) {
+    throw new Error(`${provider.name} does not provide global market stats`);
+  }
+
+  const stats = await provider.getGlobalStats();
+  if (!provider.getGlobalHistory) {
+    recordGlobalStats(stats);
+  }
+  return stats;
+};
+
+// Provider history when it has one, otherwise the samples we recorded
+export const getGlobalStatsHistory = async (): Promise<GlobalMarketStats[]> => {
+  const provider = getMarketDataProvider('crypto');
+  return provider.getGlobalHistory ? provider.getGlobalHistory() : loadGlobalStatsHistory();
+};
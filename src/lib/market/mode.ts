@@ -0,0 +1,26 @@
+export type MarketDataMode = 'live' | 'fixture';
+
+const STORAGE_KEY = 'marketDataMode';
+
+const listeners = new Set<() => void>();
+
+// A saved setting wins over the VITE_MARKET_DATA_MODE build-time default
+export const getMarketDataMode = (): MarketDataMode => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === 'live' || saved === 'fixture') {
+    return saved;
+  }
+  return import.meta.env.VITE_MARKET_DATA_MODE === 'fixture' ? 'fixture' : 'live';
+};
+
+export const saveMarketDataMode = (mode: MarketDataMode) => {
+  localStorage.setItem(STORAGE_KEY, mode);
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeMarketDataMode = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
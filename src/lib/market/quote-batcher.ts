@@ -0,0 +1,62 @@
+import type { AssetType, MarketDataProvider, Quote } from "./types";
+
+// How long to wait for more requests before calling the provider
+const BATCH_WINDOW = 10;
+
+// Largest id list each provider accepts in one call
+const MAX_BATCH_SIZE: Record<AssetType, number> = { crypto: 250, stock: 50 };
+
+interface PendingRequest {
+  resolve: (quote: Quote) => void;
+  reject: (error: unknown) => void;
+}
+
+const chunk = <T>(items: T[], size: number) =>
+  Array.from({ length: Math.ceil(items.length / size) }, (_, index) => items.slice(index * size, (index + 1) * size));
+
+/**
+ * Coalesces single-quote requests made within the same short window into the
+ * fewest multi-id provider calls, then fans each quote out to every caller
+ * that asked for it.
+ */
+export const createQuoteBatcher = (getProvider: (type: AssetType) => MarketDataProvider) => {
+  const pending: Record<AssetType, Map<string, PendingRequest[]>> = { stock: new Map(), crypto: new Map() };
+  const timers: Partial<Record<AssetType, ReturnType<typeof setTimeout>>> = {};
+
+  const settle = (requests: PendingRequest[] = [], quote: Quote | undefined, error: unknown) => {
+    requests.forEach(({ resolve, reject }) => (quote ? resolve(quote) : reject(error)));
+  };
+
+  const flush = async (type: AssetType) => {
+    const batch = pending[type];
+    pending[type] = new Map();
+    delete timers[type];
+
+    const provider = getProvider(type);
+    await Promise.all(
+      chunk([...batch.keys()], MAX_BATCH_SIZE[type]).map(async (ids) => {
+        try {
+          const quotes = new Map((await provider.getQuotes(ids)).map((quote) => [quote.id, quote]));
+          ids.forEach((id) =>
+            settle(batch.get(id), quotes.get(id), new Error(`${provider.name} returned no quote for ${id}`))
+          );
+        } catch (error) {
+          ids.forEach((id) => settle(batch.get(id), undefined, error));
+        }
+      })
+    );
+  };
+
+  const load = (type: AssetType, id: string) =>
+    new Promise<Quote>((resolve, reject) => {
+      const requests = pending[type].get(id) ?? [];
+      requests.push({ resolve, reject });
+      pending[type].set(id, requests);
+
+      if (!timers[type]) {
+        timers[type] = setTimeout(() => flush(type), BATCH_WINDOW);
+      }
+    });
+
+  return { load };
+};
@@ -0,0 +1,74 @@
+// Seeded random walk used by the fixture provider so offline prices move in a
+// reproducible way: the same asset always follows the same path.
+
+export const TICK_INTERVAL = 5000; // 5 seconds
+
+// mulberry32 - small, fast and good enough for simulated prices
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const hashSeed = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash = Math.imul(hash ^ value.charCodeAt(i), 16777619);
+  }
+  return hash >>> 0;
+};
+
+interface WalkState {
+  random: () => number;
+  tick: number;
+  factor: number;
+}
+
+const walks = new Map<string, WalkState>();
+const startedAt = Date.now();
+
+/**
+ * Multiplier to apply to a recorded price for the current tick. Walks advance
+ * lazily, so polling frequency does not change the path an asset takes.
+ */
+export const walkFactor = (id: string, volatility: number, now = Date.now()) => {
+  const tick = Math.floor((now - startedAt) / TICK_INTERVAL);
+  const walk = walks.get(id) ?? { random: createRandom(hashSeed(id)), tick: 0, factor: 1 };
+
+  while (walk.tick < tick) {
+    walk.factor *= 1 + (walk.random() * 2 - 1) * volatility;
+    walk.tick++;
+  }
+
+  walks.set(id, walk);
+  return walk.factor;
+};
+
+/**
+ * Synthesize a price series of `count` points ending at `endPrice`, walking
+ * backwards from `end` in steps of `step` milliseconds.
+ */
+export const walkHistory = (
+  id: string,
+  endPrice: number,
+  end: number,
+  step: number,
+  count: number,
+  volatility: number
+) => {
+  const random = createRandom(hashSeed(`${id}:history`));
+  const points = new Array<{ timestamp: number; price: number }>(count);
+  let price = endPrice;
+
+  for (let i = count - 1; i >= 0; i--) {
+    points[i] = { timestamp: end - (count - 1 - i) * step, price };
+    price /= 1 + (random() * 2 - 1) * volatility;
+  }
+
+  return points;
+};
@@ -0,0 +1,193 @@
+import { z } from "zod";
+import type { AssetType } from "./types";
+
+export type StreamStatus = 'idle' | 'connecting' | 'open' | 'closed';
+
+export interface StreamAsset {
+  type: AssetType;
+  id: string;
+  symbol: string;
+}
+
+export interface PriceTick {
+  type: AssetType;
+  id: string;
+  price: number;
+  change: number;
+  changePercent: number;
+  timestamp: number;
+}
+
+// Binance 24hr ticker event, also spoken by server/price-stream.js. Prices
+// arrive as decimal strings.
+const decimal = z.string().pipe(z.coerce.number().finite());
+
+const tickerMessageSchema = z.object({
+  stream: z.string(),
+  data: z.object({
+    e: z.literal('24hrTicker'),
+    E: z.number(),
+    s: z.string(),
+    c: decimal,
+    p: decimal,
+    P: decimal,
+  }),
+});
+
+interface PriceStreamOptions {
+  url: string;
+  /** Whether the endpoint carries stock tickers as well as crypto pairs. */
+  streamsStocks: boolean;
+  /**
+   * Id of the coin a crypto ticker's pair prices. Other coins sharing the
+   * ticker are left out, so they keep polling for their own price.
+   */
+  listedCoinFor: (symbol: string) => string | undefined;
+}
+
+const MIN_RETRY_DELAY = 1000;
+const MAX_RETRY_DELAY = 30000;
+
+// Crypto trades against USDT on the exchange; stocks use their own ticker
+const streamName = ({ type, symbol }: StreamAsset) =>
+  type === 'crypto' ? `${symbol.toLowerCase()}usdt@ticker` : `${symbol.toLowerCase()}@ticker`;
+
+/**
+ * Reference-counted ticker subscriptions over one WebSocket. The socket opens
+ * with the first subscriber, reconnects with backoff while anyone is listening
+ * and closes when the last one leaves.
+ */
+export const createPriceStream = ({ url, streamsStocks, listedCoinFor }: PriceStreamOptions) => {
+  // Per stream name, each listener with the assets it asked for under it
+  const subscribers = new Map<string, Map<(tick: PriceTick) => void, StreamAsset[]>>();
+  const statusListeners = new Set<() => void>();
+
+  let socket: WebSocket | null = null;
+  let status: StreamStatus = 'idle';
+  let retryDelay = MIN_RETRY_DELAY;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let requestId = 0;
+
+  const setStatus = (next: StreamStatus) => {
+    status = next;
+    statusListeners.forEach((listener) => listener());
+  };
+
+  const send = (method: 'SUBSCRIBE' | 'UNSUBSCRIBE', streams: string[]) => {
+    if (streams.length > 0 && socket?.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ method, params: streams, id: ++requestId }));
+    }
+  };
+
+  const handleMessage = (event: MessageEvent) => {
+    let message: unknown;
+    try {
+      message = JSON.parse(event.data);
+    } catch {
+      console.warn('Ignoring malformed stream message:', event.data);
+      return;
+    }
+    // Subscription acks and other event types share the socket
+    if ((message as { data?: { e?: string } })?.data?.e !== '24hrTicker') return;
+
+    const result = tickerMessageSchema.safeParse(message);
+    if (!result.success) {
+      const [issue] = result.error.issues;
+      console.warn(`Ignoring ticker with bad ${issue.path.join('.')}: ${issue.message}`);
+      return;
+    }
+
+    const { stream, data: ticker } = result.data;
+    subscribers.get(stream)?.forEach((assets, listener) => {
+      assets.forEach((asset) => listener({
+        type: asset.type,
+        id: asset.id,
+        price: ticker.c,
+        change: ticker.p,
+        changePercent: ticker.P,
+        timestamp: ticker.E,
+      }));
+    });
+  };
+
+  const connect = () => {
+    clearTimeout(retryTimer);
+    setStatus('connecting');
+    const current = new WebSocket(url);
+    socket = current;
+
+    current.onopen = () => {
+      retryDelay = MIN_RETRY_DELAY;
+      setStatus('open');
+      send('SUBSCRIBE', [...subscribers.keys()]);
+    };
+    current.onmessage = handleMessage;
+    current.onclose = () => {
+      // A socket we already replaced or closed on purpose
+      if (socket !== current) return;
+
+      socket = null;
+      setStatus('closed');
+      retryTimer = setTimeout(connect, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, MAX_RETRY_DELAY);
+    };
+  };
+
+  const disconnect = () => {
+    clearTimeout(retryTimer);
+    const current = socket;
+    socket = null;
+    current?.close();
+    setStatus('idle');
+  };
+
+  const subscribe = (requested: StreamAsset[], listener: (tick: PriceTick) => void) => {
+    const added: string[] = [];
+    const streams = new Set<string>();
+    requested
+      .filter((asset) => asset.type === 'crypto' ? listedCoinFor(asset.symbol) === asset.id : streamsStocks)
+      .forEach((asset) => {
+        const name = streamName(asset);
+        if (!subscribers.has(name)) {
+          subscribers.set(name, new Map());
+          added.push(name);
+        }
+        const byListener = subscribers.get(name);
+        byListener.set(listener, [...(byListener.get(listener) ?? []), asset]);
+        streams.add(name);
+      });
+
+    if (streams.size > 0 && !socket && status !== 'closed') {
+      connect();
+    } else {
+      send('SUBSCRIBE', added);
+    }
+
+    return () => {
+      const removed = [...streams].filter((name) => {
+        const byListener = subscribers.get(name);
+        byListener?.delete(listener);
+        if (byListener?.size) return false;
+        subscribers.delete(name);
+        return true;
+      });
+
+      send('UNSUBSCRIBE', removed);
+      if (subscribers.size === 0) disconnect();
+    };
+  };
+
+  return {
+    subscribe,
+    close: disconnect,
+    getStatus: () => status,
+    subscribeStatus: (listener: () => void) => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+  };
+};
+
+export type PriceStream = ReturnType<typeof createPriceStream>;
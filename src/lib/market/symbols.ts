@@ -0,0 +1,70 @@
+import type { AssetType, SearchResult } from "./types";
+
+const STORAGE_KEY = 'symbolRegistry';
+
+// Canonical CoinGecko ids for tickers that many tokens share
+const wellKnownCoins: Record<string, string> = {
+  BTC: 'bitcoin',
+  ETH: 'ethereum',
+  USDT: 'tether',
+  XRP: 'ripple',
+  BNB: 'binancecoin',
+  SOL: 'solana',
+  USDC: 'usd-coin',
+  DOGE: 'dogecoin',
+  ADA: 'cardano',
+  TRX: 'tron',
+  DOT: 'polkadot',
+  LINK: 'chainlink',
+  LTC: 'litecoin',
+  AVAX: 'avalanche-2',
+  MATIC: 'matic-network',
+  DAI: 'dai',
+};
+
+const loadRegistry = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (error) {
+    console.error('Error loading symbol registry:', error);
+    return {};
+  }
+};
+
+const registry: Record<string, string> = { ...wellKnownCoins, ...loadRegistry() };
+
+/**
+ * Provider id for a ticker, if we already know it. Stock tickers are their own
+ * id; crypto tickers are ambiguous and only resolve once chosen or well known.
+ */
+export const getRegisteredAssetId = (type: AssetType, symbol: string): string | undefined => {
+  if (type === 'stock') return symbol;
+  return registry[symbol.toUpperCase()];
+};
+
+/**
+ * The coin an exchange's pair for a crypto ticker prices: the well-known one
+ * where there is one, otherwise the one chosen for the ticker.
+ */
+export const getListedAssetId = (symbol: string): string | undefined => {
+  const ticker = symbol.toUpperCase();
+  return wellKnownCoins[ticker] ?? registry[ticker];
+};
+
+// Remember the coin a user picked for a ticker so later lookups agree with it
+export const registerAsset = (asset: Pick<SearchResult, 'id' | 'symbol' | 'type'>) => {
+  if (asset.type !== 'crypto') return;
+
+  const symbol = asset.symbol.toUpperCase();
+  if (registry[symbol] === asset.id) return;
+
+  registry[symbol] = asset.id;
+  const saved = loadRegistry();
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...saved, [symbol]: asset.id }));
+};
+
+// Candidates for a ticker ordered so the most likely coin comes first
+export const rankSymbolMatches = (results: SearchResult[], type: AssetType, symbol: string) =>
+  results
+    .filter((result) => result.type === type && result.symbol.toUpperCase() === symbol.toUpperCase())
+    .sort((a, b) => (a.rank ?? Infinity) - (b.rank ?? Infinity));
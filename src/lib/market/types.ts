@@ -0,0 +1,93 @@
+export type AssetType = 'stock' | 'crypto';
+
+/** 'all' reaches as far back as 'max' with a point a day, for valuing each day of a long history. */
+export type HistoryRange = '1d' | '7d' | '30d' | '180d' | '1y' | 'max' | 'all';
+
+/** Where a quote came from; 'fallback' marks placeholder values, not market data. */
+export type QuoteSource = 'coingecko' | 'yahoo' | 'fixture' | 'stream' | 'fallback';
+
+export interface Quote {
+  /** Provider-specific identifier (CoinGecko coin id, Yahoo ticker). */
+  id: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  price: number;
+  change: number;
+  changePercent: number;
+  volume: number;
+  marketCap?: number;
+  image?: string;
+  source: QuoteSource;
+  /** When the dashboard received this price, in epoch milliseconds. */
+  updatedAt: number;
+}
+
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+export interface SearchResult {
+  /** Provider id to request quotes with; differs from the ticker for crypto. */
+  id: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  price?: number;
+  exchange?: string;
+  /** Market cap rank, used to order coins that share a ticker. */
+  rank?: number;
+}
+
+export interface AssetMetadata {
+  id: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  image?: string;
+  exchange?: string;
+  currency?: string;
+}
+
+export interface GlobalMarketStats {
+  totalMarketCap: number;
+  totalVolume: number;
+  marketCapChangePercent24h: number;
+  /** Market cap share in percent, keyed by lowercase ticker (btc, eth). */
+  dominance: Record<string, number>;
+  activeCryptocurrencies: number;
+  updatedAt: number;
+}
+
+export type Currency = 'USD' | 'EUR' | 'GBP' | 'JPY';
+
+/** Units of each currency per 1 USD; every provider quotes prices in USD. */
+export type FxRates = Record<Currency, number>;
+
+export interface FxProvider {
+  readonly name: string;
+  getRates(): Promise<FxRates>;
+  /** Rates in effect on `date` (YYYY-MM-DD), or the last business day before it. */
+  getHistoricalRates(date: string): Promise<FxRates>;
+  /** Daily rates between two dates inclusive, keyed by YYYY-MM-DD. */
+  getRateHistory(from: string, to: string): Promise<Record<string, FxRates>>;
+}
+
+// Every data source the dashboard talks to implements this interface, so
+// components never need to know which API a number came from.
+export interface MarketDataProvider {
+  readonly name: string;
+  readonly assetType: AssetType;
+  getQuotes(ids: string[]): Promise<Quote[]>;
+  getTopAssets(limit: number): Promise<Quote[]>;
+  getHistory(id: string, range: HistoryRange): Promise<PricePoint[]>;
+  search(query: string): Promise<SearchResult[]>;
+  getMetadata(id: string): Promise<AssetMetadata>;
+  getGlobalStats?(): Promise<GlobalMarketStats>;
+  /** Recent global stats samples, oldest first, for providers that keep them. */
+  getGlobalHistory?(): Promise<GlobalMarketStats[]>;
+}
+
+/** Runs each upstream HTTP request, e.g. once a rate limiter has a slot for it. */
+export type RequestScheduler = <T>(request: () => Promise<T>) => Promise<T>;
@@ -0,0 +1,59 @@
+import type { z } from "zod";
+
+// ['0', 'current_price'] -> "[0].current_price"
+export const formatPath = (path: (string | number)[]) =>
+  path.reduce<string>(
+    (result, key) => (/^\d+$/.test(String(key)) ? `${result}[${key}]` : result ? `${result}.${key}` : String(key)),
+    ''
+  ) || '(response)';
+
+/**
+ * A provider answered, but not in the shape we expect. `field` names the
+ * first offending value so a widget can say what changed upstream.
+ */
+export class ProviderResponseError extends Error {
+  readonly provider: string;
+  readonly endpoint: string;
+  readonly field: string;
+  /** What was wrong with the field, e.g. "expected number, received null". */
+  readonly detail: string;
+
+  constructor(provider: string, endpoint: string, field: string, detail: string) {
+    super(`${provider} returned an unexpected response: ${field} ${detail}`);
+    this.name = 'ProviderResponseError';
+    this.provider = provider;
+    this.endpoint = endpoint;
+    this.field = field;
+    this.detail = detail;
+  }
+}
+
+/** A provider turned a request down with an HTTP error status. */
+export class ProviderHttpError extends Error {
+  readonly provider: string;
+  readonly endpoint: string;
+  readonly status: number;
+
+  constructor(provider: string, path: string, status: number) {
+    super(`${provider} request failed (${status}): ${path}`);
+    this.name = 'ProviderHttpError';
+    this.provider = provider;
+    this.endpoint = path.split('?')[0];
+    this.status = status;
+  }
+}
+
+// Validate a decoded payload, throwing a ProviderResponseError on the first mismatch
+export const parseResponse = <T extends z.ZodTypeAny>(
+  provider: string,
+  endpoint: string,
+  schema: T,
+  data: unknown
+): z.output<T> => {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const [issue] = result.error.issues;
+    throw new ProviderResponseError(provider, endpoint, formatPath(issue.path), issue.message.toLowerCase());
+  }
+  return result.data;
+};
@@ -0,0 +1,227 @@
+import { z } from "zod";
+import { ProviderHttpError, parseResponse } from "./validation";
+import type {
+  AssetMetadata,
+  HistoryRange,
+  MarketDataProvider,
+  PricePoint,
+  Quote,
+  RequestScheduler,
+  SearchResult,
+} from "./types";
+
+const YAHOO_API = 'https://query1.finance.yahoo.com';
+const WEEK = 7 * 24 * 60 * 60 * 1000;
+
+// Popular stock symbols shown when no explicit list is requested
+export const POPULAR_STOCKS = ['AAPL', 'GOOGL', 'MSFT', 'TSLA', 'AMZN', 'NVDA', 'META', 'NFLX'];
+
+const chartMetaSchema = z.object({
+  symbol: z.string(),
+  longName: z.string().optional(),
+  shortName: z.string().optional(),
+  exchangeName: z.string().optional(),
+  currency: z.string().nullish(),
+  regularMarketPrice: z.number(),
+  previousClose: z.number().nullish(),
+  chartPreviousClose: z.number().nullish(),
+  regularMarketVolume: z.number().nullish(),
+});
+
+const chartSchema = z.object({
+  chart: z.object({
+    result: z
+      .array(
+        z.object({
+          meta: chartMetaSchema,
+          timestamp: z.array(z.number()).optional(),
+          indicators: z
+            .object({ quote: z.array(z.object({ close: z.array(z.number().nullable()).optional() })).optional() })
+            .optional(),
+        })
+      )
+      .nullish(),
+  }),
+});
+
+const quoteSchema = z.object({
+  quoteResponse: z.object({
+    result: z.array(
+      z.object({
+        symbol: z.string(),
+        longName: z.string().optional(),
+        shortName: z.string().optional(),
+        regularMarketPrice: z.number(),
+        regularMarketChange: z.number().optional(),
+        regularMarketChangePercent: z.number().optional(),
+        regularMarketVolume: z.number().optional(),
+        marketCap: z.number().optional(),
+      })
+    ),
+  }),
+});
+
+const searchSchema = z.object({
+  quotes: z
+    .array(
+      z.object({
+        symbol: z.string(),
+        longname: z.string().optional(),
+        shortname: z.string().optional(),
+        typeDisp: z.string().optional(),
+        exchange: z.string().optional(),
+        regularMarketPrice: z.number().optional(),
+      })
+    )
+    .optional(),
+});
+
+type YahooChartMeta = z.infer<typeof chartMetaSchema>;
+type YahooChartResult = NonNullable<z.infer<typeof chartSchema>['chart']['result']>[number];
+
+const chartParams: Record<HistoryRange, string> = {
+  '1d': 'range=1d&interval=5m',
+  // Five days of trading can start after the week did; a month is cut down in getHistory
+  '7d': 'range=1mo&interval=1h',
+  '30d': 'range=1mo&interval=1d',
+  '180d': 'range=6mo&interval=1d',
+  '1y': 'range=1y&interval=1d',
+  'max': 'range=max&interval=1wk',
+  'all': 'range=max&interval=1d',
+};
+
+const toQuote = (meta: YahooChartMeta): Quote => {
+  const price = meta.regularMarketPrice;
+  const previousClose = meta.previousClose || meta.chartPreviousClose || price;
+  const change = price - previousClose;
+  return {
+    id: meta.symbol,
+    symbol: meta.symbol,
+    name: meta.longName || meta.shortName || meta.symbol,
+    type: 'stock',
+    price,
+    change,
+    changePercent: previousClose > 0 ? (change / previousClose) * 100 : 0,
+    volume: meta.regularMarketVolume || 0,
+    source: 'yahoo',
+    updatedAt: Date.now(),
+  };
+};
+
+export const createYahooProvider = (
+  baseUrl = YAHOO_API,
+  headers: Record<string, string> = {},
+  schedule: RequestScheduler = (request) => request()
+): MarketDataProvider => {
+  const get = async <T extends z.ZodTypeAny>(path: string, schema: T): Promise<z.output<T>> => {
+    const response = await schedule(() => fetch(`${baseUrl}${path}`, { headers }));
+    if (!response.ok) {
+      throw new ProviderHttpError('Yahoo Finance', path, response.status);
+    }
+    return parseResponse('Yahoo Finance', path.split('?')[0], schema, await response.json());
+  };
+
+  const getChart = async (symbol: string, params: string): Promise<YahooChartResult> => {
+    const data = await get(`/v8/finance/chart/${encodeURIComponent(symbol)}?${params}`, chartSchema);
+    const result = data.chart.result?.[0];
+    if (!result) {
+      throw new Error(`No data found for ${symbol}`);
+    }
+    return result;
+  };
+
+  const getChartQuotes = async (ids: string[]): Promise<Quote[]> => {
+    const results = await Promise.allSettled(
+      ids.map(async (symbol) => toQuote((await getChart(symbol, 'range=1d&interval=1m')).meta))
+    );
+    // Surface the error itself when nothing came back, so callers can show why
+    const failures = results.flatMap((result) => (result.status === 'rejected' ? [result.reason] : []));
+    if (failures.length === ids.length) throw failures[0];
+
+    return results.flatMap((result, index) => {
+      if (result.status === 'fulfilled') return [result.value];
+      console.error(`Error fetching data for ${ids[index]}:`, result.reason);
+      return [];
+    });
+  };
+
+  // One multi-symbol call; falls back to per-symbol charts when the quote
+  // endpoint refuses the request (it sometimes demands a session crumb).
+  // Anything else, a changed response shape included, is passed on.
+  const getQuotes = async (ids: string[]): Promise<Quote[]> => {
+    if (ids.length === 0) return [];
+    try {
+      const data = await get(`/v7/finance/quote?symbols=${ids.map(encodeURIComponent).join(',')}`, quoteSchema);
+      return data.quoteResponse.result.map((quote) => ({
+        id: quote.symbol,
+        symbol: quote.symbol,
+        name: quote.longName || quote.shortName || quote.symbol,
+        type: 'stock' as const,
+        price: quote.regularMarketPrice,
+        change: quote.regularMarketChange || 0,
+        changePercent: quote.regularMarketChangePercent || 0,
+        volume: quote.regularMarketVolume || 0,
+        marketCap: quote.marketCap,
+        source: 'yahoo' as const,
+        updatedAt: Date.now(),
+      }));
+    } catch (error) {
+      if (!(error instanceof ProviderHttpError)) throw error;
+      console.warn(`Batched quotes refused (${error.status}), falling back to charts`);
+      return getChartQuotes(ids);
+    }
+  };
+
+  return {
+    name: 'Yahoo Finance',
+    assetType: 'stock',
+
+    getQuotes,
+
+    getTopAssets: (limit) => getQuotes(POPULAR_STOCKS.slice(0, limit)),
+
+    async getHistory(id, range): Promise<PricePoint[]> {
+      const result = await getChart(id, chartParams[range]);
+      const closes = result.indicators?.quote?.[0]?.close ?? [];
+      const points = (result.timestamp ?? []).flatMap((timestamp, index) => {
+        const price = closes[index];
+        return price == null ? [] : [{ timestamp: timestamp * 1000, price }];
+      });
+      if (range !== '7d') return points;
+
+      // The week, led by the last close before it so its first days have a price
+      const weekAgo = Date.now() - WEEK;
+      const before = points.filter((point) => point.timestamp < weekAgo).length;
+      return points.slice(Math.max(before - 1, 0));
+    },
+
+    async search(query): Promise<SearchResult[]> {
+      const data = await get(
+        `/v1/finance/search?q=${encodeURIComponent(query)}&lang=en-US&region=US&quotesCount=8&newsCount=0`,
+        searchSchema
+      );
+      return (data.quotes ?? [])
+        .filter((quote) => quote.typeDisp === 'Equity' && quote.exchange)
+        .map((quote) => ({
+          id: quote.symbol,
+          symbol: quote.symbol,
+          name: quote.longname || quote.shortname || quote.symbol,
+          type: 'stock' as const,
+          price: quote.regularMarketPrice || 0,
+          exchange: quote.exchange,
+        }));
+    },
+
+    async getMetadata(id): Promise<AssetMetadata> {
+      const { meta } = await getChart(id, 'range=1d&interval=1d');
+      return {
+        id: meta.symbol,
+        symbol: meta.symbol,
+        name: meta.longName || meta.shortName || meta.symbol,
+        type: 'stock',
+        exchange: meta.exchangeName,
+        currency: meta.currency ?? undefined,
+      };
+    },
+  };
+};
@@ -0,0 +1,96 @@
+import type { Account, AccountKind, CostBasisMethod } from "./types";
+
+const STORAGE_KEY = 'accounts';
+const SELECTED_KEY = 'selectedAccount';
+// Where the cost-basis method lived while there was a single portfolio
+const LEGACY_SETTINGS_KEY = 'portfolioSettings';
+
+/** Account that transactions recorded before accounts existed belong to. */
+export const DEFAULT_ACCOUNT_ID = 'default';
+/** Selection that shows every account's holdings combined. */
+export const ALL_ACCOUNTS = 'all';
+
+export const accountKindLabels: Record<AccountKind, string> = {
+  brokerage: 'Brokerage',
+  exchange: 'Exchange',
+  wallet: 'Wallet',
+  other: 'Other',
+};
+
+const listeners = new Set<() => void>();
+let accounts: Account[] | null = null;
+
+const defaultAccount = (): Account => {
+  let costBasisMethod: CostBasisMethod = 'fifo';
+  try {
+    const legacy = JSON.parse(localStorage.getItem(LEGACY_SETTINGS_KEY) ?? '{}') as { costBasisMethod?: CostBasisMethod };
+    costBasisMethod = legacy.costBasisMethod ?? costBasisMethod;
+  } catch (error) {
+    console.error('Error loading portfolio settings:', error);
+  }
+  return { id: DEFAULT_ACCOUNT_ID, name: 'Main', kind: 'other', costBasisMethod, createdAt: 0 };
+};
+
+const load = (): Account[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as Account[];
+    return saved.length > 0 ? saved : [defaultAccount()];
+  } catch (error) {
+    console.error('Error loading accounts:', error);
+    return [defaultAccount()];
+  }
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const save = (next: Account[]) => {
+  accounts = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  notify();
+};
+
+export const getAccounts = (): Account[] => {
+  accounts ??= load();
+  return accounts;
+};
+
+export const addAccount = (name: string, kind: AccountKind): Account => {
+  const account: Account = { id: crypto.randomUUID(), name, kind, costBasisMethod: 'fifo', createdAt: Date.now() };
+  save([...getAccounts(), account]);
+  return account;
+};
+
+export const updateAccount = (id: string, changes: Partial<Omit<Account, 'id' | 'createdAt'>>) => {
+  save(getAccounts().map((account) => (account.id === id ? { ...account, ...changes } : account)));
+};
+
+// Swap every account, e.g. for ones restored from a backup; never leaves none
+export const replaceAccounts = (next: Account[]) => {
+  save(next.length > 0 ? next : [defaultAccount()]);
+};
+
+// Callers make sure no transactions are left in the account first
+export const removeAccount = (id: string) => {
+  const remaining = getAccounts().filter((account) => account.id !== id);
+  if (remaining.length === 0) return;
+  save(remaining);
+  if (getSelectedAccountId() === id) setSelectedAccountId(ALL_ACCOUNTS);
+};
+
+/** The selected account's id, or ALL_ACCOUNTS. */
+export const getSelectedAccountId = (): string => {
+  const saved = localStorage.getItem(SELECTED_KEY);
+  return saved && getAccounts().some((account) => account.id === saved) ? saved : ALL_ACCOUNTS;
+};
+
+export const setSelectedAccountId = (id: string) => {
+  localStorage.setItem(SELECTED_KEY, id);
+  notify();
+};
+
+export const subscribeAccounts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { CASH_KEY, allocationBy, rebalance, sectorOf, type Holding, type RebalanceInput } from "./allocation";
+
+const holding = (key: string, symbol: string, value: number, changes: Partial<Holding> = {}): Holding => ({
+  key,
+  symbol,
+  assetClass: key === CASH_KEY ? 'cash' : key.startsWith('crypto:') ? 'crypto' : 'stock',
+  sector: 'Unclassified',
+  accountId: 'main',
+  value,
+  ...changes,
+});
+
+const holdings = [
+  holding('stock:AAPL', 'AAPL', 600, { sector: 'Technology' }),
+  holding('crypto:bitcoin', 'BTC', 200, { sector: 'Crypto', accountId: 'cold' }),
+  holding(CASH_KEY, 'USD', 150, { sector: 'Cash' }),
+  holding(CASH_KEY, 'USDT', 50, { sector: 'Cash', accountId: 'cold' }),
+];
+
+describe('allocationBy', () => {
+  it('puts cash and stablecoins in one slice and weighs each slice against the total', () => {
+    expect(allocationBy(holdings, 'asset', (id) => id)).toEqual([
+      { key: 'stock:AAPL', label: 'AAPL', value: 600, weight: 0.6 },
+      { key: 'crypto:bitcoin', label: 'BTC', value: 200, weight: 0.2 },
+      { key: CASH_KEY, label: 'Cash & stablecoins', value: 200, weight: 0.2 },
+    ]);
+  });
+
+  it('labels accounts by name and leaves out empty slices', () => {
+    const names: Record<string, string> = { main: 'Broker', cold: 'Ledger', spare: 'Spare' };
+    const slices = allocationBy([...holdings, holding('stock:KO', 'KO', 0, { accountId: 'spare' })], 'account', (id) => names[id]);
+    expect(slices.map(({ label, value }) => [label, value])).toEqual([['Broker', 750], ['Ledger', 250]]);
+  });
+});
+
+describe('sectorOf', () => {
+  it('prefers a sector given by hand, with stablecoins under cash', () => {
+    expect(sectorOf({ key: 'stock:AAPL', type: 'stock', symbol: 'AAPL' }, {})).toBe('Technology');
+    expect(sectorOf({ key: 'stock:AAPL', type: 'stock', symbol: 'AAPL' }, { 'stock:AAPL': 'Hardware' })).toBe('Hardware');
+    expect(sectorOf({ key: 'crypto:tether', type: 'crypto', symbol: 'USDT' }, {})).toBe('Cash');
+    expect(sectorOf({ key: 'stock:XYZ', type: 'stock', symbol: 'XYZ' }, {})).toBe('Unclassified');
+  });
+});
+
+describe('rebalance', () => {
+  const input: RebalanceInput = {
+    holdings,
+    prices: new Map([['stock:AAPL', 100], ['crypto:bitcoin', 50]]),
+    targets: { 'stock:AAPL': 0.5, 'crypto:bitcoin': 0.4 },
+    minTrade: 10,
+    allowSells: true,
+  };
+
+  it('sells what is over target to buy what is under, keeping the cash target', () => {
+    const plan = rebalance(input);
+    expect(plan.trades).toEqual([
+      { key: 'crypto:bitcoin', symbol: 'BTC', side: 'buy', amount: 200, quantity: 4 },
+      { key: 'stock:AAPL', symbol: 'AAPL', side: 'sell', amount: 100, quantity: 1 },
+    ]);
+    expect(plan).toMatchObject({ cashAfter: 100, shortfall: 0, unpriced: [] });
+  });
+
+  it('only spends the cash above target when sales are not allowed', () => {
+    const plan = rebalance({ ...input, allowSells: false });
+    expect(plan.trades).toMatchObject([{ key: 'crypto:bitcoin', side: 'buy' }]);
+    expect(plan.trades[0].amount).toBeCloseTo(100);
+    expect(plan.trades[0].quantity).toBeCloseTo(2);
+    expect(plan.cashAfter).toBeCloseTo(100);
+    expect(plan.shortfall).toBeCloseTo(100);
+  });
+
+  it('leaves out trades under the minimum', () => {
+    expect(rebalance({ ...input, targets: { 'stock:AAPL': 0.6, 'crypto:bitcoin': 0.205 }, minTrade: 10 }).trades).toEqual([]);
+  });
+
+  it('lists targeted assets without a price, held or not, and ignores targets for assets not in the holdings', () => {
+    const plan = rebalance({
+      ...input,
+      holdings: [...holdings, holding('crypto:ethereum', 'ETH', 0), holding('stock:XYZ', 'XYZ', 0)],
+      targets: { ...input.targets, 'crypto:ethereum': 0.05, 'stock:XYZ': 0.05, 'stock:GONE': 0.5 },
+    });
+    expect(plan.unpriced).toEqual(['ETH', 'XYZ']);
+    expect(plan.trades.map((trade) => trade.key)).toEqual(['crypto:bitcoin', 'stock:AAPL']);
+  });
+});
@@ -0,0 +1,247 @@
+import { isStablecoin } from "./cash";
+import type { Position } from "./types";
+
+const STORAGE_KEY = 'allocation';
+
+export type AllocationGrouping = 'asset' | 'type' | 'sector' | 'account';
+
+export const allocationGroupingLabels: Record<AllocationGrouping, string> = {
+  asset: 'By asset',
+  type: 'By asset type',
+  sector: 'By sector',
+  account: 'By account',
+};
+
+/** Stock or crypto, with cash and stablecoins together as cash. */
+export type AssetClass = 'stock' | 'crypto' | 'cash';
+
+export const assetClassLabels: Record<AssetClass, string> = {
+  stock: 'Stocks',
+  crypto: 'Crypto',
+  cash: 'Cash & stablecoins',
+};
+
+/** Key the cash of an allocation goes under, stablecoins included. */
+export const CASH_KEY = 'cash';
+
+// Sectors of widely held tickers; anything else can be given one by hand
+const knownSectors: Record<string, string> = {
+  AAPL: 'Technology',
+  MSFT: 'Technology',
+  NVDA: 'Technology',
+  GOOGL: 'Communication Services',
+  GOOG: 'Communication Services',
+  META: 'Communication Services',
+  NFLX: 'Communication Services',
+  AMZN: 'Consumer Discretionary',
+  TSLA: 'Consumer Discretionary',
+  JPM: 'Financials',
+  KO: 'Consumer Staples',
+  SPY: 'Broad Market ETF',
+  VOO: 'Broad Market ETF',
+  VTI: 'Broad Market ETF',
+  QQQ: 'Broad Market ETF',
+};
+
+/** One thing held in one account, valued in the base currency. */
+export interface Holding {
+  /** Position key, or CASH_KEY for cash and stablecoins. */
+  key: string;
+  symbol: string;
+  assetClass: AssetClass;
+  sector: string;
+  accountId: string;
+  value: number;
+}
+
+export interface AllocationSlice {
+  key: string;
+  label: string;
+  value: number;
+  /** Share of the total, as a fraction. */
+  weight: number;
+}
+
+export interface AllocationSettings {
+  /** Target percentage per position key, by account id or ALL_ACCOUNTS. */
+  targets: Record<string, Record<string, number>>;
+  /** Sectors given by hand, by position key. */
+  sectors: Record<string, string>;
+  /** Smallest trade the rebalancing calculator proposes, in the base currency. */
+  minTrade: number;
+}
+
+const defaultSettings: AllocationSettings = { targets: {}, sectors: {}, minTrade: 50 };
+
+const listeners = new Set<() => void>();
+let settings: AllocationSettings | null = null;
+
+const load = (): AllocationSettings => {
+  try {
+    return { ...defaultSettings, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') } as AllocationSettings;
+  } catch (error) {
+    console.error('Error loading allocation settings:', error);
+    return defaultSettings;
+  }
+};
+
+export const getAllocationSettings = (): AllocationSettings => {
+  settings ??= load();
+  return settings;
+};
+
+export const updateAllocationSettings = (changes: Partial<AllocationSettings>) => {
+  settings = { ...getAllocationSettings(), ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeAllocationSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Asset class of a position; stablecoins count as cash. */
+export const assetClassOf = (position: Pick<Position, 'type' | 'symbol'>): AssetClass =>
+  isStablecoin(position) ? 'cash' : position.type;
+
+/** Sector given by hand, else the known one; crypto and cash are sectors of their own. */
+export const sectorOf = (position: Pick<Position, 'key' | 'type' | 'symbol'>, sectors: Record<string, string>) => {
+  if (assetClassOf(position) === 'cash') return 'Cash';
+  if (sectors[position.key]) return sectors[position.key];
+  if (position.type === 'crypto') return 'Crypto';
+  return knownSectors[position.symbol.toUpperCase()] ?? 'Unclassified';
+};
+
+/**
+ * Holdings split into slices by `grouping`, largest first. Cash and
+ * stablecoins make one slice of their own when grouping by asset.
+ */
+export const allocationBy = (
+  holdings: Holding[],
+  grouping: AllocationGrouping,
+  accountName: (accountId: string) => string
+): AllocationSlice[] => {
+  const slices = new Map<string, AllocationSlice>();
+  const total = holdings.reduce((sum, holding) => sum + holding.value, 0);
+
+  for (const holding of holdings) {
+    const [key, label] = {
+      asset: [holding.key, holding.key === CASH_KEY ? assetClassLabels.cash : holding.symbol],
+      type: [holding.assetClass, assetClassLabels[holding.assetClass]],
+      sector: [holding.sector, holding.sector],
+      account: [holding.accountId, accountName(holding.accountId)],
+    }[grouping];
+    const slice = slices.get(key) ?? { key, label, value: 0, weight: 0 };
+    slice.value += holding.value;
+    slices.set(key, slice);
+  }
+
+  return [...slices.values()]
+    .map((slice) => ({ ...slice, weight: total > 0 ? slice.value / total : 0 }))
+    .filter((slice) => slice.value > 0)
+    .sort((a, b) => b.value - a.value);
+};
+
+export interface RebalanceInput {
+  /**
+   * Holdings by asset; cash and stablecoins under CASH_KEY. A targeted asset
+   * that is no longer held goes in with a value of 0, so it can be bought, and
+   * so does one held without a price, so it is listed as unpriced.
+   */
+  holdings: Holding[];
+  /** Price per unit of each asset, in the base currency. */
+  prices: Map<string, number>;
+  /**
+   * Target per asset as a fraction. Assets without one are left as they
+   * are (a target of 0 sells them off), and cash is whatever is left over.
+   * Targets for assets not among the holdings are ignored.
+   */
+  targets: Record<string, number>;
+  minTrade: number;
+  /** Sell what is over target; otherwise only spend the cash there is. */
+  allowSells: boolean;
+}
+
+export interface Trade {
+  key: string;
+  symbol: string;
+  side: 'buy' | 'sell';
+  /** In the base currency. */
+  amount: number;
+  quantity: number;
+}
+
+export interface RebalancePlan {
+  trades: Trade[];
+  /** Cash and stablecoins left once the trades are done. */
+  cashAfter: number;
+  /** What it would still take to reach every target, for want of cash. */
+  shortfall: number;
+  /** Assets with a target but no price to trade at. */
+  unpriced: string[];
+}
+
+/**
+ * Trades that bring each targeted asset back to its target weight. Sales
+ * (when allowed) come first and fund the buys along with the cash on hand,
+ * keeping back the cash target; when that is not enough, every buy is cut
+ * by the same share. Trades smaller than `minTrade` are left out.
+ */
+export const rebalance = ({ holdings, prices, targets, minTrade, allowSells }: RebalanceInput): RebalancePlan => {
+  const values = new Map<string, { symbol: string; value: number }>();
+  for (const holding of holdings) {
+    const entry = values.get(holding.key) ?? { symbol: holding.symbol, value: 0 };
+    entry.value += holding.value;
+    values.set(holding.key, entry);
+  }
+
+  const total = [...values.values()].reduce((sum, entry) => sum + entry.value, 0);
+  const cash = values.get(CASH_KEY)?.value ?? 0;
+  // A target left behind by an asset no longer in the portfolio is stale
+  const targeted = Object.entries(targets).filter(([key]) => key !== CASH_KEY && values.has(key));
+  const targetedShare = targeted.reduce((sum, [, target]) => sum + target, 0);
+  const untargeted = [...values]
+    .filter(([key]) => key !== CASH_KEY && !targeted.some(([targetKey]) => targetKey === key))
+    .reduce((sum, [, entry]) => sum + entry.value, 0);
+  const cashTarget = Math.max(total * (1 - targetedShare) - untargeted, 0);
+
+  const unpriced: string[] = [];
+  const gaps: { key: string; symbol: string; gap: number; price: number }[] = [];
+  for (const [key, target] of targeted) {
+    const entry = values.get(key);
+    if (!entry) continue;
+    const price = prices.get(key);
+    if (!price) {
+      if (target) unpriced.push(entry.symbol);
+      continue;
+    }
+    gaps.push({ key, symbol: entry.symbol, gap: total * target - entry.value, price });
+  }
+
+  const trade = (key: string, symbol: string, side: Trade['side'], amount: number, price: number): Trade =>
+    ({ key, symbol, side, amount, quantity: amount / price });
+
+  const sells = allowSells
+    ? gaps.filter(({ gap }) => -gap >= minTrade).map(({ key, symbol, gap, price }) => trade(key, symbol, 'sell', -gap, price))
+    : [];
+  const proceeds = sells.reduce((sum, sale) => sum + sale.amount, 0);
+
+  const wanted = gaps.filter(({ gap }) => gap >= minTrade);
+  const needed = wanted.reduce((sum, { gap }) => sum + gap, 0);
+  const available = Math.max(cash + proceeds - cashTarget, 0);
+  const scale = needed > available ? available / needed : 1;
+  const buys = wanted
+    .map(({ key, symbol, gap, price }) => trade(key, symbol, 'buy', gap * scale, price))
+    .filter((buy) => buy.amount >= minTrade);
+  const spent = buys.reduce((sum, buy) => sum + buy.amount, 0);
+
+  return {
+    trades: [...sells, ...buys].sort((a, b) => b.amount - a.amount),
+    cashAfter: cash + proceeds - spent,
+    shortfall: Math.max(needed - spent, 0),
+    unpriced,
+  };
+};
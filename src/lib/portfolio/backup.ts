@@ -0,0 +1,150 @@
+import { z } from "zod";
+import { getBaseCurrency, setBaseCurrency } from "@/lib/currency";
+import { CURRENCIES, formatPath, type Currency } from "@/lib/market";
+import { getAccounts, replaceAccounts } from "./accounts";
+import { getCashMovements, replaceCashMovements } from "./cash";
+import { getTransactions, replaceTransactions } from "./ledger";
+import type { Account, CashMovement, Transaction } from "./types";
+
+const BACKUP_APP = 'investment-dashboard';
+const BACKUP_VERSION = 1;
+
+/** Everything needed to rebuild the portfolio on another browser or machine. */
+export interface Backup {
+  app: typeof BACKUP_APP;
+  version: typeof BACKUP_VERSION;
+  /** ISO timestamp. */
+  exportedAt: string;
+  baseCurrency: Currency;
+  accounts: Account[];
+  transactions: Transaction[];
+  /** Missing from backups made before cash was tracked. */
+  cashMovements: CashMovement[];
+}
+
+/** A backup file that can't be restored; `issues` says where and why. */
+export class BackupError extends Error {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Not a valid backup: ${issues[0]}`);
+    this.name = 'BackupError';
+    this.issues = issues;
+  }
+}
+
+const currencySchema = z.enum(CURRENCIES as [Currency, ...Currency[]]);
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'expected a YYYY-MM-DD date');
+
+const accountSchema = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  kind: z.enum(['brokerage', 'exchange', 'wallet', 'other']),
+  costBasisMethod: z.enum(['fifo', 'lifo', 'hifo', 'average', 'specific']),
+  tracksCash: z.boolean().optional(),
+  createdAt: z.number(),
+});
+
+const transactionSchema = z.object({
+  id: z.string().min(1),
+  accountId: z.string().min(1),
+  kind: z.enum(['buy', 'sell', 'deposit', 'withdraw', 'transfer', 'fee', 'dividend', 'staking', 'interest']),
+  assetId: z.string().optional(),
+  symbol: z.string().min(1),
+  name: z.string(),
+  type: z.enum(['stock', 'crypto']),
+  quantity: z.number().positive(),
+  price: z.number().nonnegative().optional(),
+  currency: currencySchema,
+  settledIn: z.string().optional(),
+  fee: z.object({ amount: z.number().positive(), paidIn: z.enum(['currency', 'asset']) }).optional(),
+  date: dateSchema,
+  toAccountId: z.string().optional(),
+  from: z.string().optional(),
+  to: z.string().optional(),
+  note: z.string().optional(),
+  importId: z.string().optional(),
+  lots: z.array(z.object({ lotId: z.string(), quantity: z.number().positive() })).optional(),
+  createdAt: z.number(),
+});
+
+const cashMovementSchema = z.object({
+  id: z.string().min(1),
+  accountId: z.string().min(1),
+  kind: z.enum(['deposit', 'withdraw']),
+  amount: z.number().positive(),
+  currency: currencySchema,
+  date: dateSchema,
+  note: z.string().optional(),
+  createdAt: z.number(),
+});
+
+// Mirrors Backup; results are typed with it since zod makes every field
+// optional when strictNullChecks is off
+const backupSchema = z
+  .object({
+    app: z.literal(BACKUP_APP),
+    version: z.literal(BACKUP_VERSION),
+    exportedAt: z.string(),
+    baseCurrency: currencySchema,
+    accounts: z.array(accountSchema).min(1),
+    transactions: z.array(transactionSchema),
+    cashMovements: z.array(cashMovementSchema).default([]),
+  })
+  .superRefine((backup, context) => {
+    const accountIds = new Set(backup.accounts.map((account) => account.id));
+    const transactionIds = new Set<string>();
+    backup.transactions.forEach((transaction, index) => {
+      if (transactionIds.has(transaction.id)) {
+        context.addIssue({ code: 'custom', path: ['transactions', index, 'id'], message: 'is used twice' });
+      }
+      transactionIds.add(transaction.id);
+      (['accountId', 'toAccountId'] as const).forEach((field) => {
+        if (transaction[field] && !accountIds.has(transaction[field])) {
+          context.addIssue({ code: 'custom', path: ['transactions', index, field], message: 'is not one of the accounts' });
+        }
+      });
+    });
+    backup.cashMovements.forEach((movement, index) => {
+      if (!accountIds.has(movement.accountId)) {
+        context.addIssue({ code: 'custom', path: ['cashMovements', index, 'accountId'], message: 'is not one of the accounts' });
+      }
+    });
+  });
+
+export const createBackup = (): Backup => ({
+  app: BACKUP_APP,
+  version: BACKUP_VERSION,
+  exportedAt: new Date().toISOString(),
+  baseCurrency: getBaseCurrency(),
+  accounts: getAccounts(),
+  transactions: getTransactions(),
+  cashMovements: getCashMovements(),
+});
+
+/** Parse and check a backup file without touching the current data. */
+export const parseBackup = (text: string): Backup => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new BackupError(['the file is not JSON']);
+  }
+
+  const result = backupSchema.safeParse(data);
+  if (!result.success) {
+    throw new BackupError(result.error.issues.map((issue) =>
+      `${issue.path.length > 0 ? formatPath(issue.path) : 'backup'} ${issue.message.toLowerCase()}`
+    ));
+  }
+  return result.data as Backup;
+};
+
+/** Replace every account, transaction and cash movement, and the base currency, with the backup's. */
+export const restoreBackup = (backup: Backup) => {
+  replaceAccounts(backup.accounts);
+  replaceTransactions(backup.transactions);
+  replaceCashMovements(backup.cashMovements);
+  setBaseCurrency(backup.baseCurrency);
+};
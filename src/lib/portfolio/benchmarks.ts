@@ -0,0 +1,164 @@
+import { convertCurrency, ratesOn, toDateKey } from "@/lib/market/fx";
+import type { AssetType, Currency, FxRates, PricePoint } from "@/lib/market";
+import type { Snapshot } from "./snapshots";
+
+const STORAGE_KEY = 'benchmarks';
+
+/** One asset of a benchmark and its share of it, as a fraction. */
+export interface BenchmarkComponent {
+  type: AssetType;
+  id: string;
+  symbol: string;
+  weight: number;
+}
+
+export interface Benchmark {
+  id: string;
+  name: string;
+  components: BenchmarkComponent[];
+}
+
+export interface BenchmarkSettings {
+  /** Ids of the benchmarks to compare against. */
+  selected: string[];
+  /** Percentage of each preset in the custom blend, by preset id. */
+  blend: Record<string, number>;
+}
+
+export const BLEND_ID = 'blend';
+
+export const presetBenchmarks: Benchmark[] = [
+  { id: 'btc', name: 'Bitcoin', components: [{ type: 'crypto', id: 'bitcoin', symbol: 'BTC', weight: 1 }] },
+  { id: 'eth', name: 'Ethereum', components: [{ type: 'crypto', id: 'ethereum', symbol: 'ETH', weight: 1 }] },
+  { id: 'spy', name: 'S&P 500 (SPY)', components: [{ type: 'stock', id: 'SPY', symbol: 'SPY', weight: 1 }] },
+];
+
+const defaultSettings: BenchmarkSettings = { selected: ['btc'], blend: { spy: 60, btc: 40 } };
+
+/** Key of a benchmark asset's price history, as `type:id`. */
+export const componentKey = ({ type, id }: Pick<BenchmarkComponent, 'type' | 'id'>) => `${type}:${id}`;
+
+const listeners = new Set<() => void>();
+let settings: BenchmarkSettings | null = null;
+
+const load = (): BenchmarkSettings => {
+  try {
+    return { ...defaultSettings, ...JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') } as BenchmarkSettings;
+  } catch (error) {
+    console.error('Error loading benchmarks:', error);
+    return defaultSettings;
+  }
+};
+
+export const getBenchmarkSettings = (): BenchmarkSettings => {
+  settings ??= load();
+  return settings;
+};
+
+export const updateBenchmarkSettings = (changes: Partial<BenchmarkSettings>) => {
+  settings = { ...getBenchmarkSettings(), ...changes };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeBenchmarkSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** The custom blend, its presets weighted by their share of the total; undefined while it is empty. */
+export const blendBenchmark = (blend: Record<string, number>): Benchmark | undefined => {
+  const total = Object.values(blend).reduce((sum, weight) => sum + Math.max(weight, 0), 0);
+  if (total <= 0) return undefined;
+  const components = presetBenchmarks
+    .filter((preset) => blend[preset.id] > 0)
+    .flatMap((preset) => preset.components.map((component) => ({
+      ...component,
+      weight: (component.weight * blend[preset.id]) / total,
+    })));
+  const name = presetBenchmarks
+    .filter((preset) => blend[preset.id] > 0)
+    .map((preset) => `${Math.round((blend[preset.id] / total) * 100)}% ${preset.components[0].symbol}`)
+    .join(' / ');
+  return { id: BLEND_ID, name, components };
+};
+
+/** Benchmarks picked in `settings`, in the order they are offered. */
+export const selectedBenchmarks = ({ selected, blend }: BenchmarkSettings): Benchmark[] => [
+  ...presetBenchmarks.filter((preset) => selected.includes(preset.id)),
+  ...(selected.includes(BLEND_ID) ? [blendBenchmark(blend)].filter(Boolean) : []),
+];
+
+export interface BenchmarkInput {
+  benchmark: Benchmark;
+  /** USD price history per component key. */
+  histories: Map<string, PricePoint[]>;
+  currency: Currency;
+  rateHistory?: Record<string, FxRates>;
+  rates?: FxRates;
+}
+
+/**
+ * What the portfolio's money would have been worth in the benchmark: every
+ * flow goes in or comes out on the day it did in the portfolio, and what is
+ * in grows with the benchmark, rebalanced to its weights each day. Returns
+ * snapshots on the portfolio's dates, so both measure alike.
+ */
+export const benchmarkSnapshots = (
+  portfolio: Snapshot[],
+  { benchmark, histories, currency, rateHistory, rates }: BenchmarkInput
+): Snapshot[] => {
+  if (portfolio.length === 0) return [];
+
+  // Last close per day of each component
+  const closes = benchmark.components.map((component) => {
+    const byDay = new Map<string, number>();
+    [...(histories.get(componentKey(component)) ?? [])]
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .forEach((point) => byDay.set(toDateKey(point.timestamp), point.price));
+    return { weight: component.weight, series: [...byDay].sort(([a], [b]) => a.localeCompare(b)), cursor: 0 };
+  });
+  const prices = closes.map(() => undefined as number | undefined);
+
+  let dayRates = rateHistory ? ratesOn(rateHistory, portfolio[0].date) ?? rates : rates;
+  const usdInBase = () => (dayRates ? convertCurrency(1, 'USD', currency, dayRates) : 1);
+
+  let value = 0;
+  let fx = usdInBase();
+  return portfolio.map(({ date, flow, invested }) => {
+    if (rateHistory?.[date]) dayRates = rateHistory[date];
+
+    // Growth of each component since the day before, in the base currency; flat until it has prices
+    const nextFx = usdInBase();
+    const growth = closes.reduce((total, component, index) => {
+      const { series } = component;
+      let price = prices[index];
+      while (component.cursor < series.length && series[component.cursor][0] <= date) {
+        price = series[component.cursor][1];
+        component.cursor++;
+      }
+      const previous = prices[index];
+      prices[index] = price;
+      const change = previous && price ? (price * nextFx) / (previous * fx) : 1;
+      return total + component.weight * change;
+    }, 0);
+    fx = nextFx;
+
+    value = Math.max(value * growth + flow, 0);
+    return { date, value: Math.round(value * 100) / 100, cash: 0, invested, flow };
+  });
+};
+
+export interface BenchmarkSeriesInput extends Omit<BenchmarkInput, 'benchmark'> {
+  /** The portfolio's snapshots, whose flows each benchmark follows. */
+  portfolio: Snapshot[];
+  benchmarks: Benchmark[];
+}
+
+/** Snapshots of each benchmark alongside `portfolio`; see benchmarkSnapshots. */
+export const benchmarkSeries = ({ portfolio, benchmarks, ...input }: BenchmarkSeriesInput) =>
+  benchmarks.map((benchmark) => ({ benchmark, snapshots: benchmarkSnapshots(portfolio, { ...input, benchmark }) }));
+
+export type BenchmarkSeries = ReturnType<typeof benchmarkSeries>[number];
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { deriveCashBalances, isStablecoin } from "./cash";
+import type { Account, CashMovement, Transaction } from "./types";
+
+const accounts: Account[] = [
+  { id: 'broker', name: 'Broker', kind: 'brokerage', costBasisMethod: 'fifo', tracksCash: true, createdAt: 0 },
+  { id: 'wallet', name: 'Wallet', kind: 'wallet', costBasisMethod: 'fifo', createdAt: 0 },
+];
+
+let created = 0;
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: `t${++created}`,
+  accountId: 'broker',
+  kind: 'buy',
+  assetId: 'AAPL',
+  symbol: 'AAPL',
+  name: 'Apple',
+  type: 'stock',
+  quantity: 10,
+  price: 100,
+  currency: 'USD',
+  date: '2026-01-01',
+  createdAt: created,
+  ...changes,
+});
+
+const movement = (changes: Partial<CashMovement>): CashMovement => ({
+  id: `m${++created}`,
+  accountId: 'broker',
+  kind: 'deposit',
+  amount: 5000,
+  currency: 'USD',
+  date: '2026-01-01',
+  createdAt: created,
+  ...changes,
+});
+
+describe('deriveCashBalances', () => {
+  it('settles trades, dividends and fees against the deposits', () => {
+    const balances = deriveCashBalances([
+      transaction({ fee: { amount: 5, paidIn: 'currency' } }),
+      transaction({ kind: 'sell', quantity: 4, price: 120, fee: { amount: 5, paidIn: 'currency' } }),
+      transaction({ kind: 'dividend', quantity: 6, price: 0.5 }),
+      transaction({ kind: 'deposit', quantity: 1, fee: { amount: 2, paidIn: 'currency' } }),
+    ], [movement({}), movement({ kind: 'withdraw', amount: 500 })], accounts);
+    expect(balances).toEqual([{ accountId: 'broker', currency: 'USD', amount: 5000 - 500 - 1005 + 475 + 3 - 2 }]);
+  });
+
+  it('keeps a balance per currency and leaves accounts without cash alone', () => {
+    const balances = deriveCashBalances([
+      transaction({ currency: 'EUR', price: 50 }),
+      transaction({ accountId: 'wallet', price: 50 }),
+    ], [movement({ currency: 'EUR', amount: 600 })], accounts);
+    expect(balances).toEqual([{ accountId: 'broker', currency: 'EUR', amount: 100 }]);
+  });
+
+  it('leaves cash alone for trades settled in a stablecoin', () => {
+    const balances = deriveCashBalances([
+      transaction({ type: 'crypto', assetId: 'bitcoin', symbol: 'BTC', quantity: 0.01, price: 50000, settledIn: 'USDT' }),
+      transaction({ type: 'crypto', assetId: 'bitcoin', symbol: 'BTC', kind: 'sell', quantity: 0.01, price: 60000, settledIn: 'USDT' }),
+    ], [movement({ amount: 100 })], accounts);
+    expect(balances).toEqual([{ accountId: 'broker', currency: 'USD', amount: 100 }]);
+  });
+
+  it('drops balances that only rounding left behind', () => {
+    const balances = deriveCashBalances([transaction({ quantity: 3, price: 0.1 })], [movement({ amount: 0.3 })], accounts);
+    expect(balances).toEqual([]);
+  });
+});
+
+describe('isStablecoin', () => {
+  it('only counts crypto with a stablecoin ticker', () => {
+    expect(isStablecoin({ type: 'crypto', symbol: 'usdc' })).toBe(true);
+    expect(isStablecoin({ type: 'crypto', symbol: 'BTC' })).toBe(false);
+    expect(isStablecoin({ type: 'stock', symbol: 'USDT' })).toBe(false);
+  });
+});
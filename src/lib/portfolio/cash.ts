@@ -0,0 +1,144 @@
+import type { Currency } from "@/lib/market";
+import type { Account, CashBalance, CashMovement, CashMovementDraft, Position, Transaction } from "./types";
+
+const STORAGE_KEY = 'cashMovements';
+
+// Balances this close to zero are what is left of rounding
+const CASH_DUST = 1e-6;
+
+export const cashMovementKindLabels: Record<CashMovement['kind'], string> = {
+  deposit: 'Deposit',
+  withdraw: 'Withdraw',
+};
+
+/** Stablecoins and the currency each one tracks. */
+export const stablecoinCurrencies: Record<string, Currency> = {
+  USDT: 'USD',
+  USDC: 'USD',
+  BUSD: 'USD',
+  FDUSD: 'USD',
+  TUSD: 'USD',
+  DAI: 'USD',
+};
+
+/** CoinGecko id of each stablecoin, for the holding that settles a trade in it. */
+export const stablecoinIds: Record<string, string> = {
+  USDT: 'tether',
+  USDC: 'usd-coin',
+  BUSD: 'binance-usd',
+  FDUSD: 'first-digital-usd',
+  TUSD: 'true-usd',
+  DAI: 'dai',
+};
+
+/** Stablecoin holdings count as cash equivalents rather than crypto. */
+export const isStablecoin = ({ type, symbol }: Pick<Position, 'type' | 'symbol'>) =>
+  type === 'crypto' && symbol.toUpperCase() in stablecoinCurrencies;
+
+const listeners = new Set<() => void>();
+let movements: CashMovement[] | null = null;
+
+const load = (): CashMovement[] => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '[]') as CashMovement[];
+  } catch (error) {
+    console.error('Error loading cash movements:', error);
+    return [];
+  }
+};
+
+export const getCashMovements = (): CashMovement[] => {
+  movements ??= load();
+  return movements;
+};
+
+const save = (next: CashMovement[]) => {
+  movements = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+};
+
+export const addCashMovement = (draft: CashMovementDraft): CashMovement => {
+  const movement: CashMovement = { ...draft, id: crypto.randomUUID(), createdAt: Date.now() };
+  save([...getCashMovements(), movement]);
+  return movement;
+};
+
+export const removeCashMovement = (id: string) => {
+  save(getCashMovements().filter((movement) => movement.id !== id));
+};
+
+// Put back a movement removed earlier, e.g. to undo a delete
+export const restoreCashMovement = (restored: CashMovement) => {
+  if (getCashMovements().some((movement) => movement.id === restored.id)) return;
+  save([...getCashMovements(), restored]);
+};
+
+// Swap every movement, e.g. for ones restored from a backup
+export const replaceCashMovements = (next: CashMovement[]) => {
+  save(next);
+};
+
+export const subscribeCashMovements = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Cash a transaction pays out (negative) or brings in, in its currency: buys
+ * cost their price and fee, sales and dividends pay out less their fee, and
+ * anything else only costs its fee, if that was paid in the currency. Trades
+ * settled in a stablecoin move that holding instead of cash (see
+ * settlementLeg).
+ */
+const cashFlow = ({ kind, price, quantity, fee, settledIn }: Transaction) => {
+  if (settledIn && (kind === 'buy' || kind === 'sell')) return 0;
+  const gross = (price ?? 0) * quantity;
+  const currencyFee = fee?.paidIn === 'currency' ? fee.amount : 0;
+  if (kind === 'buy') return -gross - currencyFee;
+  if (kind === 'sell' || kind === 'dividend') return gross - currencyFee;
+  return -currencyFee;
+};
+
+/**
+ * Running cash balances of the accounts that track cash, fed movements and
+ * transactions one at a time so they can be read part way through.
+ */
+export const createCashReplay = (accounts: Account[]) => {
+  const tracking = new Set(accounts.filter((account) => account.tracksCash).map((account) => account.id));
+  const balances = new Map<string, CashBalance>();
+
+  const settle = (accountId: string, currency: Currency, amount: number) => {
+    if (!tracking.has(accountId) || amount === 0) return;
+    const key = `${accountId}/${currency}`;
+    const balance = balances.get(key) ?? { accountId, currency, amount: 0 };
+    balance.amount += amount;
+    balances.set(key, balance);
+  };
+
+  return {
+    applyMovement: ({ accountId, kind, amount, currency }: CashMovement) =>
+      settle(accountId, currency, kind === 'deposit' ? amount : -amount),
+    applyTransaction: (transaction: Transaction) =>
+      settle(transaction.accountId, transaction.currency, cashFlow(transaction)),
+    balances: (): CashBalance[] =>
+      [...balances.values()].filter((balance) => Math.abs(balance.amount) >= CASH_DUST).map((balance) => ({ ...balance })),
+  };
+};
+
+/**
+ * Balance per currency of every account that tracks cash: its deposits less
+ * withdrawals, plus what its transactions settled.
+ */
+export const deriveCashBalances = (
+  transactions: Transaction[],
+  cashMovements: CashMovement[],
+  accounts: Account[]
+): CashBalance[] => {
+  const replay = createCashReplay(accounts);
+  cashMovements.forEach(replay.applyMovement);
+  transactions.forEach(replay.applyTransaction);
+  return replay.balances();
+};
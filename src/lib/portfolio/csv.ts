@@ -0,0 +1,63 @@
+/** Split CSV text into rows of fields: quoted fields, doubled quotes and CRLF line ends. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  // Spreadsheet apps often start the file with a byte order mark
+  text = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+export type CsvValue = string | number | undefined;
+
+const quote = (value: CsvValue) => {
+  // Text a spreadsheet would run as a formula is kept as text
+  const text = value === undefined ? '' : typeof value === 'string' && /^[=+@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Write rows as CSV with CRLF line ends. The byte order mark makes Excel read
+ * the file as UTF-8 instead of guessing a legacy encoding.
+ */
+export const toCsv = (rows: CsvValue[][]) => '\uFEFF' + rows.map((row) => row.map(quote).join(',')).join('\r\n') + '\r\n';
+
+/** CSV with one column per key of the records, in the order of the first record's keys. */
+export const recordsToCsv = (records: Record<string, CsvValue>[]) => {
+  if (records.length === 0) return toCsv([]);
+  const headers = Object.keys(records[0]);
+  return toCsv([headers, ...records.map((record) => headers.map((header) => record[header]))]);
+};
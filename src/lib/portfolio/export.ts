@@ -0,0 +1,111 @@
+import type { Currency } from "@/lib/market";
+import { recordsToCsv, type CsvValue } from "./csv";
+import { derivePositions, sortTransactions, type MethodForAccount, type ToBaseCurrency } from "./positions";
+import type { Account, Position, Transaction } from "./types";
+
+export type ExportFormat = 'csv' | 'json';
+
+export type ExportRecord = Record<string, CsvValue>;
+
+const round = (value: number | undefined, digits = 2) =>
+  value === undefined ? undefined : Number(value.toFixed(digits));
+
+const accountNames = (accounts: Account[]) => {
+  const names = new Map(accounts.map((account) => [account.id, account.name]));
+  return (id?: string) => (id ? names.get(id) ?? id : undefined);
+};
+
+/**
+ * One record per holding, amounts in `currency`. `priceOf` gives the current
+ * price per unit in that currency, or undefined when there is no reliable one.
+ */
+export const holdingRecords = (
+  positions: Position[],
+  accounts: Account[],
+  currency: Currency,
+  priceOf: (position: Position) => number | undefined
+): ExportRecord[] => {
+  const accountName = accountNames(accounts);
+  return positions.map((position) => {
+    const price = position.quantity > 0 ? priceOf(position) : undefined;
+    const value = price !== undefined ? price * position.quantity : undefined;
+    return {
+      'Account': accountName(position.accountId) ?? 'All accounts',
+      'Symbol': position.symbol,
+      'Name': position.name,
+      'Asset Type': position.type,
+      'Asset ID': position.assetId,
+      'Quantity': position.quantity,
+      'Currency': currency,
+      'Cost Basis': round(position.costBasis),
+      'Average Cost': position.quantity > 0 ? round(position.costBasis / position.quantity, 6) : undefined,
+      'Price': round(price, 6),
+      'Value': round(value),
+      'Unrealized Gain': value !== undefined ? round(value - position.costBasis) : undefined,
+      'Realized Gain': round(position.realizedGain),
+      'Income': round(position.income),
+      'Fees': round(position.fees),
+    };
+  });
+};
+
+/**
+ * One record per transaction. The column names are ones the generic CSV
+ * import reads, so the file can be imported again; moves between accounts
+ * only come back through a full backup. Trades settled in a stablecoin give
+ * it as their currency, which is how the import tells them apart.
+ */
+export const transactionRecords = (transactions: Transaction[], accounts: Account[]): ExportRecord[] => {
+  const accountName = accountNames(accounts);
+  return sortTransactions(transactions).map((transaction) => {
+    const paidIn = transaction.settledIn ?? transaction.currency;
+    return {
+      'ID': transaction.id,
+      'Date': transaction.date,
+      'Account': accountName(transaction.accountId),
+      'Type': transaction.kind,
+      'Symbol': transaction.symbol,
+      'Name': transaction.name,
+      'Asset Type': transaction.type,
+      'Asset ID': transaction.assetId,
+      'Quantity': transaction.quantity,
+      'Price': transaction.price,
+      'Currency': paidIn,
+      'Fee': transaction.fee?.amount,
+      'Fee Currency': transaction.fee && (transaction.fee.paidIn === 'asset' ? transaction.symbol : paidIn),
+      'To Account': accountName(transaction.toAccountId),
+      'From': transaction.from,
+      'To': transaction.to,
+      'Note': transaction.note,
+    };
+  });
+};
+
+/**
+ * Cost basis held, gains realized and income received so far at the end of
+ * each day with transactions, in the base currency (`currency`), for one
+ * account or all of them.
+ */
+export const performanceRecords = (
+  transactions: Transaction[],
+  toBase: ToBaseCurrency,
+  methodFor: MethodForAccount,
+  currency: Currency,
+  accountId?: string
+): ExportRecord[] => {
+  const dates = [...new Set(sortTransactions(transactions).map((transaction) => transaction.date))];
+  return dates.map((date) => {
+    const positions = derivePositions(transactions.filter((transaction) => transaction.date <= date), toBase, methodFor)
+      .filter((position) => !accountId || position.accountId === accountId);
+    return {
+      'Date': date,
+      'Currency': currency,
+      'Cost Basis': round(positions.reduce((total, position) => total + position.costBasis, 0)),
+      'Realized Gain': round(positions.reduce((total, position) => total + position.realizedGain, 0)),
+      'Income': round(positions.reduce((total, position) => total + position.income, 0)),
+    };
+  });
+};
+
+export const serializeRecords = (records: ExportRecord[], format: ExportFormat) =>
+  format === 'csv' ? recordsToCsv(records) : JSON.stringify(records, null, 2);
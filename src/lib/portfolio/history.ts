@@ -0,0 +1,43 @@
+import { convertCurrency, ratesOn } from "@/lib/market/fx";
+import type { FxRates } from "@/lib/market";
+import { measurePerformance, type Performance } from "./performance";
+import { methodForAccounts, positionKey, type ToBaseCurrency } from "./positions";
+import { buildSnapshots, type Snapshot, type SnapshotInput } from "./snapshots";
+
+/**
+ * What a portfolio history is built from. Plain data, so it can be posted to
+ * a worker: amounts convert at each day's rates and lots are drawn by each
+ * account's cost-basis method.
+ */
+export type PortfolioHistoryInput = Omit<SnapshotInput, 'asset' | 'toBase' | 'methodFor'>;
+
+export interface PortfolioHistoryResult {
+  snapshots: Snapshot[];
+  /** Performance of each asset on its own, by position key, with its trades as its flows. */
+  positions: Map<string, Performance>;
+}
+
+// Same rates as useToBaseCurrency: the closest day on or before, else today's
+const ledgerConverter = ({ currency, rateHistory, rates }: PortfolioHistoryInput): ToBaseCurrency => {
+  const byDate = new Map<string, FxRates | undefined>();
+  return (amount, from, date) => {
+    if (!byDate.has(date)) byDate.set(date, (rateHistory && ratesOn(rateHistory, date)) ?? rates);
+    const dayRates = byDate.get(date);
+    return dayRates ? convertCurrency(amount, from, currency, dayRates) : amount;
+  };
+};
+
+/** Daily snapshots of the portfolio in scope, and the performance of every asset it traded. */
+export const buildPortfolioHistory = (input: PortfolioHistoryInput): PortfolioHistoryResult => {
+  const snapshotInput: SnapshotInput = { ...input, toBase: ledgerConverter(input), methodFor: methodForAccounts(input.accounts) };
+  const { transactions, accountId, today } = input;
+
+  const keys = new Set(transactions
+    .filter((transaction) => !accountId || transaction.accountId === accountId || transaction.toAccountId === accountId)
+    .map(positionKey));
+
+  return {
+    snapshots: buildSnapshots(snapshotInput),
+    positions: new Map([...keys].map((key) => [key, measurePerformance(buildSnapshots({ ...snapshotInput, asset: key }), today)])),
+  };
+};
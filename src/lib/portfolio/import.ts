@@ -0,0 +1,420 @@
+import {
+  CURRENCIES,
+  findAsset,
+  getRegisteredAssetId,
+  toDateKey,
+  type AssetType,
+  type Currency,
+  type SearchResult,
+} from "@/lib/market";
+import { stablecoinCurrencies } from "./cash";
+import { parseCsv } from "./csv";
+import { positionKey } from "./positions";
+import type { Transaction, TransactionDraft, TransactionFee, TransactionKind } from "./types";
+
+export type ImportFormatId = 'coinbase' | 'binance' | 'kraken' | 'generic';
+
+export type ImportField =
+  | 'date'
+  | 'kind'
+  | 'symbol'
+  | 'assetType'
+  | 'quantity'
+  | 'price'
+  | 'total'
+  | 'currency'
+  | 'fee'
+  | 'feeCurrency'
+  | 'note'
+  | 'id';
+
+/** Header of the column each field is read from. */
+export type ColumnMapping = Partial<Record<ImportField, string>>;
+
+export const importFieldLabels: Record<ImportField, string> = {
+  date: 'Date',
+  kind: 'Type (buy, sell, ...)',
+  symbol: 'Symbol or pair',
+  assetType: 'Asset type',
+  quantity: 'Quantity',
+  price: 'Price per unit',
+  total: 'Total',
+  currency: 'Currency',
+  fee: 'Fee',
+  feeCurrency: 'Fee currency or coin',
+  note: 'Note',
+  id: 'Transaction id',
+};
+
+export const requiredImportFields: ImportField[] = ['date', 'kind', 'symbol', 'quantity'];
+
+interface ImportFormat {
+  label: string;
+  /** Columns every export in this format has; how it is recognized. */
+  signature: string[];
+  /** Likely headers for each field, best first. */
+  columns: Partial<Record<ImportField, string[]>>;
+  /** Exchanges only trade crypto. */
+  assetType?: AssetType;
+}
+
+export const importFormats: Record<ImportFormatId, ImportFormat> = {
+  coinbase: {
+    label: 'Coinbase',
+    signature: ['Timestamp', 'Transaction Type', 'Asset', 'Quantity Transacted'],
+    columns: {
+      date: ['Timestamp'],
+      kind: ['Transaction Type'],
+      symbol: ['Asset'],
+      quantity: ['Quantity Transacted'],
+      price: ['Spot Price at Transaction', 'Price at Transaction'],
+      total: ['Subtotal'],
+      currency: ['Spot Price Currency', 'Price Currency'],
+      fee: ['Fees and/or Spread', 'Fees'],
+      note: ['Notes'],
+      id: ['ID'],
+    },
+    assetType: 'crypto',
+  },
+  binance: {
+    label: 'Binance',
+    signature: ['Date(UTC)', 'Price'],
+    columns: {
+      date: ['Date(UTC)'],
+      kind: ['Side', 'Type'],
+      symbol: ['Pair', 'Market'],
+      quantity: ['Executed', 'Amount'],
+      price: ['Price'],
+      total: ['Total', 'Amount'],
+      fee: ['Fee'],
+      feeCurrency: ['Fee Coin', 'Fee Asset'],
+    },
+    assetType: 'crypto',
+  },
+  kraken: {
+    label: 'Kraken',
+    signature: ['txid', 'pair', 'vol'],
+    columns: {
+      date: ['time'],
+      kind: ['type'],
+      symbol: ['pair'],
+      quantity: ['vol'],
+      price: ['price'],
+      total: ['cost'],
+      fee: ['fee'],
+      id: ['txid'],
+    },
+    assetType: 'crypto',
+  },
+  generic: {
+    label: 'Other broker (generic CSV)',
+    signature: [],
+    columns: {
+      date: ['Date', 'Trade Date', 'Timestamp', 'Time'],
+      kind: ['Type', 'Action', 'Side', 'Transaction Type'],
+      symbol: ['Symbol', 'Ticker', 'Asset', 'Instrument'],
+      assetType: ['Asset Type', 'Asset Class', 'Security Type'],
+      quantity: ['Quantity', 'Qty', 'Shares', 'Units', 'Amount'],
+      price: ['Price', 'Unit Price', 'Price Per Share'],
+      total: ['Total', 'Value', 'Net Amount'],
+      currency: ['Currency', 'Ccy'],
+      fee: ['Fee', 'Fees', 'Commission'],
+      feeCurrency: ['Fee Currency', 'Fee Coin', 'Fee Asset'],
+      note: ['Note', 'Notes', 'Description', 'Memo'],
+      id: ['ID', 'Transaction ID', 'Reference'],
+    },
+  },
+};
+
+/** A CSV file split into its header and data rows. */
+export interface ImportTable {
+  /** Format recognized from the header; 'generic' when none matched. */
+  format: ImportFormatId;
+  headers: string[];
+  rows: string[][];
+}
+
+/** One data row read through a column mapping. */
+export interface ImportRow {
+  /** Row number in the file, counting the header as row 1. */
+  line: number;
+  kind?: TransactionKind;
+  date?: string;
+  symbol?: string;
+  assetType?: AssetType;
+  quantity?: number;
+  price?: number;
+  currency?: Currency;
+  /** Stablecoin the row was priced in, if it was. */
+  settledIn?: string;
+  fee?: TransactionFee;
+  note?: string;
+  importId?: string;
+  /** Why the row can't be imported. */
+  error?: string;
+}
+
+const sameHeader = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Exports often start with a few lines of account details before the header
+const HEADER_SEARCH_ROWS = 20;
+
+export const readImportFile = (text: string): ImportTable => {
+  const table = parseCsv(text);
+  const formats = (Object.keys(importFormats) as ImportFormatId[]).filter((id) => id !== 'generic');
+
+  for (let index = 0; index < Math.min(table.length, HEADER_SEARCH_ROWS); index++) {
+    const headers = table[index];
+    const format = formats.find((id) =>
+      importFormats[id].signature.every((column) => headers.some((header) => sameHeader(header, column)))
+    );
+    if (format) {
+      return { format, headers, rows: table.slice(index + 1) };
+    }
+  }
+  return { format: 'generic', headers: table[0] ?? [], rows: table.slice(1) };
+};
+
+/** The columns `format` reads each field from, among the file's headers. */
+export const defaultMapping = (format: ImportFormatId, headers: string[]): ColumnMapping =>
+  Object.fromEntries(
+    Object.entries(importFormats[format].columns).flatMap(([field, candidates]) => {
+      const header = candidates
+        .map((candidate) => headers.find((header) => sameHeader(header, candidate)))
+        .find(Boolean);
+      return header ? [[field, header]] : [];
+    })
+  );
+
+// Stablecoins count as the currency they track
+const currencyAliases = stablecoinCurrencies;
+
+// Quote assets a pair like BTCUSDT can end in, longest first
+const QUOTE_ASSETS = ['FDUSD', 'USDT', 'USDC', 'BUSD', 'TUSD', 'DAI', 'USD', 'EUR', 'GBP', 'JPY', 'BTC', 'ETH', 'BNB'];
+
+const krakenAliases: Record<string, string> = { XBT: 'BTC', XDG: 'DOGE' };
+
+// Kraken's legacy codes pad tickers with X (crypto) or Z (fiat): XXBT, ZUSD
+const fromKrakenCode = (code: string) => {
+  const ticker = code.length === 4 && /^[XZ]/.test(code) ? code.slice(1) : code;
+  return krakenAliases[ticker] ?? ticker;
+};
+
+// Split a trading pair into base and quote asset: BTC/USD, BTC-USD, BTCUSDT, XXBTZUSD
+const splitPair = (value: string, format: ImportFormatId): [string, string?] => {
+  const code = format === 'kraken' ? fromKrakenCode : (ticker: string) => ticker;
+  const separated = value.split(/[/\-_]/);
+  if (separated.length === 2) return [code(separated[0]), code(separated[1])];
+
+  if (format === 'kraken' && value.length === 8 && /^[XZ]/.test(value)) {
+    return [code(value.slice(0, 4)), code(value.slice(4))];
+  }
+  if (importFormats[format].assetType === 'crypto') {
+    const quote = QUOTE_ASSETS.find((asset) => value.endsWith(asset) && value.length > asset.length);
+    if (quote) return [code(value.slice(0, -quote.length)), quote];
+  }
+  return [code(value)];
+};
+
+// Checked in order, so "Advanced Trade Sell" is a sell and "Staking Income" a staking reward
+const kindPatterns: [RegExp, TransactionKind | null][] = [
+  [/convert/, null],
+  [/sell/, 'sell'],
+  [/buy/, 'buy'],
+  [/withdraw|send/, 'withdraw'],
+  [/dividend/, 'dividend'],
+  [/reward|staking/, 'staking'],
+  [/interest/, 'interest'],
+  [/deposit|receive|income|airdrop/, 'deposit'],
+  [/fee/, 'fee'],
+];
+
+const parseKind = (value: string): TransactionKind | null | undefined =>
+  kindPatterns.find(([pattern]) => pattern.test(value.toLowerCase()))?.[1];
+
+const numberPattern = /[-+]?(\d[\d,]*)(\.\d+)?([eE][-+]?\d+)?/;
+
+// The first number in a cell, past any currency code or symbol: "$1,234.56",
+// "EUR 12.5", "0.00075BNB". Commas only count as thousands separators; a
+// number they could also be the decimal point of ("12,5", "1.234,56") is
+// ambiguous and gives null. Undefined when the cell holds no number.
+const parseNumber = (value: string): number | null | undefined => {
+  const match = value.match(numberPattern);
+  if (!match) return undefined;
+  const [text, whole] = match;
+  if (/^[.,]\d/.test(value.slice(match.index + text.length))) return null;
+  if (whole.includes(',') && !/^\d{1,3}(,\d{3})+$/.test(whole)) return null;
+  return parseFloat(text.replace(/,/g, ''));
+};
+
+const parseDate = (value: string) => {
+  const iso = value.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+  // Anything else is read as local time, so take the local calendar day
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return undefined;
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map((part) => String(part).padStart(2, '0')).join('-');
+};
+
+const parseAssetType = (value: string): AssetType | undefined => {
+  if (/crypto|coin|token/i.test(value)) return 'crypto';
+  if (/stock|equit|etf|share|fund/i.test(value)) return 'stock';
+  return undefined;
+};
+
+const isCurrency = (code: string): code is Currency => (CURRENCIES as readonly string[]).includes(code);
+
+/** Read each data row through `mapping`; rows that can't become a transaction get an `error`. */
+export const mapImportRows = (
+  table: ImportTable,
+  format: ImportFormatId,
+  mapping: ColumnMapping,
+  defaultCurrency: Currency
+): ImportRow[] => {
+  const indexes = Object.fromEntries(
+    Object.entries(mapping).map(([field, header]) => [field, table.headers.indexOf(header)])
+  ) as Partial<Record<ImportField, number>>;
+
+  return table.rows.map((cells, index): ImportRow => {
+    const value = (field: ImportField) => (indexes[field] >= 0 ? cells[indexes[field]]?.trim() ?? '' : '');
+    const row: ImportRow = { line: index + 2 };
+    const fail = (error: string) => ({ ...row, error });
+
+    const kind = parseKind(value('kind'));
+    if (kind === null) return fail(`"${value('kind')}" can't be imported; record it as a sell and a buy instead`);
+    if (!kind) return fail(`Unknown transaction type "${value('kind')}"`);
+    row.kind = kind;
+
+    row.date = parseDate(value('date'));
+    if (!row.date) return fail(`Unreadable date "${value('date')}"`);
+    if (row.date > toDateKey(Date.now())) return fail('Date is in the future');
+
+    const [symbol, quote] = splitPair(value('symbol').toUpperCase(), format);
+    if (!symbol) return fail('No symbol');
+    row.symbol = symbol;
+    row.assetType = importFormats[format].assetType ?? parseAssetType(value('assetType'));
+
+    const ambiguous = (['quantity', 'price', 'total', 'fee'] as const).find((field) => parseNumber(value(field)) === null);
+    if (ambiguous) return fail(`Ambiguous number "${value(ambiguous)}"; write it as 1234.56`);
+
+    row.quantity = Math.abs(parseNumber(value('quantity')) ?? 0);
+    if (!(row.quantity > 0)) return fail(`Unreadable quantity "${value('quantity')}"`);
+
+    const code = (value('currency').toUpperCase() || quote || defaultCurrency).trim();
+    const currency = currencyAliases[code] ?? code;
+    if (!isCurrency(currency)) return fail(`Priced in ${code}; only ${CURRENCIES.join(', ')} prices can be imported`);
+    row.currency = currency;
+    if (code in stablecoinCurrencies && (kind === 'buy' || kind === 'sell')) row.settledIn = code;
+
+    const price = Math.abs(parseNumber(value('price')) ?? 0);
+    const total = Math.abs(parseNumber(value('total')) ?? 0);
+    row.price = price > 0 ? price : total > 0 ? total / row.quantity : undefined;
+    if ((kind === 'buy' || kind === 'sell') && row.price === undefined) return fail('No price or total');
+
+    row.note = value('note') || undefined;
+    row.importId = value('id') || undefined;
+
+    // Exchanges may write the coin after the amount, e.g. "0.00075BNB"
+    const fee = Math.abs(parseNumber(value('fee')) ?? 0);
+    const feeCode = (value('feeCurrency') || value('fee').match(/[A-Za-z]{2,}$/)?.[0] || '').toUpperCase();
+    if (fee > 0 && (!feeCode || (currencyAliases[feeCode] ?? feeCode) === currency)) {
+      row.fee = { amount: fee, paidIn: 'currency' };
+    } else if (fee > 0 && feeCode === symbol) {
+      row.fee = { amount: fee, paidIn: 'asset' };
+    } else if (fee > 0) {
+      // Paid in a third asset; that holding is the place to record it
+      row.note = [row.note, `Fee of ${fee} ${feeCode} not included`].filter(Boolean).join(' · ');
+    }
+    return row;
+  });
+};
+
+// Rows are looked up once per ticker and asset type
+export const importAssetKey = (row: Pick<ImportRow, 'symbol' | 'assetType'>) =>
+  `${row.assetType ?? 'unknown'}:${row.symbol}`;
+
+const findImportAsset = async (symbol: string, assetType?: AssetType): Promise<SearchResult | undefined> => {
+  // Without an asset type column, a ticker we know as a coin is crypto, otherwise try stocks first
+  const types: AssetType[] = assetType
+    ? [assetType]
+    : getRegisteredAssetId('crypto', symbol) ? ['crypto'] : ['stock', 'crypto'];
+
+  for (const type of types) {
+    try {
+      const asset = await findAsset(type, symbol);
+      if (asset) return asset;
+    } catch (error) {
+      console.error(`Error looking up ${symbol}:`, error);
+    }
+    // The search may be down or rate limited; a coin chosen before still resolves
+    const known = type === 'crypto' && getRegisteredAssetId(type, symbol);
+    if (known) return { id: known, symbol, name: symbol, type };
+  }
+  return undefined;
+};
+
+/**
+ * Look up each distinct ticker with the search providers, one at a time to
+ * stay under their rate limits. Keys are importAssetKey values.
+ */
+export const resolveImportAssets = async (
+  rows: ImportRow[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Map<string, SearchResult | undefined>> => {
+  const pending = [...new Map(rows.filter((row) => !row.error).map((row) => [importAssetKey(row), row])).values()];
+  const assets = new Map<string, SearchResult | undefined>();
+
+  for (const row of pending) {
+    assets.set(importAssetKey(row), await findImportAsset(row.symbol, row.assetType));
+    onProgress?.(assets.size, pending.length);
+  }
+  return assets;
+};
+
+/** The transaction an importable row stands for, once its asset is known. */
+export const toTransactionDraft = (row: ImportRow, asset: SearchResult | undefined, accountId: string): TransactionDraft => ({
+  accountId,
+  kind: row.kind,
+  assetId: asset?.id,
+  symbol: asset?.symbol.toUpperCase() ?? row.symbol,
+  name: asset?.name ?? row.symbol,
+  type: asset?.type ?? row.assetType,
+  quantity: row.quantity,
+  price: row.price,
+  currency: row.currency,
+  settledIn: row.settledIn,
+  fee: row.fee,
+  date: row.date,
+  note: row.note,
+  importId: row.importId,
+});
+
+const signature = (transaction: TransactionDraft) =>
+  [
+    transaction.accountId,
+    positionKey(transaction),
+    transaction.kind,
+    transaction.date,
+    transaction.quantity.toPrecision(10),
+    transaction.price?.toPrecision(10) ?? '',
+  ].join('|');
+
+/**
+ * Flags each draft that repeats a transaction already in the ledger, or an
+ * earlier draft: the same exported transaction id in the same account, or
+ * the same asset, type, date, quantity and price.
+ */
+export const findDuplicates = (drafts: TransactionDraft[], existing: Transaction[]): boolean[] => {
+  const ids = new Set(existing.flatMap((transaction) =>
+    transaction.importId ? [`${transaction.accountId}|${transaction.importId}`] : []
+  ));
+  const signatures = new Set(existing.map(signature));
+
+  return drafts.map((draft) => {
+    const id = draft.importId && `${draft.accountId}|${draft.importId}`;
+    const duplicate = (id && ids.has(id)) || signatures.has(signature(draft));
+    if (id) ids.add(id);
+    signatures.add(signature(draft));
+    return Boolean(duplicate);
+  });
+};
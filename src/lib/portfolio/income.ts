@@ -0,0 +1,42 @@
+import type { Income, IncomeKind, Position } from "./types";
+
+export type IncomePeriod = 'month' | 'year';
+
+export interface IncomeTotals {
+  /** YYYY-MM or YYYY. */
+  period: string;
+  byKind: Record<IncomeKind, number>;
+  total: number;
+}
+
+// Yield on cost looks at the income of the last year
+const TRAILING_DAYS = 365;
+const DAY = 24 * 60 * 60 * 1000;
+
+/** Income added up per calendar month or year, newest first. */
+export const incomeByPeriod = (incomes: Income[], period: IncomePeriod): IncomeTotals[] => {
+  const totals = new Map<string, IncomeTotals>();
+  for (const income of incomes) {
+    const key = income.date.slice(0, period === 'month' ? 7 : 4);
+    const entry = totals.get(key) ?? { period: key, byKind: { dividend: 0, staking: 0, interest: 0 }, total: 0 };
+    entry.byKind[income.kind] += income.amount;
+    entry.total += income.amount;
+    totals.set(key, entry);
+  }
+  return [...totals.values()].sort((a, b) => b.period.localeCompare(a.period));
+};
+
+/** Income received in the 12 months up to `asOf` (YYYY-MM-DD). */
+export const trailingIncome = (position: Position, asOf: string) => {
+  const since = new Date(Date.parse(asOf) - TRAILING_DAYS * DAY).toISOString().slice(0, 10);
+  return position.incomes
+    .filter((income) => income.date > since && income.date <= asOf)
+    .reduce((total, income) => total + income.amount, 0);
+};
+
+/**
+ * The last 12 months of income as a share of what the units still held
+ * cost; undefined when nothing is held at a cost.
+ */
+export const yieldOnCost = (position: Position, asOf: string) =>
+  position.costBasis > 0 ? trailingIncome(position, asOf) / position.costBasis : undefined;
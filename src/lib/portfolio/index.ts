@@ -0,0 +1,18 @@
+export * from "./types";
+export * from "./ledger";
+export * from "./positions";
+export * from "./income";
+export * from "./accounts";
+export * from "./cash";
+export * from "./csv";
+export * from "./import";
+export * from "./export";
+export * from "./backup";
+export * from "./tax";
+export * from "./snapshots";
+export * from "./performance";
+export * from "./benchmarks";
+export * from "./allocation";
+export * from "./risk";
+export * from "./history";
+export * from "./tasks";
@@ -0,0 +1,161 @@
+import { getRegisteredAssetId, toDateKey, type AssetType, type Currency, type QuoteSource } from "@/lib/market";
+import { DEFAULT_ACCOUNT_ID } from "./accounts";
+import type { Transaction, TransactionDraft } from "./types";
+
+const STORAGE_KEY = 'transactions';
+const LEGACY_PORTFOLIO_KEY = 'portfolio';
+export const LAST_PRICES_KEY = 'lastKnownPrices';
+
+/** Last price seen for a held asset, keyed by `type:assetId`. */
+export interface LastKnownPrice {
+  price: number;
+  source: QuoteSource;
+  updatedAt: number;
+}
+
+// One row of the single-lot portfolio saved before the ledger existed
+interface LegacyPortfolioItem {
+  id: string;
+  assetId?: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  quantity: number;
+  purchasePrice: number;
+  currency?: Currency;
+  purchaseDate?: string;
+  currentPrice?: number;
+  priceSource?: QuoteSource;
+  priceUpdatedAt?: number;
+}
+
+const listeners = new Set<() => void>();
+let transactions: Transaction[] | null = null;
+
+// Item ids were creation timestamps, the best guess at when undated items were bought
+const createdAt = (item: LegacyPortfolioItem) => {
+  const timestamp = Number(item.id);
+  return Number.isFinite(timestamp) ? timestamp : Date.now();
+};
+
+/**
+ * Turn each saved portfolio item into the buy it stands for. The old key is
+ * left in place as a backup; it is only read while no ledger exists.
+ */
+const migrateLegacyPortfolio = (): Transaction[] => {
+  const saved = localStorage.getItem(LEGACY_PORTFOLIO_KEY);
+  if (!saved) return [];
+
+  try {
+    const items = JSON.parse(saved) as LegacyPortfolioItem[];
+    const migrated = items.map((item): Transaction => ({
+      id: `legacy-${item.id}`,
+      accountId: DEFAULT_ACCOUNT_ID,
+      kind: 'buy',
+      assetId: item.assetId ?? getRegisteredAssetId(item.type, item.symbol),
+      symbol: item.symbol,
+      name: item.name,
+      type: item.type,
+      quantity: item.quantity,
+      price: item.purchasePrice,
+      currency: item.currency ?? 'USD',
+      date: item.purchaseDate ?? toDateKey(createdAt(item)),
+      createdAt: createdAt(item),
+    }));
+
+    // Items without a source may hold made-up prices, so they keep none
+    const lastPrices = Object.fromEntries(
+      items
+        .filter((item) => item.assetId && item.currentPrice !== undefined && item.priceSource)
+        .map((item) => [
+          `${item.type}:${item.assetId}`,
+          { price: item.currentPrice, source: item.priceSource, updatedAt: item.priceUpdatedAt ?? 0 },
+        ])
+    );
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(migrated));
+    localStorage.setItem(LAST_PRICES_KEY, JSON.stringify(lastPrices));
+    return migrated;
+  } catch (error) {
+    console.error('Error migrating portfolio:', error);
+    return [];
+  }
+};
+
+const load = (): Transaction[] => {
+  const saved = localStorage.getItem(STORAGE_KEY);
+  if (saved === null) return migrateLegacyPortfolio();
+
+  try {
+    // Transactions recorded before accounts existed belong to the default one
+    return (JSON.parse(saved) as Transaction[]).map((transaction) =>
+      transaction.accountId ? transaction : { ...transaction, accountId: DEFAULT_ACCOUNT_ID }
+    );
+  } catch (error) {
+    console.error('Error loading transactions:', error);
+    return [];
+  }
+};
+
+export const getTransactions = (): Transaction[] => {
+  transactions ??= load();
+  return transactions;
+};
+
+const save = (next: Transaction[]) => {
+  transactions = next;
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  listeners.forEach((listener) => listener());
+};
+
+export const addTransaction = (draft: TransactionDraft): Transaction => {
+  const transaction: Transaction = { ...draft, id: crypto.randomUUID(), createdAt: Date.now() };
+  save([...getTransactions(), transaction]);
+  return transaction;
+};
+
+export const addTransactions = (drafts: TransactionDraft[]): Transaction[] => {
+  const now = Date.now();
+  // Spaced a millisecond apart so same-day transactions keep the file's order
+  const added = drafts.map((draft, index): Transaction => ({ ...draft, id: crypto.randomUUID(), createdAt: now + index }));
+  save([...getTransactions(), ...added]);
+  return added;
+};
+
+export const updateTransaction = (id: string, changes: Partial<TransactionDraft>) => {
+  save(getTransactions().map((transaction) => (transaction.id === id ? { ...transaction, ...changes } : transaction)));
+};
+
+export const removeTransactions = (ids: string[]) => {
+  const removed = new Set(ids);
+  save(getTransactions().filter((transaction) => !removed.has(transaction.id)));
+};
+
+// Put back transactions removed earlier, e.g. to undo a delete
+export const restoreTransactions = (restored: Transaction[]) => {
+  const ids = new Set(getTransactions().map((transaction) => transaction.id));
+  save([...getTransactions(), ...restored.filter((transaction) => !ids.has(transaction.id))]);
+};
+
+// Swap the whole ledger, e.g. for one restored from a backup
+export const replaceTransactions = (next: Transaction[]) => {
+  save(next);
+};
+
+// Attach a provider id to every transaction of a ticker that was recorded without one
+export const resolveAssetId = (type: AssetType, symbol: string, assetId: string) => {
+  save(
+    getTransactions().map((transaction) =>
+      !transaction.assetId && transaction.type === type && transaction.symbol === symbol
+        ? { ...transaction, assetId }
+        : transaction
+    )
+  );
+};
+
+export const subscribeTransactions = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
@@ -0,0 +1,150 @@
+import type { Snapshot } from "./snapshots";
+
+export type ReturnPeriod = 'MTD' | 'QTD' | 'YTD';
+
+export const returnPeriodLabels: Record<ReturnPeriod, string> = {
+  MTD: 'Month to date',
+  QTD: 'Quarter to date',
+  YTD: 'Year to date',
+};
+
+/** Returns as fractions (0.1 is 10%); undefined where there is nothing to measure. */
+export interface Performance {
+  /** Time-weighted return since the first snapshot. */
+  twr?: number;
+  /** Money-weighted return (internal rate of return) over the same days. */
+  mwr?: number;
+  /** Both as yearly rates; only given once there is a year of history. */
+  annualizedTwr?: number;
+  annualizedMwr?: number;
+  periods: Record<ReturnPeriod, number | undefined>;
+  /** Days of history measured. */
+  days: number;
+}
+
+/** Return of one day, as a fraction. */
+export interface DailyReturn {
+  date: string;
+  value: number;
+}
+
+/** A payment into (negative) or out of an investment, as XIRR sees it. */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+const yearsBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / DAY / DAYS_PER_YEAR;
+
+/** First day of the month, quarter or year `today` is in. */
+export const periodStart = (period: ReturnPeriod, today: string) => {
+  const year = today.slice(0, 4);
+  const month = Number(today.slice(5, 7));
+  switch (period) {
+    case 'MTD': return `${today.slice(0, 7)}-01`;
+    case 'QTD': return `${year}-${String(month - ((month - 1) % 3)).padStart(2, '0')}-01`;
+    case 'YTD': return `${year}-01-01`;
+  }
+};
+
+/**
+ * Each day's return, with the day's flow taken out so deposits and
+ * withdrawals don't count as gains or losses. Money put in counts as there
+ * from the start of its day, money taken out until the end of it, so a day
+ * that opens or closes the portfolio still has something to measure against.
+ * The first snapshot is the starting value; days with nothing invested are
+ * left out.
+ */
+export const dailyReturns = (snapshots: Snapshot[]): DailyReturn[] => {
+  const returns: DailyReturn[] = [];
+  for (let index = 1; index < snapshots.length; index++) {
+    const previous = snapshots[index - 1].value;
+    const { date, value, flow } = snapshots[index];
+    const base = previous + Math.max(flow, 0);
+    if (base > 0) returns.push({ date, value: (value - previous - flow) / base });
+  }
+  return returns;
+};
+
+/** Daily returns chained together; undefined when no day can be measured. */
+export const timeWeightedReturn = (snapshots: Snapshot[]): number | undefined => {
+  const returns = dailyReturns(snapshots);
+  if (returns.length === 0) return undefined;
+  return returns.reduce((growth, day) => growth * (1 + day.value), 1) - 1;
+};
+
+/**
+ * The yearly rate at which `flows` net to zero (XIRR). Solved by bisection,
+ * which always converges once the rate is bracketed.
+ */
+export const xirr = (flows: CashFlow[]): number | undefined => {
+  if (!flows.some((flow) => flow.amount > 0) || !flows.some((flow) => flow.amount < 0)) return undefined;
+
+  const start = flows.reduce((earliest, flow) => (flow.date < earliest ? flow.date : earliest), flows[0].date);
+  const timed = flows.map((flow) => ({ years: yearsBetween(start, flow.date), amount: flow.amount }));
+  const npv = (rate: number) => timed.reduce((total, flow) => total + flow.amount / (1 + rate) ** flow.years, 0);
+
+  let low = -0.9999;
+  let high = 1;
+  while (Math.sign(npv(low)) === Math.sign(npv(high))) {
+    high *= 2;
+    if (high > 1e6) return undefined;
+  }
+  for (let iteration = 0; iteration < 200 && high - low > 1e-10; iteration++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(npv(middle)) === Math.sign(npv(low))) low = middle;
+    else high = middle;
+  }
+  return (low + high) / 2;
+};
+
+// Snapshots from `start` on, led by the day before as the starting value, or by nothing at all
+const since = (snapshots: Snapshot[], start: string): Snapshot[] => {
+  const first = snapshots.findIndex((snapshot) => snapshot.date >= start);
+  if (first < 0) return [];
+  if (first > 0) return snapshots.slice(first - 1);
+  return [{ date: start, value: 0, cash: 0, invested: 0, flow: 0 }, ...snapshots];
+};
+
+const annualize = (total: number | undefined, years: number) =>
+  total !== undefined && years >= 1 ? (1 + total) ** (1 / years) - 1 : undefined;
+
+/**
+ * Time- and money-weighted returns of a snapshot series up to `today`, plus
+ * the time-weighted return of the month, quarter and year so far. The
+ * money-weighted return treats every flow as paid in and the last value as
+ * paid out, so it reflects when money went in as well as how it did.
+ */
+export const measurePerformance = (snapshots: Snapshot[], today: string): Performance => {
+  const periods = { MTD: undefined, QTD: undefined, YTD: undefined } as Record<ReturnPeriod, number | undefined>;
+  if (snapshots.length === 0) return { periods, days: 0 };
+
+  const first = snapshots[0].date;
+  const last = snapshots[snapshots.length - 1];
+  const years = yearsBetween(first, last.date);
+
+  const twr = timeWeightedReturn(since(snapshots, first));
+  const flows: CashFlow[] = [
+    ...snapshots.filter((snapshot) => snapshot.flow !== 0).map(({ date, flow }) => ({ date, amount: -flow })),
+    { date: last.date, amount: last.value },
+  ];
+  const rate = xirr(flows);
+  // Over less than a year the yearly rate overstates things; give what it comes to over the days held
+  const mwr = rate === undefined ? undefined : (1 + rate) ** Math.max(years, 1 / DAYS_PER_YEAR) - 1;
+
+  for (const period of Object.keys(periods) as ReturnPeriod[]) {
+    periods[period] = timeWeightedReturn(since(snapshots, periodStart(period, today)));
+  }
+
+  return {
+    twr,
+    mwr,
+    annualizedTwr: annualize(twr, years),
+    annualizedMwr: years >= 1 ? rate : undefined,
+    periods,
+    days: snapshots.length,
+  };
+};
@@ -0,0 +1,13 @@
+// Runs portfolio tasks off the main thread; see usePortfolioTask
+import { runPortfolioTask, type PortfolioTaskRequest, type PortfolioTaskResponse } from "./tasks";
+
+self.onmessage = (event: MessageEvent<PortfolioTaskRequest>) => {
+  const { id, task, input } = event.data;
+  let response: PortfolioTaskResponse;
+  try {
+    response = { id, result: runPortfolioTask(task, input as never) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
@@ -0,0 +1,136 @@
+import { describe, expect, it } from "vitest";
+import { combinePositions, derivePositions, lotsHeld, quantityHeld, settlementLeg, type ToBaseCurrency } from "./positions";
+import type { CostBasisMethod, Transaction } from "./types";
+
+const asIs: ToBaseCurrency = (amount) => amount;
+
+let created = 0;
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: `t${++created}`,
+  accountId: 'main',
+  kind: 'buy',
+  assetId: 'bitcoin',
+  symbol: 'BTC',
+  name: 'Bitcoin',
+  type: 'crypto',
+  quantity: 1,
+  price: 100,
+  currency: 'USD',
+  date: '2026-01-01',
+  createdAt: created,
+  ...changes,
+});
+
+const byMethod = (method: CostBasisMethod) => () => method;
+
+describe('derivePositions', () => {
+  const ledger = [
+    transaction({ id: 'cheap', date: '2026-01-01', quantity: 1, price: 100 }),
+    transaction({ id: 'dear', date: '2026-02-01', quantity: 1, price: 300 }),
+    transaction({ id: 'mid', date: '2026-03-01', quantity: 1, price: 200 }),
+    transaction({ id: 'sale', kind: 'sell', date: '2026-04-01', quantity: 1, price: 250 }),
+  ];
+
+  it.each([
+    ['fifo', 'cheap', 150],
+    ['lifo', 'mid', 50],
+    ['hifo', 'dear', -50],
+  ] as const)('matches a %s sale against the %s lot', (method, lotId, gain) => {
+    const [position] = derivePositions(ledger, asIs, byMethod(method));
+    expect(position.realizedGains).toHaveLength(1);
+    expect(position.realizedGains[0]).toMatchObject({ lotId, gain });
+    expect(position.quantity).toBe(2);
+    expect(position.costBasis).toBe(600 - position.realizedGains[0].costBasis);
+  });
+
+  it('draws an even share of every lot at average cost', () => {
+    const [position] = derivePositions(ledger, asIs, byMethod('average'));
+    expect(position.realizedGain).toBeCloseTo(250 - 200);
+    expect(position.costBasis).toBeCloseTo(400);
+    position.lots.forEach((lot) => expect(lot.quantity).toBeCloseTo(2 / 3));
+  });
+
+  it('takes the lots a sale names before the oldest', () => {
+    const sale = transaction({ kind: 'sell', date: '2026-04-01', quantity: 1.5, price: 250, lots: [{ lotId: 'mid', quantity: 1 }] });
+    const [position] = derivePositions([...ledger.slice(0, 3), sale], asIs, byMethod('specific'));
+    expect(position.realizedGains.map((gain) => [gain.lotId, gain.quantity])).toEqual([['mid', 1], ['cheap', 0.5]]);
+  });
+
+  it('spreads a sale fee over the lots it draws on', () => {
+    const [position] = derivePositions([
+      transaction({ quantity: 2, price: 100, fee: { amount: 10, paidIn: 'currency' } }),
+      transaction({ kind: 'sell', date: '2026-02-01', quantity: 1, price: 150, fee: { amount: 4, paidIn: 'currency' } }),
+    ], asIs);
+    expect(position.realizedGains[0]).toMatchObject({ proceeds: 146, costBasis: 105, gain: 41 });
+    expect(position.costBasis).toBe(105);
+  });
+
+  it('leaves units paid as a fee out of the lot, keeping their cost', () => {
+    const [position] = derivePositions([transaction({ quantity: 1, price: 100, fee: { amount: 0.1, paidIn: 'asset' } })], asIs);
+    expect(position.quantity).toBeCloseTo(0.9);
+    expect(position.costBasis).toBe(100);
+  });
+
+  it('moves lots to another account with their dates and cost', () => {
+    const positions = derivePositions([
+      transaction({ id: 'buy', quantity: 2, price: 100 }),
+      transaction({ kind: 'transfer', date: '2026-03-01', quantity: 1, price: undefined, toAccountId: 'cold' }),
+    ], asIs);
+    const cold = positions.find((position) => position.accountId === 'cold');
+    expect(cold.lots).toEqual([{ id: expect.stringContaining('buy'), date: '2026-01-01', acquired: 1, quantity: 1, costBasis: 100 }]);
+    expect(positions.find((position) => position.accountId === 'main').quantity).toBe(1);
+    expect(combinePositions(positions)[0]).toMatchObject({ quantity: 2, costBasis: 200, realizedGain: 0 });
+  });
+
+  it('converts each amount at the rate of its own day', () => {
+    const toBase: ToBaseCurrency = (amount, currency, date) => (date < '2026-02-01' ? amount * 0.9 : amount * 0.8);
+    const [position] = derivePositions([
+      transaction({ quantity: 1, price: 100 }),
+      transaction({ kind: 'sell', date: '2026-03-01', quantity: 1, price: 100 }),
+    ], toBase);
+    expect(position.realizedGains[0].gain).toBeCloseTo(-10);
+  });
+});
+
+describe('settlement in a stablecoin', () => {
+  const ledger = [
+    transaction({ id: 'usdt', assetId: 'tether', symbol: 'USDT', name: 'Tether', quantity: 1000, price: 1 }),
+    transaction({ id: 'btc', date: '2026-01-02', quantity: 0.01, price: 50000, fee: { amount: 1, paidIn: 'currency' }, settledIn: 'USDT' }),
+    transaction({ id: 'exit', kind: 'sell', date: '2026-01-03', quantity: 0.005, price: 60000, settledIn: 'USDT' }),
+  ];
+
+  it('sells the stablecoin for a buy, fee included, and buys it with the proceeds of a sale', () => {
+    expect(settlementLeg(ledger[1])).toMatchObject({ kind: 'sell', assetId: 'tether', symbol: 'USDT', quantity: 501, price: 1 });
+    expect(settlementLeg(ledger[2])).toMatchObject({ kind: 'buy', assetId: 'tether', quantity: 300 });
+    expect(settlementLeg(ledger[0])).toBeUndefined();
+  });
+
+  it('moves the stablecoin holding without listing the trades under it', () => {
+    const positions = derivePositions(ledger, asIs);
+    const tether = positions.find((position) => position.key === 'crypto:tether');
+    expect(tether.quantity).toBe(799);
+    expect(tether.costBasis).toBe(799);
+    expect(tether.transactions.map((entry) => entry.id)).toEqual(['usdt']);
+    expect(positions.find((position) => position.key === 'crypto:bitcoin').quantity).toBe(0.005);
+  });
+
+  it('counts settled trades in what is held of the stablecoin', () => {
+    expect(quantityHeld(ledger, 'crypto:tether', '2026-01-02')).toBe(499);
+    expect(quantityHeld(ledger, 'crypto:tether', '2026-01-03')).toBe(799);
+    expect(quantityHeld(ledger, 'crypto:tether', '2026-01-03', { excludeId: 'btc' })).toBe(1300);
+    expect(lotsHeld(ledger, 'crypto:tether', '2026-01-03', asIs, () => 'fifo').map((lot) => lot.quantity)).toEqual([499, 300]);
+  });
+});
+
+describe('quantityHeld', () => {
+  it('counts only units that settled by the date, in the account asked about', () => {
+    const ledger = [
+      transaction({ quantity: 3 }),
+      transaction({ kind: 'transfer', date: '2026-02-01', quantity: 1, toAccountId: 'cold' }),
+      transaction({ kind: 'sell', date: '2026-03-01', quantity: 1 }),
+    ];
+    expect(quantityHeld(ledger, 'crypto:bitcoin', '2026-02-15', { accountId: 'main' })).toBe(2);
+    expect(quantityHeld(ledger, 'crypto:bitcoin', '2026-02-15', { accountId: 'cold' })).toBe(1);
+    expect(quantityHeld(ledger, 'crypto:bitcoin', '2026-03-01')).toBe(2);
+  });
+});
@@ -0,0 +1,425 @@
+import type { Currency } from "@/lib/market";
+import { stablecoinIds } from "./cash";
+import type {
+  Account,
+  CostBasisMethod,
+  IncomeKind,
+  Lot,
+  LotSelection,
+  Position,
+  RealizedGain,
+  Transaction,
+  TransactionKind,
+} from "./types";
+
+/** Converts an amount paid in `currency` on `date` into the base currency. */
+export type ToBaseCurrency = (amount: number, currency: Currency, date: string) => number;
+
+export const transactionKindLabels: Record<TransactionKind, string> = {
+  buy: 'Buy',
+  sell: 'Sell',
+  deposit: 'Deposit',
+  withdraw: 'Withdraw',
+  transfer: 'Transfer',
+  fee: 'Fee',
+  dividend: 'Dividend',
+  staking: 'Staking reward',
+  interest: 'Interest',
+};
+
+export const costBasisMethodLabels: Record<CostBasisMethod, string> = {
+  fifo: 'First in, first out (FIFO)',
+  lifo: 'Last in, first out (LIFO)',
+  hifo: 'Highest cost first (HIFO)',
+  average: 'Average cost',
+  specific: 'Specific lots',
+};
+
+// Kinds that take units out of the position
+export const isOutflow = (kind: TransactionKind) => direction[kind] < 0;
+
+// Kinds that bring units into the position
+export const isInflow = (kind: TransactionKind) => direction[kind] > 0;
+
+export const isIncome = (kind: TransactionKind): kind is IncomeKind =>
+  kind === 'dividend' || kind === 'staking' || kind === 'interest';
+
+// Quantities below this are rounding dust left by sells
+const DUST = 1e-9;
+
+const direction: Record<TransactionKind, 1 | 0 | -1> = {
+  buy: 1,
+  deposit: 1,
+  sell: -1,
+  withdraw: -1,
+  fee: -1,
+  transfer: 0,
+  dividend: 0,
+  staking: 1,
+  interest: 1,
+};
+
+export const positionKey = ({ type, assetId, symbol }: Pick<Transaction, 'type' | 'assetId' | 'symbol'>) =>
+  `${type}:${assetId ?? symbol.toUpperCase()}`;
+
+// Oldest first; transactions on the same day keep the order they were recorded in
+export const sortTransactions = (transactions: Transaction[]) =>
+  [...transactions].sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+
+const unitCost = (lot: Lot) => lot.costBasis / lot.quantity;
+
+/**
+ * The stablecoin side of a trade settled in one, as a transaction of its own:
+ * a buy sells the stablecoin it was paid with, fee included, and a sale buys
+ * it with the proceeds. Stablecoins trade at par with the currency they
+ * track, so a unit is priced at 1.
+ */
+export const settlementLeg = (transaction: Transaction): Transaction | undefined => {
+  const { id, kind, price, quantity, fee, settledIn } = transaction;
+  if (!settledIn || (kind !== 'buy' && kind !== 'sell')) return undefined;
+  const gross = (price ?? 0) * quantity;
+  const currencyFee = fee?.paidIn === 'currency' ? fee.amount : 0;
+  return {
+    ...transaction,
+    id: `${id}:${settledIn}`,
+    kind: kind === 'buy' ? 'sell' : 'buy',
+    type: 'crypto',
+    assetId: stablecoinIds[settledIn],
+    symbol: settledIn,
+    name: settledIn,
+    quantity: kind === 'buy' ? gross + currencyFee : gross - currencyFee,
+    price: 1,
+    settledIn: undefined,
+    fee: undefined,
+    lots: undefined,
+  };
+};
+
+// Every transaction followed by its settlement leg, if it has one
+const withSettlements = (transactions: Transaction[]) =>
+  transactions.flatMap((transaction) => {
+    const leg = settlementLeg(transaction);
+    return leg ? [transaction, leg] : [transaction];
+  });
+
+// Units of the asset paid as a fee; they come out of the account the transaction is in
+const feeUnits = ({ fee }: Transaction) => (fee?.paidIn === 'asset' ? fee.amount : 0);
+
+// Units taken out of one lot and the cost that left with them
+interface Draw {
+  lot: Lot;
+  quantity: number;
+  costBasis: number;
+}
+
+/**
+ * Take `units` out of the open lots (oldest first) the way `method` says to,
+ * returning what came out of each lot.
+ */
+const drawFromLots = (lots: Lot[], units: number, method: CostBasisMethod, selected: LotSelection[] = []) => {
+  const held = lots.reduce((total, lot) => total + lot.quantity, 0);
+  let remaining = Math.min(units, held);
+  const draws: Draw[] = [];
+
+  // Move `quantity` out of `lot` along with its share of the lot's cost
+  const take = (lot: Lot, quantity: number) => {
+    if (quantity <= 0) return;
+    const costBasis = lot.costBasis * (quantity / lot.quantity);
+    lot.costBasis -= costBasis;
+    lot.quantity -= quantity;
+
+    // Specific lots topped up from the oldest can draw on a lot twice
+    const draw = draws.find((earlier) => earlier.lot === lot);
+    if (draw) {
+      draw.quantity += quantity;
+      draw.costBasis += costBasis;
+    } else {
+      draws.push({ lot, quantity, costBasis });
+    }
+  };
+
+  if (method === 'average') {
+    lots.forEach((lot) => take(lot, lot.quantity * (remaining / held)));
+    return draws;
+  }
+
+  if (method === 'specific') {
+    for (const { lotId, quantity } of selected) {
+      const lot = lots.find((candidate) => candidate.id === lotId);
+      if (!lot) continue;
+      const taken = Math.min(quantity, lot.quantity, remaining);
+      take(lot, taken);
+      remaining -= taken;
+    }
+  }
+
+  // Whatever specific lots don't cover comes from the oldest ones
+  const ordered =
+    method === 'lifo' ? [...lots].reverse()
+      : method === 'hifo' ? [...lots].sort((a, b) => unitCost(b) - unitCost(a))
+      : lots;
+  for (const lot of ordered) {
+    if (remaining < DUST) break;
+    const taken = Math.min(lot.quantity, remaining);
+    take(lot, taken);
+    remaining -= taken;
+  }
+  return draws;
+};
+
+/** Picks the cost-basis method of an account. */
+export type MethodForAccount = (accountId: string) => CostBasisMethod;
+
+/** Each account's own cost-basis method, FIFO for accounts not in `accounts`. */
+export const methodForAccounts = (accounts: Account[]): MethodForAccount => (accountId) =>
+  accounts.find((account) => account.id === accountId)?.costBasisMethod ?? 'fifo';
+
+/**
+ * Replay the ledger into one position per account and asset, tracking the
+ * lot each unit came in with. Sales, withdrawals, fees and transfers to
+ * other accounts draw on those lots by the account's cost-basis method,
+ * which sets the cost basis of what is left. Sales also realize the gain or
+ * loss on the units they take; transferred units keep their acquisition
+ * date and cost in the receiving account. Dividends, staking rewards and
+ * interest are collected as income, and rewards open lots like deposits.
+ * Trades settled in a stablecoin also post their settlementLeg to it, which
+ * is not listed among that position's transactions.
+ *
+ * Transactions go in one at a time, oldest first, so the positions can be
+ * read part way through the ledger without replaying it from the start.
+ */
+export const createPositionReplay = (toBase: ToBaseCurrency, methodFor: MethodForAccount = () => 'fifo') => {
+  const positions = new Map<string, Position>();
+
+  const positionIn = (accountId: string, transaction: Transaction, listed = true) => {
+    const key = positionKey(transaction);
+    const position = positions.get(`${accountId}/${key}`) ?? {
+      key,
+      accountId,
+      assetId: transaction.assetId,
+      symbol: transaction.symbol,
+      name: transaction.name,
+      type: transaction.type,
+      quantity: 0,
+      costBasis: 0,
+      lots: [],
+      realizedGains: [],
+      realizedGain: 0,
+      incomes: [],
+      income: 0,
+      fees: 0,
+      transactions: [],
+    };
+    positions.set(`${accountId}/${key}`, position);
+    if (listed) position.transactions.push(transaction);
+    return position;
+  };
+
+  const post = (transaction: Transaction, listed: boolean) => {
+    const { accountId, toAccountId } = transaction;
+    const position = positionIn(accountId, transaction, listed);
+    const isMove = transaction.kind === 'transfer' && toAccountId && toAccountId !== accountId;
+    const { price, quantity, currency, date } = transaction;
+    const value = price ? toBase(price * quantity, currency, date) : 0;
+
+    // Fees in the asset are valued at the transaction's price, when it has one
+    const assetFee = feeUnits(transaction);
+    const currencyFee = transaction.fee?.paidIn === 'currency' ? toBase(transaction.fee.amount, currency, date) : 0;
+    const feeValue = currencyFee + (price ? toBase(price * assetFee, currency, date) : 0);
+    position.fees += feeValue;
+
+    if (direction[transaction.kind] > 0) {
+      // Units paid as a fee never arrive; their share of the cost stays with the rest
+      position.lots.push({
+        id: transaction.id,
+        date,
+        acquired: quantity - assetFee,
+        quantity: quantity - assetFee,
+        costBasis: value + currencyFee,
+      });
+    } else if (direction[transaction.kind] < 0 || isMove) {
+      const draws = drawFromLots(position.lots, quantity, methodFor(accountId), transaction.lots);
+      const feeCost = assetFee > 0
+        ? drawFromLots(position.lots, assetFee, methodFor(accountId)).reduce((total, draw) => total + draw.costBasis, 0)
+        : 0;
+      position.lots = position.lots.filter((lot) => lot.quantity >= DUST);
+
+      if (isMove) {
+        const destination = positionIn(toAccountId, transaction);
+        destination.lots.push(...draws.map(({ lot, quantity, costBasis }) => ({
+          id: `${transaction.id}:${lot.id}`,
+          date: lot.date,
+          acquired: quantity,
+          quantity,
+          costBasis,
+        })));
+        destination.lots.sort((a, b) => a.date.localeCompare(b.date));
+      }
+
+      // Withdrawals and fees take their cost basis with them without realizing
+      // anything. A sale spreads its fees over the lots it draws on: a fee in
+      // the currency comes off the proceeds and units paid as a fee add their cost.
+      if (transaction.kind === 'sell') {
+        for (const { lot, quantity: sold, costBasis: lotCost } of draws) {
+          const share = sold / quantity;
+          const proceeds = (value - currencyFee) * share;
+          const costBasis = lotCost + feeCost * share;
+          position.realizedGains.push({
+            transactionId: transaction.id,
+            lotId: lot.id,
+            accountId,
+            positionKey: position.key,
+            symbol: position.symbol,
+            name: position.name,
+            type: position.type,
+            acquired: lot.date,
+            sold: date,
+            quantity: sold,
+            proceeds,
+            costBasis,
+            gain: proceeds - costBasis,
+          });
+        }
+      }
+    } else if (assetFee > 0) {
+      // A dividend or a move between wallets of the account only loses the fee
+      drawFromLots(position.lots, assetFee, methodFor(accountId));
+      position.lots = position.lots.filter((lot) => lot.quantity >= DUST);
+    }
+
+    if (isIncome(transaction.kind)) {
+      position.incomes.push({
+        transactionId: transaction.id,
+        accountId,
+        positionKey: position.key,
+        symbol: position.symbol,
+        name: position.name,
+        type: position.type,
+        kind: transaction.kind,
+        date,
+        amount: value - feeValue,
+      });
+    }
+  };
+
+  const apply = (transaction: Transaction) => {
+    post(transaction, true);
+    const leg = settlementLeg(transaction);
+    if (leg) post(leg, false);
+  };
+
+  // Positions as of the transactions applied so far; they change as more are applied
+  const current = (): Position[] => {
+    positions.forEach(summarize);
+    return [...positions.values()];
+  };
+
+  return { apply, positions: current };
+};
+
+/** Replay a whole ledger at once; see createPositionReplay. */
+export const derivePositions = (
+  transactions: Transaction[],
+  toBase: ToBaseCurrency,
+  methodFor: MethodForAccount = () => 'fifo'
+): Position[] => {
+  const replay = createPositionReplay(toBase, methodFor);
+  sortTransactions(transactions).forEach((transaction) => replay.apply(transaction));
+  return replay.positions();
+};
+
+const summarize = (position: Position) => {
+  position.quantity = position.lots.reduce((total, lot) => total + lot.quantity, 0);
+  position.costBasis = position.lots.reduce((total, lot) => total + lot.costBasis, 0);
+  position.realizedGain = position.realizedGains.reduce((total, realized) => total + realized.gain, 0);
+  position.income = position.incomes.reduce((total, income) => total + income.amount, 0);
+};
+
+/** Merge each asset's positions across accounts into one, as for the "All accounts" view. */
+export const combinePositions = (positions: Position[]): Position[] => {
+  const combined = new Map<string, Position>();
+
+  for (const position of positions) {
+    const total = combined.get(position.key);
+    if (!total) {
+      combined.set(position.key, {
+        ...position,
+        accountId: undefined,
+        lots: [...position.lots],
+        realizedGains: [...position.realizedGains],
+        incomes: [...position.incomes],
+        transactions: [...position.transactions],
+      });
+      continue;
+    }
+    total.lots.push(...position.lots);
+    total.realizedGains.push(...position.realizedGains);
+    total.incomes.push(...position.incomes);
+    total.fees += position.fees;
+    // A move between accounts shows up in both of them
+    total.transactions.push(...position.transactions.filter((transaction) => !total.transactions.includes(transaction)));
+  }
+
+  for (const position of combined.values()) {
+    position.lots.sort((a, b) => a.date.localeCompare(b.date));
+    position.realizedGains.sort((a, b) => a.sold.localeCompare(b.sold));
+    position.incomes.sort((a, b) => a.date.localeCompare(b.date));
+    position.transactions = sortTransactions(position.transactions);
+    summarize(position);
+  }
+  return [...combined.values()];
+};
+
+interface HeldOptions {
+  /** Only count what this account holds; all accounts together otherwise. */
+  accountId?: string;
+  /** Leave out this transaction, e.g. the one being edited. */
+  excludeId?: string;
+}
+
+// Units a transaction adds to `accountId`, or to all accounts together when there is none
+const unitsIn = (transaction: Transaction, accountId?: string) => {
+  const isSource = !accountId || transaction.accountId === accountId;
+  if (transaction.kind === 'transfer') {
+    const arriving = accountId && transaction.toAccountId === accountId ? transaction.quantity : 0;
+    const leaving = accountId && transaction.toAccountId && isSource ? transaction.quantity : 0;
+    return arriving - leaving - (isSource ? feeUnits(transaction) : 0);
+  }
+  return isSource ? direction[transaction.kind] * transaction.quantity - feeUnits(transaction) : 0;
+};
+
+/**
+ * Units held of the position `key` once every transaction up to `date` has
+ * settled, stablecoins counting the trades settled in them.
+ */
+export const quantityHeld = (
+  transactions: Transaction[],
+  key: string,
+  date: string,
+  { accountId, excludeId }: HeldOptions = {}
+) =>
+  withSettlements(sortTransactions(transactions).filter((transaction) => transaction.date <= date && transaction.id !== excludeId))
+    .filter((transaction) => positionKey(transaction) === key)
+    .reduce((held, transaction) => Math.max(0, held + unitsIn(transaction, accountId)), 0);
+
+/** Lots of the position `key` still open on `date`, for picking which ones an outflow takes. */
+export const lotsHeld = (
+  transactions: Transaction[],
+  key: string,
+  date: string,
+  toBase: ToBaseCurrency,
+  methodFor: MethodForAccount,
+  { accountId, excludeId }: HeldOptions = {}
+): Lot[] => {
+  const settlesIn = (transaction: Transaction) => {
+    const leg = settlementLeg(transaction);
+    return leg && positionKey(leg) === key;
+  };
+  const earlier = transactions.filter((transaction) =>
+    (positionKey(transaction) === key || settlesIn(transaction)) && transaction.date <= date && transaction.id !== excludeId
+  );
+  // Settled trades bring their own positions along
+  const positions = derivePositions(earlier, toBase, methodFor).filter((position) => position.key === key);
+  return (accountId ? positions.find((position) => position.accountId === accountId) : combinePositions(positions)[0])
+    ?.lots ?? [];
+};
@@ -0,0 +1,146 @@
+import { dailyReturns, type DailyReturn } from "./performance";
+import type { Snapshot } from "./snapshots";
+
+// Snapshots are calendar days, weekends included
+const DAYS_PER_YEAR = 365;
+const DAY = 24 * 60 * 60 * 1000;
+
+/** One-sided normal quantiles for the parametric VaR. */
+const zScores = { 95: 1.6449, 99: 2.3263 };
+
+export type VarConfidence = keyof typeof zScores;
+
+export const varConfidences = Object.keys(zScores).map(Number) as VarConfidence[];
+
+export interface RiskInput {
+  snapshots: Snapshot[];
+  /** The benchmark's snapshots on the same days, for beta. */
+  benchmark?: Snapshot[];
+  /** Yearly risk-free rate, as a fraction. */
+  riskFreeRate: number;
+}
+
+/** Annualized figures are fractions of a year's return; VaR is a one-day loss. */
+export interface RiskMetrics {
+  /** Days with a return to measure. */
+  days: number;
+  volatility?: number;
+  sharpe?: number;
+  sortino?: number;
+  /** Largest fall from a high, as a positive fraction. */
+  maxDrawdown: number;
+  drawdownPeak?: string;
+  drawdownTrough?: string;
+  /** Day the high of the largest fall was regained; undefined while it has not been. */
+  drawdownRecovery?: string;
+  /** Longest stretch, in days, spent below a previous high. */
+  longestDrawdownDays: number;
+  beta?: number;
+  /** Loss not exceeded on a day at each confidence, as a fraction and in the base currency. */
+  historicalVar: Record<VarConfidence, { fraction: number; amount: number } | undefined>;
+  parametricVar: Record<VarConfidence, { fraction: number; amount: number } | undefined>;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const sampleVariance = (values: number[]) => {
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+};
+
+// Value at the `share` point of the sorted values, interpolating between neighbours
+const quantile = (sorted: number[], share: number) => {
+  const position = (sorted.length - 1) * share;
+  const below = Math.floor(position);
+  const above = Math.min(below + 1, sorted.length - 1);
+  return sorted[below] + (sorted[above] - sorted[below]) * (position - below);
+};
+
+const daysBetween = (from: string, to: string) => Math.round((Date.parse(to) - Date.parse(from)) / DAY);
+
+// Largest fall from a high of the growth of `returns`, and the longest time spent under water
+const drawdowns = (returns: DailyReturn[], start: string) => {
+  let growth = 1;
+  let peak = 1;
+  let peakDate = start;
+  let worst: { depth: number; peak?: string; trough?: string; recovery?: string } = { depth: 0 };
+  let longest = 0;
+
+  for (const { date, value } of returns) {
+    growth *= 1 + value;
+    if (growth >= peak) {
+      if (worst.trough && !worst.recovery && worst.peak === peakDate) worst.recovery = date;
+      longest = Math.max(longest, daysBetween(peakDate, date) - 1);
+      peak = growth;
+      peakDate = date;
+      continue;
+    }
+    const depth = 1 - growth / peak;
+    if (depth > worst.depth) worst = { depth, peak: peakDate, trough: date };
+  }
+  const last = returns[returns.length - 1]?.date;
+  if (last && last !== peakDate) longest = Math.max(longest, daysBetween(peakDate, last));
+
+  return { ...worst, longest };
+};
+
+/**
+ * Risk of a snapshot series from its flow-adjusted daily returns: annualized
+ * volatility, Sharpe and Sortino ratios against `riskFreeRate`, drawdowns,
+ * beta against the benchmark, and one-day Value-at-Risk on the last value,
+ * both from the worst days seen (historical) and from a normal distribution
+ * fitted to the returns (parametric).
+ */
+export const measureRisk = ({ snapshots, benchmark, riskFreeRate }: RiskInput): RiskMetrics => {
+  const returns = dailyReturns(snapshots);
+  const values = returns.map((day) => day.value);
+  const none = { 95: undefined, 99: undefined };
+  const { depth, peak, trough, recovery, longest } = drawdowns(returns, snapshots[0]?.date);
+  const result: RiskMetrics = {
+    days: values.length,
+    maxDrawdown: depth,
+    drawdownPeak: peak,
+    drawdownTrough: trough,
+    drawdownRecovery: recovery,
+    longestDrawdownDays: longest,
+    historicalVar: { ...none },
+    parametricVar: { ...none },
+  };
+  if (values.length < 2) return result;
+
+  const dailyRiskFree = riskFreeRate / DAYS_PER_YEAR;
+  const average = mean(values);
+  const deviation = Math.sqrt(sampleVariance(values));
+  const downside = Math.sqrt(mean(values.map((value) => Math.min(value - dailyRiskFree, 0) ** 2)));
+  const excess = (average - dailyRiskFree) * DAYS_PER_YEAR;
+
+  result.volatility = deviation * Math.sqrt(DAYS_PER_YEAR);
+  result.sharpe = result.volatility > 0 ? excess / result.volatility : undefined;
+  result.sortino = downside > 0 ? excess / (downside * Math.sqrt(DAYS_PER_YEAR)) : undefined;
+
+  // Beta over the days both have a return
+  if (benchmark) {
+    const benchmarkReturns = new Map(dailyReturns(benchmark).map((day) => [day.date, day.value]));
+    const paired = returns.filter((day) => benchmarkReturns.has(day.date));
+    if (paired.length > 1) {
+      const ours = paired.map((day) => day.value);
+      const theirs = paired.map((day) => benchmarkReturns.get(day.date));
+      const ourMean = mean(ours);
+      const theirMean = mean(theirs);
+      const covariance = ours
+        .reduce((sum, value, index) => sum + (value - ourMean) * (theirs[index] - theirMean), 0) / (paired.length - 1);
+      const variance = sampleVariance(theirs);
+      result.beta = variance > 0 ? covariance / variance : undefined;
+    }
+  }
+
+  const value = snapshots[snapshots.length - 1].value;
+  const sorted = [...values].sort((a, b) => a - b);
+  for (const confidence of varConfidences) {
+    const historical = Math.max(-quantile(sorted, 1 - confidence / 100), 0);
+    const parametric = Math.max(zScores[confidence] * deviation - average, 0);
+    result.historicalVar[confidence] = { fraction: historical, amount: historical * value };
+    result.parametricVar[confidence] = { fraction: parametric, amount: parametric * value };
+  }
+  return result;
+};
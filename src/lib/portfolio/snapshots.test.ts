@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { PricePoint } from "@/lib/market";
+import { buildSnapshots, historyRangeFor, snapshotsInRange, type Snapshot, type SnapshotInput } from "./snapshots";
+import type { Account, CashMovement, Transaction } from "./types";
+
+const accounts: Account[] = [
+  { id: 'broker', name: 'Broker', kind: 'brokerage', costBasisMethod: 'fifo', tracksCash: true, createdAt: 0 },
+  { id: 'wallet', name: 'Wallet', kind: 'wallet', costBasisMethod: 'fifo', createdAt: 0 },
+];
+
+let created = 0;
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: `t${++created}`,
+  accountId: 'wallet',
+  kind: 'buy',
+  assetId: 'bitcoin',
+  symbol: 'BTC',
+  name: 'Bitcoin',
+  type: 'crypto',
+  quantity: 1,
+  price: 100,
+  currency: 'USD',
+  date: '2026-01-01',
+  createdAt: created,
+  ...changes,
+});
+
+const closes = (prices: Record<string, number>): PricePoint[] =>
+  Object.entries(prices).map(([date, price]) => ({ timestamp: Date.parse(`${date}T20:00:00Z`), price }));
+
+const snapshots = (changes: Partial<SnapshotInput>) => buildSnapshots({
+  transactions: [],
+  cashMovements: [],
+  accounts,
+  histories: new Map(),
+  toBase: (amount) => amount,
+  methodFor: () => 'fifo',
+  currency: 'USD',
+  today: '2026-01-03',
+  ...changes,
+});
+
+describe('buildSnapshots', () => {
+  it('values holdings at each day\'s close and counts trades outside tracked cash as flows', () => {
+    const result = snapshots({
+      transactions: [transaction({})],
+      histories: new Map([['crypto:bitcoin', closes({ '2026-01-01': 100, '2026-01-02': 120, '2026-01-03': 90 })]]),
+    });
+    expect(result).toEqual([
+      { date: '2026-01-01', value: 100, cash: 0, invested: 100, flow: 100 },
+      { date: '2026-01-02', value: 120, cash: 0, invested: 100, flow: 0 },
+      { date: '2026-01-03', value: 90, cash: 0, invested: 100, flow: 0 },
+    ]);
+  });
+
+  it('takes deposits as the flows of an account that tracks cash', () => {
+    const deposit: CashMovement = { id: 'm1', accountId: 'broker', kind: 'deposit', amount: 1000, currency: 'USD', date: '2026-01-01', createdAt: 0 };
+    const result = snapshots({
+      transactions: [transaction({ accountId: 'broker', date: '2026-01-02' })],
+      cashMovements: [deposit],
+      histories: new Map([['crypto:bitcoin', closes({ '2026-01-02': 100, '2026-01-03': 150 })]]),
+    });
+    expect(result.map(({ value, cash, flow }) => [value, cash, flow])).toEqual([[1000, 1000, 1000], [1000, 900, 0], [1050, 900, 0]]);
+  });
+
+  it('keeps trades settled in a stablecoin out of the flows, moving value between the holdings', () => {
+    const result = snapshots({
+      transactions: [
+        transaction({ assetId: 'tether', symbol: 'USDT', name: 'Tether', quantity: 1000, price: 1 }),
+        transaction({ date: '2026-01-02', quantity: 0.01, price: 50000, settledIn: 'USDT' }),
+      ],
+      histories: new Map([['crypto:bitcoin', closes({ '2026-01-02': 50000, '2026-01-03': 60000 })]]),
+    });
+    expect(result.map(({ value, flow }) => [value, flow])).toEqual([[1000, 1000], [1000, 0], [1100, 0]]);
+  });
+
+  it('values an asset without price history at its cost', () => {
+    const result = snapshots({ transactions: [transaction({ date: '2026-01-03', quantity: 2, price: 30 })] });
+    expect(result).toEqual([{ date: '2026-01-03', value: 60, cash: 0, invested: 60, flow: 60 }]);
+  });
+
+  it('has nothing to show before the first transaction', () => {
+    expect(snapshots({ transactions: [transaction({ date: '2026-02-01' })] })).toEqual([]);
+  });
+});
+
+describe('historyRangeFor', () => {
+  it('picks the shortest range reaching back far enough', () => {
+    expect(historyRangeFor('2026-01-01', '2026-01-05')).toBe('7d');
+    expect(historyRangeFor('2026-01-01', '2026-03-01')).toBe('180d');
+    expect(historyRangeFor('2020-01-01', '2026-01-01')).toBe('all');
+  });
+});
+
+describe('snapshotsInRange', () => {
+  it('keeps the day before the range as its starting value', () => {
+    const days: Snapshot[] = ['2026-01-01', '2026-01-05', '2026-01-10'].map((date) => ({ date, value: 1, cash: 0, invested: 1, flow: 0 }));
+    expect(snapshotsInRange(days, '1W', '2026-01-10').map((snapshot) => snapshot.date)).toEqual(['2026-01-01', '2026-01-05', '2026-01-10']);
+    expect(snapshotsInRange(days, '1W', '2026-01-13').map((snapshot) => snapshot.date)).toEqual(['2026-01-05', '2026-01-10']);
+    expect(snapshotsInRange(days, 'ALL', '2026-01-13')).toBe(days);
+  });
+});
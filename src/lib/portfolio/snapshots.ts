@@ -0,0 +1,296 @@
+// Straight from fx rather than the market index, which sets up providers: this runs in portfolio.worker.ts
+import { convertCurrency, ratesOn, toDateKey } from "@/lib/market/fx";
+import type { Currency, FxRates, HistoryRange, PricePoint } from "@/lib/market";
+import { createCashReplay } from "./cash";
+import { createPositionReplay, positionKey, settlementLeg, sortTransactions, type MethodForAccount, type ToBaseCurrency } from "./positions";
+import type { Account, CashBalance, CashMovement, Position, Transaction } from "./types";
+
+const STORAGE_KEY = 'portfolioSnapshots';
+const DAY = 24 * 60 * 60 * 1000;
+
+/** What the portfolio was worth at the end of one day, in the base currency. */
+export interface Snapshot {
+  /** YYYY-MM-DD. */
+  date: string;
+  /** Holdings at that day's prices plus cash. */
+  value: number;
+  /** Cash balances of the accounts that track cash. */
+  cash: number;
+  /** Money put in less money taken out, up to and including this day. */
+  invested: number;
+  /** Money put in (positive) or taken out that day. */
+  flow: number;
+}
+
+export type SnapshotRange = '1W' | '1M' | '3M' | 'YTD' | '1Y' | 'ALL';
+
+export const snapshotRanges: SnapshotRange[] = ['1W', '1M', '3M', 'YTD', '1Y', 'ALL'];
+
+export interface SnapshotInput {
+  /** The whole ledger; positions are replayed from it day by day. */
+  transactions: Transaction[];
+  cashMovements: CashMovement[];
+  accounts: Account[];
+  /** Only this account; every account together when undefined. */
+  accountId?: string;
+  /** Only this asset (a position key), without cash: its own trades are its flows. */
+  asset?: string;
+  /** USD price history per position key (see positionKey). */
+  histories: Map<string, PricePoint[]>;
+  toBase: ToBaseCurrency;
+  methodFor: MethodForAccount;
+  currency: Currency;
+  /** Daily rates for valuing prices and cash on each day; `rates` stands in for missing days. */
+  rateHistory?: Record<string, FxRates>;
+  rates?: FxRates;
+  /** Last day to value, YYYY-MM-DD. */
+  today: string;
+}
+
+const addDays = (date: string, days: number) => toDateKey(Date.parse(date) + days * DAY);
+
+/** First day of `range` counting back from `today`; undefined for all of it. */
+export const rangeStart = (range: SnapshotRange, today: string): string | undefined => {
+  switch (range) {
+    case '1W': return addDays(today, -7);
+    case '1M': return addDays(today, -30);
+    case '3M': return addDays(today, -91);
+    case 'YTD': return `${today.slice(0, 4)}-01-01`;
+    case '1Y': return addDays(today, -365);
+    case 'ALL': return undefined;
+  }
+};
+
+/**
+ * Shortest provider history range that reaches back to `from`. Each has at
+ * least a point a day, so no day is valued at an older close.
+ */
+export const historyRangeFor = (from: string, today: string): HistoryRange => {
+  const days = (Date.parse(today) - Date.parse(from)) / DAY;
+  if (days <= 7) return '7d';
+  if (days <= 30) return '30d';
+  if (days <= 180) return '180d';
+  if (days <= 365) return '1y';
+  return 'all';
+};
+
+/** Snapshots from `range` on, keeping the day before as the starting value. */
+export const snapshotsInRange = (snapshots: Snapshot[], range: SnapshotRange, today: string) => {
+  const start = rangeStart(range, today);
+  if (!start) return snapshots;
+  const first = snapshots.findIndex((snapshot) => snapshot.date >= start);
+  return first < 0 ? [] : snapshots.slice(Math.max(first - 1, 0));
+};
+
+// Each day's closing price out of a series that may have several points a day
+const dailyCloses = (points: PricePoint[]) => {
+  const closes = new Map<string, number>();
+  [...points].sort((a, b) => a.timestamp - b.timestamp).forEach((point) => closes.set(toDateKey(point.timestamp), point.price));
+  return [...closes].sort(([a], [b]) => a.localeCompare(b));
+};
+
+const round = (amount: number) => Math.round(amount * 100) / 100;
+
+/**
+ * Rebuild the portfolio's value for every day from its first transaction to
+ * `today`. Positions are replayed up to each day and valued at that day's
+ * closing price, or at what they cost where there is no price history.
+ *
+ * Flows are what went in from outside: cash deposits and withdrawals in
+ * accounts that track cash, and in the others the trades themselves, since
+ * their cash is not part of the value; trades settled in a stablecoin keep
+ * their money in the portfolio either way. Deposits, withdrawals and moves of
+ * the asset count at their market value, so they are not taken for gains.
+ */
+export const buildSnapshots = ({
+  transactions,
+  cashMovements,
+  accounts,
+  accountId,
+  asset,
+  histories,
+  toBase,
+  methodFor,
+  currency,
+  rateHistory,
+  rates,
+  today,
+}: SnapshotInput): Snapshot[] => {
+  const inScope = (id: string) => !accountId || id === accountId;
+  // Positions replay the whole ledger: units moved into an account bring lots from another
+  const ledger = sortTransactions(
+    asset ? transactions.filter((transaction) => positionKey(transaction) === asset) : transactions
+  );
+  const touchesScope = (transaction: Transaction) =>
+    inScope(transaction.accountId) || (transaction.toAccountId && inScope(transaction.toAccountId));
+  const movements = asset ? [] : cashMovements
+    .filter((movement) => inScope(movement.accountId))
+    .sort((a, b) => a.date.localeCompare(b.date));
+  const tracking = new Set(asset ? [] : accounts.filter((account) => account.tracksCash).map((account) => account.id));
+
+  const dates = [...ledger.filter(touchesScope).map((transaction) => transaction.date), ...movements.map((movement) => movement.date)].sort();
+  if (dates.length === 0 || dates[0] > today) return [];
+
+  const closes = new Map([...histories].map(([key, points]) => [key, dailyCloses(points)]));
+  const cursors = new Map<string, number>();
+  const prices = new Map<string, number>();
+
+  // Advance each price series to `date` and keep its latest close, in USD
+  const movePricesTo = (date: string) => {
+    closes.forEach((series, key) => {
+      let cursor = cursors.get(key) ?? 0;
+      while (cursor < series.length && series[cursor][0] <= date) {
+        prices.set(key, series[cursor][1]);
+        cursor++;
+      }
+      cursors.set(key, cursor);
+    });
+  };
+
+  let dayRates = rateHistory ? ratesOn(rateHistory, dates[0]) ?? rates : rates;
+  const inBase = (amount: number, from: Currency) =>
+    dayRates ? convertCurrency(amount, from, currency, dayRates) : amount;
+
+  const valueOf = (position: Position) => {
+    const price = prices.get(position.key);
+    return price === undefined ? position.costBasis : inBase(price * position.quantity, 'USD');
+  };
+
+  // Market value of units moving in or out, falling back to the transaction's own price
+  const unitsValue = (transaction: Transaction, key: string) => {
+    const price = prices.get(key);
+    if (price !== undefined) return inBase(price * transaction.quantity, 'USD');
+    return transaction.price ? toBase(transaction.price * transaction.quantity, transaction.currency, transaction.date) : 0;
+  };
+
+  const flowOf = (transaction: Transaction) => {
+    const key = positionKey(transaction);
+    const { kind, price, quantity, currency: paidIn, date, fee } = transaction;
+    const gross = price ? toBase(price * quantity, paidIn, date) : 0;
+    const currencyFee = fee?.paidIn === 'currency' ? toBase(fee.amount, paidIn, date) : 0;
+    const settlesInside = tracking.has(transaction.accountId) || Boolean(settlementLeg(transaction));
+
+    switch (kind) {
+      case 'buy':
+        return settlesInside ? 0 : gross + currencyFee;
+      case 'sell':
+      case 'dividend':
+        return settlesInside ? 0 : -(gross - currencyFee);
+      case 'deposit':
+        return unitsValue(transaction, key);
+      case 'withdraw':
+        return -unitsValue(transaction, key);
+      case 'transfer': {
+        // Only a move between accounts, seen from one of them, crosses the edge
+        if (!accountId || !transaction.toAccountId || transaction.toAccountId === transaction.accountId) return 0;
+        return transaction.toAccountId === accountId ? unitsValue(transaction, key) : -unitsValue(transaction, key);
+      }
+      default:
+        return 0;
+    }
+  };
+
+  // Each day only the transactions and movements new that day are replayed
+  const positionReplay = createPositionReplay(toBase, methodFor);
+  const cashReplay = createCashReplay(accounts);
+  let positions: Position[] = [];
+  let balances: CashBalance[] = [];
+  let next = 0;
+  let nextMovement = 0;
+  let invested = 0;
+  const snapshots: Snapshot[] = [];
+
+  for (let date = dates[0]; date <= today; date = addDays(date, 1)) {
+    if (rateHistory?.[date]) dayRates = rateHistory[date];
+    movePricesTo(date);
+
+    const firstMovement = nextMovement;
+    while (nextMovement < movements.length && movements[nextMovement].date <= date) nextMovement++;
+    const dayMovements = movements.slice(firstMovement, nextMovement);
+    let flow = dayMovements.reduce(
+      (total, { kind, amount, currency: paidIn }) => total + inBase(kind === 'deposit' ? amount : -amount, paidIn),
+      0
+    );
+
+    const settled = next;
+    while (next < ledger.length && ledger[next].date <= date) next++;
+    const added = ledger.slice(settled, next);
+    if (added.length > 0 || dayMovements.length > 0) {
+      added.forEach((transaction) => positionReplay.apply(transaction));
+      positions = positionReplay.positions().filter((position) => inScope(position.accountId));
+      if (!asset) {
+        dayMovements.forEach(cashReplay.applyMovement);
+        added.forEach(cashReplay.applyTransaction);
+        balances = cashReplay.balances().filter((balance) => inScope(balance.accountId));
+      }
+    }
+    flow += added.filter(touchesScope).reduce((total, transaction) => total + flowOf(transaction), 0);
+
+    const cash = balances.reduce((total, balance) => total + inBase(balance.amount, balance.currency), 0);
+    const holdings = positions
+      .filter((position) => position.quantity > 0)
+      .reduce((total, position) => total + valueOf(position), 0);
+    invested += flow;
+    snapshots.push({ date, value: round(holdings + cash), cash: round(cash), invested: round(invested), flow: round(flow) });
+  }
+
+  return snapshots;
+};
+
+/** Snapshots saved for one view, with the ledger they were built from. */
+interface StoredSnapshots {
+  fingerprint: string;
+  snapshots: Snapshot[];
+}
+
+const listeners = new Set<() => void>();
+let stored: Record<string, StoredSnapshots> | null = null;
+
+const load = (): Record<string, StoredSnapshots> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Record<string, StoredSnapshots>;
+  } catch (error) {
+    console.error('Error loading portfolio snapshots:', error);
+    return {};
+  }
+};
+
+export const getStoredSnapshots = (): Record<string, StoredSnapshots> => {
+  stored ??= load();
+  return stored;
+};
+
+/**
+ * Keep the snapshots of `scope` (an account id or ALL_ACCOUNTS) so the
+ * curve shows straight away next time, until it is rebuilt from fresh prices.
+ */
+export const saveSnapshots = (scope: string, fingerprint: string, snapshots: Snapshot[]) => {
+  stored = { ...getStoredSnapshots(), [scope]: { fingerprint, snapshots } };
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    // Running out of storage only costs the head start
+    console.error('Error saving portfolio snapshots:', error);
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const subscribeSnapshots = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * Short hash of everything a snapshot depends on besides prices, to tell
+ * whether saved snapshots still describe the ledger.
+ */
+export const snapshotFingerprint = (...parts: unknown[]) => {
+  const text = JSON.stringify(parts);
+  let hash = 5381;
+  for (let index = 0; index < text.length; index++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(index)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
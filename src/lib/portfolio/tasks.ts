@@ -0,0 +1,30 @@
+import { benchmarkSeries } from "./benchmarks";
+import { buildPortfolioHistory } from "./history";
+import { measureRisk } from "./risk";
+
+// Work slow enough on long histories to keep off the main thread; see usePortfolioTask
+const portfolioTasks = {
+  history: buildPortfolioHistory,
+  benchmarks: benchmarkSeries,
+  risk: measureRisk,
+};
+
+export type PortfolioTask = keyof typeof portfolioTasks;
+export type PortfolioTaskInput<T extends PortfolioTask> = Parameters<(typeof portfolioTasks)[T]>[0];
+export type PortfolioTaskResult<T extends PortfolioTask> = ReturnType<(typeof portfolioTasks)[T]>;
+
+export interface PortfolioTaskRequest {
+  id: number;
+  task: PortfolioTask;
+  input: unknown;
+}
+
+/** The task's result, or the message of what it threw. */
+export interface PortfolioTaskResponse {
+  id: number;
+  result?: unknown;
+  error?: string;
+}
+
+export const runPortfolioTask = <T extends PortfolioTask>(task: T, input: PortfolioTaskInput<T>) =>
+  (portfolioTasks[task] as (input: PortfolioTaskInput<T>) => PortfolioTaskResult<T>)(input);
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import { derivePositions } from "./positions";
+import { buildTaxReport, holdingTerm, taxYears } from "./tax";
+import type { Transaction } from "./types";
+
+let created = 0;
+const transaction = (changes: Partial<Transaction>): Transaction => ({
+  id: `t${++created}`,
+  accountId: 'main',
+  kind: 'buy',
+  assetId: 'AAPL',
+  symbol: 'AAPL',
+  name: 'Apple',
+  type: 'stock',
+  quantity: 10,
+  price: 100,
+  currency: 'USD',
+  date: '2025-01-10',
+  createdAt: created,
+  ...changes,
+});
+
+const report = (ledger: Transaction[], year: number) =>
+  buildTaxReport(derivePositions(ledger, (amount) => amount).flatMap((position) => position.realizedGains), ledger, year);
+
+describe('holdingTerm', () => {
+  it('counts a sale on the anniversary as short term and the day after as long term', () => {
+    expect(holdingTerm('2025-01-10', '2026-01-10')).toBe('short');
+    expect(holdingTerm('2025-01-10', '2026-01-11')).toBe('long');
+  });
+});
+
+describe('buildTaxReport', () => {
+  it('sorts the sales of the year into short and long term', () => {
+    const ledger = [
+      transaction({ id: 'old', quantity: 2, price: 50, date: '2024-06-01', assetId: 'MSFT', symbol: 'MSFT', name: 'Microsoft' }),
+      transaction({ kind: 'sell', quantity: 2, price: 80, date: '2026-03-01', assetId: 'MSFT', symbol: 'MSFT', name: 'Microsoft' }),
+      transaction({ id: 'new' }),
+      transaction({ kind: 'sell', quantity: 4, price: 120, date: '2025-06-01' }),
+      transaction({ kind: 'sell', quantity: 6, price: 110, date: '2026-02-01' }),
+    ];
+    const { disposals, totals } = report(ledger, 2026);
+    expect(disposals.map((disposal) => [disposal.symbol, disposal.term])).toEqual([['AAPL', 'long'], ['MSFT', 'long']]);
+    expect(totals.long).toEqual({ proceeds: 820, costBasis: 700, adjustment: 0, gain: 120 });
+    expect(totals.short).toEqual({ proceeds: 0, costBasis: 0, adjustment: 0, gain: 0 });
+    expect(report(ledger, 2025).totals.short.gain).toBe(80);
+  });
+
+  it('disallows the share of a stock loss bought back within 30 days', () => {
+    const ledger = [
+      transaction({ id: 'first' }),
+      transaction({ kind: 'sell', price: 80, date: '2026-01-10' }),
+      transaction({ id: 'again', quantity: 5, price: 85, date: '2026-01-25' }),
+    ];
+    const [disposal] = report(ledger, 2026).disposals;
+    expect(disposal.washSale).toEqual({ disallowed: 100, replacedBy: ['again'] });
+    expect(disposal.reportedGain).toBe(-100);
+  });
+
+  it('leaves crypto losses and buys more than 30 days away alone', () => {
+    const crypto = { assetId: 'bitcoin', symbol: 'BTC', name: 'Bitcoin', type: 'crypto' as const };
+    const ledger = [
+      transaction({ ...crypto }),
+      transaction({ ...crypto, kind: 'sell', price: 80, date: '2026-01-10' }),
+      transaction({ ...crypto, date: '2026-01-11' }),
+      transaction({}),
+      transaction({ kind: 'sell', price: 80, date: '2026-01-10' }),
+      transaction({ date: '2026-02-10' }),
+    ];
+    expect(report(ledger, 2026).disposals.map((disposal) => disposal.washSale)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('taxYears', () => {
+  it('lists each year with a sale once, newest first', () => {
+    const ledger = [
+      transaction({}),
+      transaction({ kind: 'sell', quantity: 1, date: '2025-03-01' }),
+      transaction({ kind: 'sell', quantity: 1, date: '2026-03-01' }),
+      transaction({ kind: 'sell', quantity: 1, date: '2025-09-01' }),
+    ];
+    expect(taxYears(derivePositions(ledger, (amount) => amount)[0].realizedGains)).toEqual([2026, 2025]);
+  });
+});
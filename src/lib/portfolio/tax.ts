@@ -0,0 +1,159 @@
+import type { Currency } from "@/lib/market";
+import type { ExportRecord } from "./export";
+import { positionKey } from "./positions";
+import type { RealizedGain, Transaction } from "./types";
+
+/** Short term when held one year or less, long term when held longer. */
+export type HoldingTerm = 'short' | 'long';
+
+export const holdingTermLabels: Record<HoldingTerm, string> = {
+  short: 'Short-term',
+  long: 'Long-term',
+};
+
+// Buys this many days either side of a loss sale make it a wash sale
+const WASH_SALE_DAYS = 30;
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface WashSale {
+  /** The part of the loss that can't be claimed, as a positive amount in the base currency. */
+  disallowed: number;
+  /** Ids of the buys that replaced the units sold. */
+  replacedBy: string[];
+}
+
+/** One lot's share of a sale, as it goes on the tax report. */
+export interface Disposal extends RealizedGain {
+  term: HoldingTerm;
+  washSale?: WashSale;
+  /** Gain after the wash-sale adjustment. */
+  reportedGain: number;
+}
+
+export interface TermTotals {
+  proceeds: number;
+  costBasis: number;
+  /** Disallowed wash-sale losses added back. */
+  adjustment: number;
+  gain: number;
+}
+
+export interface TaxReport {
+  year: number;
+  disposals: Disposal[];
+  totals: Record<HoldingTerm, TermTotals>;
+}
+
+// Held for more than a year counts from the day after acquisition, so a sale
+// on the anniversary itself is still short term
+export const holdingTerm = (acquired: string, sold: string): HoldingTerm => {
+  const anniversary = `${Number(acquired.slice(0, 4)) + 1}${acquired.slice(4)}`;
+  return sold > anniversary ? 'long' : 'short';
+};
+
+const daysBetween = (a: string, b: string) => Math.abs(Date.parse(b) - Date.parse(a)) / DAY;
+
+// A lot moved between accounts keeps the id of the buy that opened it at the end
+const openedBy = (lotId: string) => lotId.split(':').pop();
+
+/** Years with at least one sale, newest first. */
+export const taxYears = (gains: RealizedGain[]) =>
+  [...new Set(gains.map((gain) => Number(gain.sold.slice(0, 4))))].sort((a, b) => b - a);
+
+/**
+ * Flag stock sales at a loss with a buy of the same asset, in any account,
+ * within 30 days before or after. Each replacement unit can only wash one
+ * unit sold, matched in date order, and the disallowed share of the loss is
+ * in proportion to the units replaced. The replacement's cost basis is left
+ * as it is, so the deferred loss is reported but not carried forward.
+ */
+const findWashSales = (disposals: Disposal[], transactions: Transaction[]) => {
+  const buys = transactions
+    .filter((transaction) => transaction.kind === 'buy' && transaction.type === 'stock')
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt - b.createdAt);
+  const unused = new Map(buys.map((buy) => [buy.id, buy.quantity]));
+
+  const losses = disposals
+    .filter((disposal) => disposal.type === 'stock' && disposal.gain < 0)
+    .sort((a, b) => a.sold.localeCompare(b.sold));
+
+  for (const disposal of losses) {
+    // Units bought and sold in the same sale don't replace themselves
+    const soldLots = new Set(
+      disposals.filter((other) => other.transactionId === disposal.transactionId).map((other) => openedBy(other.lotId))
+    );
+    let unmatched = disposal.quantity;
+    const replacedBy: string[] = [];
+
+    for (const buy of buys) {
+      if (unmatched <= 0) break;
+      if (positionKey(buy) !== disposal.positionKey || soldLots.has(buy.id)) continue;
+      if (daysBetween(buy.date, disposal.sold) > WASH_SALE_DAYS) continue;
+      const matched = Math.min(unused.get(buy.id), unmatched);
+      if (matched <= 0) continue;
+      unused.set(buy.id, unused.get(buy.id) - matched);
+      unmatched -= matched;
+      replacedBy.push(buy.id);
+    }
+
+    if (replacedBy.length > 0) {
+      const disallowed = -disposal.gain * (disposal.quantity - unmatched) / disposal.quantity;
+      disposal.washSale = { disallowed, replacedBy };
+      disposal.reportedGain = disposal.gain + disallowed;
+    }
+  }
+};
+
+/**
+ * Sales in `year` from `gains`, classified by holding period. `transactions`
+ * should be the whole ledger, since a buy in another account still makes a
+ * wash sale. Amounts stay in the base currency the gains were computed in.
+ */
+export const buildTaxReport = (gains: RealizedGain[], transactions: Transaction[], year: number): TaxReport => {
+  // Wash sales reach across the turn of the year, so match against every sale
+  const disposals: Disposal[] = gains
+    .map((gain) => ({ ...gain, term: holdingTerm(gain.acquired, gain.sold), reportedGain: gain.gain }))
+    .sort((a, b) => a.sold.localeCompare(b.sold) || a.acquired.localeCompare(b.acquired));
+  findWashSales(disposals, transactions);
+
+  const inYear = disposals.filter((disposal) => disposal.sold.startsWith(`${year}-`));
+  const totalsFor = (term: HoldingTerm): TermTotals => {
+    const ofTerm = inYear.filter((disposal) => disposal.term === term);
+    const sum = (value: (disposal: Disposal) => number) => ofTerm.reduce((total, disposal) => total + value(disposal), 0);
+    return {
+      proceeds: sum((disposal) => disposal.proceeds),
+      costBasis: sum((disposal) => disposal.costBasis),
+      adjustment: sum((disposal) => disposal.washSale?.disallowed ?? 0),
+      gain: sum((disposal) => disposal.reportedGain),
+    };
+  };
+
+  return { year, disposals: inYear, totals: { short: totalsFor('short'), long: totalsFor('long') } };
+};
+
+// Form 8949 writes dates as MM/DD/YYYY
+const formDate = (date: string) => `${date.slice(5, 7)}/${date.slice(8, 10)}/${date.slice(0, 4)}`;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/**
+ * The report laid out like Form 8949: Part I for short-term and Part II for
+ * long-term disposals, with code W and the adjustment on wash sales.
+ */
+export const form8949Records = (report: TaxReport, currency: Currency): ExportRecord[] =>
+  (['short', 'long'] as HoldingTerm[]).flatMap((term) =>
+    report.disposals
+      .filter((disposal) => disposal.term === term)
+      .map((disposal) => ({
+        'Part': term === 'short' ? 'I (short-term)' : 'II (long-term)',
+        '(a) Description of property': `${disposal.quantity.toLocaleString('en-US', { maximumFractionDigits: 8 })} ${disposal.symbol} (${disposal.name})`,
+        '(b) Date acquired': formDate(disposal.acquired),
+        '(c) Date sold or disposed of': formDate(disposal.sold),
+        '(d) Proceeds': round(disposal.proceeds),
+        '(e) Cost or other basis': round(disposal.costBasis),
+        '(f) Code': disposal.washSale ? 'W' : '',
+        '(g) Amount of adjustment': disposal.washSale ? round(disposal.washSale.disallowed) : '',
+        '(h) Gain or (loss)': round(disposal.reportedGain),
+        'Currency': currency,
+      }))
+  );
@@ -0,0 +1,217 @@
+import type { AssetType, Currency } from "@/lib/market";
+
+export type AccountKind = 'brokerage' | 'exchange' | 'wallet' | 'other';
+
+/** A brokerage account, exchange account or wallet holdings are kept in. */
+export interface Account {
+  id: string;
+  name: string;
+  kind: AccountKind;
+  /** How sales and transfers out of this account pick their lots. */
+  costBasisMethod: CostBasisMethod;
+  /** Whether trades settle against cash balances kept in the account. */
+  tracksCash?: boolean;
+  createdAt: number;
+}
+
+/** Cash paid into or taken out of an account, apart from what trades settle. */
+export interface CashMovement {
+  id: string;
+  accountId: string;
+  kind: 'deposit' | 'withdraw';
+  /** Always positive; `kind` gives the direction. */
+  amount: number;
+  currency: Currency;
+  /** YYYY-MM-DD. */
+  date: string;
+  note?: string;
+  createdAt: number;
+}
+
+export type CashMovementDraft = Omit<CashMovement, 'id' | 'createdAt'>;
+
+/** What an account holds in one currency; negative when trades spent more than was paid in. */
+export interface CashBalance {
+  accountId: string;
+  currency: Currency;
+  amount: number;
+}
+
+/**
+ * - buy / sell: trade at `price` per unit
+ * - deposit / withdraw: units moved in from or out to somewhere outside the
+ *   portfolio; a deposit's `price` is the cost basis it arrives with
+ * - transfer: units moved to another of your accounts (`toAccountId`), lots
+ *   and cost basis included, or between two wallets of the same account,
+ *   which changes nothing
+ * - fee: units paid away as a fee, e.g. network gas
+ * - dividend: cash paid on `quantity` units held, `price` per unit; holdings
+ *   don't change
+ * - staking / interest: units received as a reward; `price` is their value
+ *   per unit when received, which is both the income and their cost basis
+ */
+export type TransactionKind =
+  | 'buy'
+  | 'sell'
+  | 'deposit'
+  | 'withdraw'
+  | 'transfer'
+  | 'fee'
+  | 'dividend'
+  | 'staking'
+  | 'interest';
+
+/** Kinds that pay income rather than trade or move units. */
+export type IncomeKind = Extract<TransactionKind, 'dividend' | 'staking' | 'interest'>;
+
+export interface Transaction {
+  id: string;
+  /** Account the transaction happened in; a transfer's source account. */
+  accountId: string;
+  kind: TransactionKind;
+  /** Provider id used for quotes; migrated items may not have one yet. */
+  assetId?: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  /** Units of the asset, always positive; `kind` gives the direction. */
+  quantity: number;
+  /** Per-unit price in `currency`. Required for trades, optional otherwise. */
+  price?: number;
+  currency: Currency;
+  /**
+   * Stablecoin a trade was paid for or paid out in, e.g. USDT for BTC/USDT,
+   * with `currency` the currency it tracks. The stablecoin holding settles
+   * the trade (a buy sells it, a sell buys it), so cash balances leave it alone.
+   */
+  settledIn?: string;
+  /** Fee or commission paid on top. */
+  fee?: TransactionFee;
+  /** YYYY-MM-DD the transaction happened. */
+  date: string;
+  /** Account a transfer moves the units to. */
+  toAccountId?: string;
+  /** Source and destination wallets of a transfer within an account. */
+  from?: string;
+  to?: string;
+  note?: string;
+  /** Id the transaction had in the file it was imported from, to catch it being imported again. */
+  importId?: string;
+  /**
+   * Lots an outflow or transfer draws from under specific-lot
+   * identification; any units not covered here come from the oldest lots.
+   */
+  lots?: LotSelection[];
+  /** When it was recorded, in epoch milliseconds; orders same-day transactions. */
+  createdAt: number;
+}
+
+/**
+ * A fee paid in the transaction's `currency`, which adds to the cost of
+ * what comes in or takes from the proceeds of a sale, or in units of the
+ * asset itself, which leave the account along with their cost basis.
+ */
+export interface TransactionFee {
+  amount: number;
+  paidIn: 'currency' | 'asset';
+}
+
+/** Units of one lot picked to leave with a sale, withdrawal or fee. */
+export interface LotSelection {
+  lotId: string;
+  quantity: number;
+}
+
+/**
+ * Which units leave a position first, and so what they cost:
+ * - fifo / lifo: oldest / newest lot first
+ * - hifo: lot with the highest unit cost first
+ * - average: every lot in proportion, i.e. at the average cost
+ * - specific: the lots chosen on each transaction
+ */
+export type CostBasisMethod = 'fifo' | 'lifo' | 'hifo' | 'average' | 'specific';
+
+/** A transaction before it has been recorded. */
+export type TransactionDraft = Omit<Transaction, 'id' | 'createdAt'>;
+
+/** Everything about a transaction except which asset it is for. */
+export type TransactionDetails = Omit<TransactionDraft, 'assetId' | 'symbol' | 'name' | 'type'>;
+
+/** What one account, or all of them together, holds of an asset, derived from its transactions. */
+export interface Position {
+  /** Identifies the asset; see positionKey. */
+  key: string;
+  /** Undefined when the position combines every account. */
+  accountId?: string;
+  assetId?: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  quantity: number;
+  /** Cost of the units still held, in the base currency. */
+  costBasis: number;
+  /** Lots still open, oldest first. */
+  lots: Lot[];
+  /** Gains and losses locked in by sales, oldest first. */
+  realizedGains: RealizedGain[];
+  /** Sum of `realizedGains`, in the base currency. */
+  realizedGain: number;
+  /** Dividends, staking rewards and interest received, oldest first. */
+  incomes: Income[];
+  /** Sum of `incomes`, in the base currency. */
+  income: number;
+  /** What the fees on its transactions were worth when paid, in the base currency. */
+  fees: number;
+  /** Oldest first. */
+  transactions: Transaction[];
+}
+
+/** Units that came in with one buy or deposit. */
+export interface Lot {
+  /** Id of the transaction that brought the units in. */
+  id: string;
+  date: string;
+  /** Units that came in. */
+  acquired: number;
+  /** Units of the lot still held. */
+  quantity: number;
+  /** Cost of the units still held, in the base currency. */
+  costBasis: number;
+}
+
+/** Units of one lot that were sold, and what the sale made or lost on them. */
+export interface RealizedGain {
+  /** Id of the sell transaction. */
+  transactionId: string;
+  lotId: string;
+  accountId: string;
+  positionKey: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  /** YYYY-MM-DD the lot was acquired. */
+  acquired: string;
+  /** YYYY-MM-DD the units were sold. */
+  sold: string;
+  quantity: number;
+  /** What the units sold for, in the base currency. */
+  proceeds: number;
+  /** What they cost, in the base currency. */
+  costBasis: number;
+  gain: number;
+}
+
+/** One dividend, staking reward or interest payment. */
+export interface Income {
+  transactionId: string;
+  accountId: string;
+  positionKey: string;
+  symbol: string;
+  name: string;
+  type: AssetType;
+  kind: IncomeKind;
+  /** YYYY-MM-DD it was received. */
+  date: string;
+  /** What it was worth when received, in the base currency. */
+  amount: number;
+}
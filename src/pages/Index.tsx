@@ -4,14 +4,22 @@ import PortfolioCard from "@/components/PortfolioCard";
 import CryptoList from "@/components/CryptoList";
 import StockList from "@/components/StockList";
 import Portfolio from "@/components/Portfolio";
+import DataModeToggle from "@/components/DataModeToggle";
+import CurrencySelect from "@/components/CurrencySelect";
 
 const Index = () => {
   return (
     <div className="min-h-screen bg-background p-8">
       <div className="max-w-7xl mx-auto">
-        <header className="mb-8">
-          <h1 className="text-3xl font-bold mb-2">Investment Dashboard</h1>
-          <p className="text-muted-foreground">Track your stocks, crypto, and portfolio performance</p>
+        <header className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Investment Dashboard</h1>
+            <p className="text-muted-foreground">Track your stocks, crypto, and portfolio performance</p>
+          </div>
+          <div className="flex items-center gap-4">
+            <DataModeToggle />
+            <CurrencySelect />
+          </div>
         </header>
         
         <MarketStats />
@@ -0,0 +1,209 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { ArrowLeftIcon, DownloadIcon, PrinterIcon } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useCurrency } from "@/hooks/use-currency";
+import { useAccounts, usePositions, useSelectedAccount } from "@/hooks/use-portfolio";
+import { downloadFile } from "@/lib/download";
+import {
+  ALL_ACCOUNTS,
+  buildTaxReport,
+  costBasisMethodLabels,
+  derivePositions,
+  form8949Records,
+  holdingTermLabels,
+  recordsToCsv,
+  taxYears,
+  type HoldingTerm,
+  type TermTotals,
+} from "@/lib/portfolio";
+
+const gainClass = (gain: number) => (gain >= 0 ? 'text-success' : 'text-warning');
+
+// Laid out to print on white paper; the controls are left off the printout
+const TaxReport = () => {
+  const { currency, format } = useCurrency();
+  const accounts = useAccounts();
+  const [selectedAccountId] = useSelectedAccount();
+  const { transactions, toBase, methodFor } = usePositions();
+  const [accountId, setAccountId] = useState(selectedAccountId);
+
+  const gains = useMemo(
+    () => derivePositions(transactions, toBase, methodFor)
+      .filter((position) => accountId === ALL_ACCOUNTS || position.accountId === accountId)
+      .flatMap((position) => position.realizedGains),
+    [transactions, toBase, methodFor, accountId]
+  );
+  const years = taxYears(gains);
+  const [chosenYear, setYear] = useState<number>();
+  const year = chosenYear ?? years[0] ?? new Date().getFullYear();
+  const report = useMemo(() => buildTaxReport(gains, transactions, year), [gains, transactions, year]);
+
+  const covered = accountId === ALL_ACCOUNTS ? accounts : accounts.filter((account) => account.id === accountId);
+  const scope = accountId === ALL_ACCOUNTS ? 'All accounts' : covered[0]?.name;
+
+  const downloadCsv = () => {
+    const slug = accountId === ALL_ACCOUNTS ? 'all-accounts' : covered[0]?.name.toLowerCase().replace(/[^a-z0-9]+/g, '-');
+    downloadFile(`form-8949-${year}-${slug}.csv`, recordsToCsv(form8949Records(report, currency)), 'text/csv;charset=utf-8');
+  };
+
+  const totalsRow = (label: string, totals: TermTotals) => (
+    <tr key={label} className="border-b border-border/50">
+      <td className="py-2 font-medium">{label}</td>
+      <td className="py-2">{format(totals.proceeds)}</td>
+      <td className="py-2">{format(totals.costBasis)}</td>
+      <td className="py-2">{totals.adjustment ? format(totals.adjustment) : '—'}</td>
+      <td className={`py-2 ${gainClass(totals.gain)}`}>{format(totals.gain)}</td>
+    </tr>
+  );
+
+  const { short, long } = report.totals;
+  const overall: TermTotals = {
+    proceeds: short.proceeds + long.proceeds,
+    costBasis: short.costBasis + long.costBasis,
+    adjustment: short.adjustment + long.adjustment,
+    gain: short.gain + long.gain,
+  };
+
+  const part = (term: HoldingTerm, title: string) => {
+    const disposals = report.disposals.filter((disposal) => disposal.term === term);
+    return (
+      <section className="mt-8 break-inside-avoid-page">
+        <h3 className="text-lg font-semibold mb-2">{title}</h3>
+        {disposals.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No {holdingTermLabels[term].toLowerCase()} sales in {year}</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-muted-foreground border-b border-border">
+                <th className="pb-2">Description</th>
+                <th className="pb-2">Acquired</th>
+                <th className="pb-2">Sold</th>
+                <th className="pb-2">Proceeds</th>
+                <th className="pb-2">Cost Basis</th>
+                <th className="pb-2">Code</th>
+                <th className="pb-2">Adjustment</th>
+                <th className="pb-2">Gain/Loss</th>
+              </tr>
+            </thead>
+            <tbody>
+              {disposals.map((disposal) => (
+                <tr key={`${disposal.transactionId}:${disposal.lotId}`} className="border-b border-border/50">
+                  <td className="py-2">
+                    {disposal.quantity.toLocaleString()} <span className="font-medium">{disposal.symbol}</span>
+                  </td>
+                  <td className="py-2">{disposal.acquired}</td>
+                  <td className="py-2">{disposal.sold}</td>
+                  <td className="py-2">{format(disposal.proceeds)}</td>
+                  <td className="py-2">{format(disposal.costBasis)}</td>
+                  <td className="py-2">{disposal.washSale ? 'W' : ''}</td>
+                  <td className="py-2">{disposal.washSale ? format(disposal.washSale.disallowed) : ''}</td>
+                  <td className={`py-2 ${gainClass(disposal.reportedGain)}`}>{format(disposal.reportedGain)}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-medium">
+                <td className="pt-2" colSpan={3}>Total</td>
+                <td className="pt-2">{format(report.totals[term].proceeds)}</td>
+                <td className="pt-2">{format(report.totals[term].costBasis)}</td>
+                <td className="pt-2" />
+                <td className="pt-2">{report.totals[term].adjustment ? format(report.totals[term].adjustment) : ''}</td>
+                <td className={`pt-2 ${gainClass(report.totals[term].gain)}`}>{format(report.totals[term].gain)}</td>
+              </tr>
+            </tfoot>
+          </table>
+        )}
+      </section>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-8 print:p-0 print:bg-white print:text-black">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex flex-wrap items-end justify-between gap-4 mb-8 print:hidden">
+          <Button variant="outline" asChild>
+            <Link to="/">
+              <ArrowLeftIcon className="w-4 h-4 mr-2" />
+              Dashboard
+            </Link>
+          </Button>
+          <div className="flex flex-wrap items-end gap-2">
+            <div>
+              <label className="text-sm font-medium">Tax year</label>
+              <Select value={String(year)} onValueChange={(value) => setYear(Number(value))}>
+                <SelectTrigger className="w-[120px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(years.length > 0 ? years : [year]).map((option) => (
+                    <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <label className="text-sm font-medium">Account</label>
+              <Select value={accountId} onValueChange={setAccountId}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_ACCOUNTS}>All accounts</SelectItem>
+                  {accounts.map((account) => (
+                    <SelectItem key={account.id} value={account.id}>{account.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={downloadCsv} disabled={report.disposals.length === 0}>
+              <DownloadIcon className="w-4 h-4 mr-2" />
+              Form 8949 CSV
+            </Button>
+            <Button onClick={() => window.print()}>
+              <PrinterIcon className="w-4 h-4 mr-2" />
+              Print / Save as PDF
+            </Button>
+          </div>
+        </div>
+
+        <header className="mb-6">
+          <h1 className="text-3xl font-bold mb-2">Capital Gains Report {year}</h1>
+          <p className="text-muted-foreground">
+            {scope} · amounts in {currency} · cost basis by{' '}
+            {covered.map((account) => `${costBasisMethodLabels[account.costBasisMethod]}${covered.length > 1 ? ` (${account.name})` : ''}`).join(', ')}
+          </p>
+        </header>
+
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-muted-foreground border-b border-border">
+              <th className="pb-2">Holding period</th>
+              <th className="pb-2">Proceeds</th>
+              <th className="pb-2">Cost Basis</th>
+              <th className="pb-2">Wash-sale Adjustment</th>
+              <th className="pb-2">Gain/Loss</th>
+            </tr>
+          </thead>
+          <tbody>
+            {totalsRow('Short-term (one year or less)', short)}
+            {totalsRow('Long-term (more than one year)', long)}
+            {totalsRow('Total', overall)}
+          </tbody>
+        </table>
+
+        {part('short', 'Part I — Short-term')}
+        {part('long', 'Part II — Long-term')}
+
+        <p className="text-xs text-muted-foreground mt-8">
+          Code W marks a stock sold at a loss with the same stock bought within 30 days before or after, in any
+          account. The disallowed loss is added back as the adjustment; the replacement's cost basis is not
+          increased here. Prepared from the portfolio ledger, so check it against your broker's statements.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default TaxReport;
@@ -1 +1,8 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_MARKET_DATA_MODE?: 'live' | 'fixture';
+  readonly VITE_PRICE_STREAM_URL?: string;
+  /** Base URL of the market data API server; defaults to the dev server's /api proxy. */
+  readonly VITE_API_URL?: string;
+}
@@ -57,6 +57,8 @@ export default {
       animation: {
         "fade-in": "fade-in 0.5s ease-out",
         "slide-up": "slide-up 0.5s ease-out",
+        "flash-up": "flash-up 0.8s ease-out",
+        "flash-down": "flash-down 0.8s ease-out",
       },
       keyframes: {
         "fade-in": {
@@ -67,6 +69,14 @@ export default {
           "0%": { transform: "translateY(10px)", opacity: "0" },
           "100%": { transform: "translateY(0)", opacity: "1" },
         },
+        "flash-up": {
+          "0%": { backgroundColor: "rgb(126 191 142 / 0.35)" },
+          "100%": { backgroundColor: "transparent" },
+        },
+        "flash-down": {
+          "0%": { backgroundColor: "rgb(210 136 111 / 0.35)" },
+          "100%": { backgroundColor: "transparent" },
+        },
       },
     },
   },
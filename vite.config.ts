@@ -1,21 +1,47 @@
-import { defineConfig } from "vite";
+import { defineConfig, loadEnv, type Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
+import { spawn } from "child_process";
 import { componentTagger } from "lovable-tagger";
 
-// https://vitejs.dev/config/
-export default defineConfig(({ mode }) => ({
-  server: {
-    host: "::",
-    port: 8080,
+// Runs the market data API (server/api.ts) for as long as the dev server is
+// up, with the same .env files so provider keys can live in .env.local.
+const apiServer = (env: Record<string, string>): Plugin => ({
+  name: 'market-data-api',
+  apply: 'serve',
+  configureServer(server) {
+    const child = spawn(process.execPath, ['--import', 'tsx', 'server/api.ts'], {
+      stdio: 'inherit',
+      env: { ...process.env, ...env },
+    });
+    const stop = () => child.kill();
+    server.httpServer?.once('close', stop);
+    process.once('exit', stop);
   },
-  plugins: [
-    react(),
-    mode === 'development' && componentTagger(),
-  ].filter(Boolean),
-  resolve: {
-    alias: {
-      "@": path.resolve(__dirname, "./src"),
+});
+
+// https://vitejs.dev/config/
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), '');
+  const apiPort = env.API_PORT || '8787';
+
+  return {
+    server: {
+      host: "::",
+      port: 8080,
+      proxy: {
+        '/api': `http://localhost:${apiPort}`,
+      },
     },
-  },
-}));
+    plugins: [
+      react(),
+      apiServer({ ...env, API_PORT: apiPort }),
+      mode === 'development' && componentTagger(),
+    ].filter(Boolean),
+    resolve: {
+      alias: {
+        "@": path.resolve(__dirname, "./src"),
+      },
+    },
+  };
+});